@@ -0,0 +1,11 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/tests/**/*.test.ts'],
+  setupFiles: ['<rootDir>/src/tests/setup.ts'],
+  // Type errors are reported by `tsc --noEmit`; tests only transpile
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }],
+  },
+};
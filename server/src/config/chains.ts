@@ -0,0 +1,199 @@
+/**
+ * Built-in Chains
+ * Default entries of the chain registry; a chains config file can add or override them
+ */
+
+export interface ChainDefinition {
+  // Identifier used in requests, e.g. 'ethereum'
+  id: string;
+  name: string;
+  chainId: number;
+  nativeSymbol: string;
+  testnet: boolean;
+  explorerName: string;
+  explorerUrl: string;
+  // Etherscan-compatible API endpoint
+  explorerApiUrl: string;
+  // Environment variable holding the explorer API key
+  apiKeyEnv: string;
+  // Environment variable holding the JSON-RPC URL
+  rpcUrlEnv: string;
+  // JSON-RPC URL used when the environment variable is unset
+  rpcUrl?: string;
+  // Explorer API requests per second; EXPLORER_RATE_LIMIT when unset
+  explorerRateLimit?: number;
+}
+
+export const DEFAULT_CHAINS: ChainDefinition[] = [
+  // Mainnets
+  {
+    id: 'ethereum',
+    name: 'Ethereum Mainnet',
+    chainId: 1,
+    nativeSymbol: 'ETH',
+    testnet: false,
+    explorerName: 'Etherscan',
+    explorerUrl: 'https://etherscan.io',
+    explorerApiUrl: 'https://api.etherscan.io/api',
+    apiKeyEnv: 'ETHERSCAN_API_KEY',
+    rpcUrlEnv: 'ETHEREUM_RPC_URL',
+  },
+  {
+    id: 'polygon',
+    name: 'Polygon',
+    chainId: 137,
+    nativeSymbol: 'POL',
+    testnet: false,
+    explorerName: 'Polygonscan',
+    explorerUrl: 'https://polygonscan.com',
+    explorerApiUrl: 'https://api.polygonscan.com/api',
+    apiKeyEnv: 'POLYGONSCAN_API_KEY',
+    rpcUrlEnv: 'POLYGON_RPC_URL',
+  },
+  {
+    id: 'bsc',
+    name: 'Binance Smart Chain',
+    chainId: 56,
+    nativeSymbol: 'BNB',
+    testnet: false,
+    explorerName: 'BSCscan',
+    explorerUrl: 'https://bscscan.com',
+    explorerApiUrl: 'https://api.bscscan.com/api',
+    apiKeyEnv: 'BSCSCAN_API_KEY',
+    rpcUrlEnv: 'BSC_RPC_URL',
+  },
+  {
+    id: 'arbitrum',
+    name: 'Arbitrum One',
+    chainId: 42161,
+    nativeSymbol: 'ETH',
+    testnet: false,
+    explorerName: 'Arbiscan',
+    explorerUrl: 'https://arbiscan.io',
+    explorerApiUrl: 'https://api.arbiscan.io/api',
+    apiKeyEnv: 'ARBISCAN_API_KEY',
+    rpcUrlEnv: 'ARBITRUM_RPC_URL',
+  },
+  {
+    id: 'optimism',
+    name: 'OP Mainnet',
+    chainId: 10,
+    nativeSymbol: 'ETH',
+    testnet: false,
+    explorerName: 'Optimistic Etherscan',
+    explorerUrl: 'https://optimistic.etherscan.io',
+    explorerApiUrl: 'https://api-optimistic.etherscan.io/api',
+    apiKeyEnv: 'OPTIMISM_ETHERSCAN_API_KEY',
+    rpcUrlEnv: 'OPTIMISM_RPC_URL',
+  },
+  {
+    id: 'base',
+    name: 'Base',
+    chainId: 8453,
+    nativeSymbol: 'ETH',
+    testnet: false,
+    explorerName: 'Basescan',
+    explorerUrl: 'https://basescan.org',
+    explorerApiUrl: 'https://api.basescan.org/api',
+    apiKeyEnv: 'BASESCAN_API_KEY',
+    rpcUrlEnv: 'BASE_RPC_URL',
+  },
+  {
+    id: 'avalanche',
+    name: 'Avalanche C-Chain',
+    chainId: 43114,
+    nativeSymbol: 'AVAX',
+    testnet: false,
+    explorerName: 'Snowtrace',
+    explorerUrl: 'https://snowtrace.io',
+    explorerApiUrl: 'https://api.routescan.io/v2/network/mainnet/evm/43114/etherscan/api',
+    apiKeyEnv: 'SNOWTRACE_API_KEY',
+    rpcUrlEnv: 'AVALANCHE_RPC_URL',
+  },
+
+  // Testnets
+  {
+    id: 'sepolia',
+    name: 'Ethereum Sepolia',
+    chainId: 11155111,
+    nativeSymbol: 'ETH',
+    testnet: true,
+    explorerName: 'Etherscan',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    explorerApiUrl: 'https://api-sepolia.etherscan.io/api',
+    apiKeyEnv: 'ETHERSCAN_API_KEY',
+    rpcUrlEnv: 'SEPOLIA_RPC_URL',
+  },
+  {
+    id: 'polygon-amoy',
+    name: 'Polygon Amoy',
+    chainId: 80002,
+    nativeSymbol: 'POL',
+    testnet: true,
+    explorerName: 'Polygonscan',
+    explorerUrl: 'https://amoy.polygonscan.com',
+    explorerApiUrl: 'https://api-amoy.polygonscan.com/api',
+    apiKeyEnv: 'POLYGONSCAN_API_KEY',
+    rpcUrlEnv: 'POLYGON_AMOY_RPC_URL',
+  },
+  {
+    id: 'bsc-testnet',
+    name: 'BSC Testnet',
+    chainId: 97,
+    nativeSymbol: 'tBNB',
+    testnet: true,
+    explorerName: 'BSCscan',
+    explorerUrl: 'https://testnet.bscscan.com',
+    explorerApiUrl: 'https://api-testnet.bscscan.com/api',
+    apiKeyEnv: 'BSCSCAN_API_KEY',
+    rpcUrlEnv: 'BSC_TESTNET_RPC_URL',
+  },
+  {
+    id: 'arbitrum-sepolia',
+    name: 'Arbitrum Sepolia',
+    chainId: 421614,
+    nativeSymbol: 'ETH',
+    testnet: true,
+    explorerName: 'Arbiscan',
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    explorerApiUrl: 'https://api-sepolia.arbiscan.io/api',
+    apiKeyEnv: 'ARBISCAN_API_KEY',
+    rpcUrlEnv: 'ARBITRUM_SEPOLIA_RPC_URL',
+  },
+  {
+    id: 'optimism-sepolia',
+    name: 'OP Sepolia',
+    chainId: 11155420,
+    nativeSymbol: 'ETH',
+    testnet: true,
+    explorerName: 'Optimistic Etherscan',
+    explorerUrl: 'https://sepolia-optimism.etherscan.io',
+    explorerApiUrl: 'https://api-sepolia-optimistic.etherscan.io/api',
+    apiKeyEnv: 'OPTIMISM_ETHERSCAN_API_KEY',
+    rpcUrlEnv: 'OPTIMISM_SEPOLIA_RPC_URL',
+  },
+  {
+    id: 'base-sepolia',
+    name: 'Base Sepolia',
+    chainId: 84532,
+    nativeSymbol: 'ETH',
+    testnet: true,
+    explorerName: 'Basescan',
+    explorerUrl: 'https://sepolia.basescan.org',
+    explorerApiUrl: 'https://api-sepolia.basescan.org/api',
+    apiKeyEnv: 'BASESCAN_API_KEY',
+    rpcUrlEnv: 'BASE_SEPOLIA_RPC_URL',
+  },
+  {
+    id: 'avalanche-fuji',
+    name: 'Avalanche Fuji',
+    chainId: 43113,
+    nativeSymbol: 'AVAX',
+    testnet: true,
+    explorerName: 'Snowtrace',
+    explorerUrl: 'https://testnet.snowtrace.io',
+    explorerApiUrl: 'https://api.routescan.io/v2/network/testnet/evm/43113/etherscan/api',
+    apiKeyEnv: 'SNOWTRACE_API_KEY',
+    rpcUrlEnv: 'AVALANCHE_FUJI_RPC_URL',
+  },
+];
@@ -10,12 +10,21 @@ interface Config {
   
   // Database
   databaseUrl: string;
+  analysisStore: 'postgres' | 'memory';
   
   // Redis
   redisUrl: string;
   redisPassword?: string;
   redisTTL: number;
   
+  // Async analysis jobs
+  jobQueue: 'redis' | 'memory';
+  jobConcurrency: number;
+  jobTTL: number;
+  jobPollIntervalMs: number;
+  // Seconds without progress after which a claimed job is considered abandoned
+  jobStaleAfter: number;
+  
   // JWT
   jwtSecret: string;
   jwtExpiresIn: string;
@@ -27,14 +36,19 @@ interface Config {
   rateLimitMaxRequestsPro: number;
   rateLimitMaxRequestsEnterprise: number;
   
-  // Blockchain APIs
-  etherscanApiKey: string;
-  polygonscanApiKey: string;
-  bscscanApiKey: string;
-  arbiscanApiKey: string;
+  // Chains (explorer API keys and RPC URLs are read from each chain's env vars)
+  chainsConfigPath: string;
+  resolveProxySlots: boolean;
+  explorerRateLimit: number;
+  
+  // Batch analysis
+  batchMaxItems: number;
+  batchConcurrency: number;
   
   // AI Configuration
   openaiApiKey?: string;
+  // OpenAI-compatible chat completions endpoint
+  aiApiUrl: string;
   aiModel: string;
   aiMaxTokens: number;
   aiTemperature: number;
@@ -59,6 +73,12 @@ interface Config {
   enableStaticAnalysis: boolean;
   enablePdfReports: boolean;
   enableAuditLogging: boolean;
+  
+  // Detectors (ids overriding each detector's enabledByDefault)
+  enabledDetectors: string[];
+  disabledDetectors: string[];
+  customRulesPath: string;
+  signatureDatabasePath: string;
 }
 
 const config: Config = {
@@ -69,12 +89,20 @@ const config: Config = {
   
   // Database
   databaseUrl: process.env.DATABASE_URL || '',
+  analysisStore: process.env.ANALYSIS_STORE === 'memory' ? 'memory' : 'postgres',
   
   // Redis
   redisUrl: process.env.REDIS_URL || 'redis://localhost:6379',
   redisPassword: process.env.REDIS_PASSWORD,
   redisTTL: parseInt(process.env.REDIS_TTL || '3600', 10),
   
+  // Async analysis jobs
+  jobQueue: process.env.JOB_QUEUE === 'memory' ? 'memory' : 'redis',
+  jobConcurrency: parseInt(process.env.JOB_CONCURRENCY || '2', 10),
+  jobTTL: parseInt(process.env.JOB_TTL || '86400', 10),
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+  jobStaleAfter: parseInt(process.env.JOB_STALE_AFTER || '300', 10),
+  
   // JWT
   jwtSecret: process.env.JWT_SECRET || 'dev-secret-key',
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
@@ -86,14 +114,18 @@ const config: Config = {
   rateLimitMaxRequestsPro: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS_PRO || '100', 10),
   rateLimitMaxRequestsEnterprise: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS_ENTERPRISE || '1000', 10),
   
-  // Blockchain APIs
-  etherscanApiKey: process.env.ETHERSCAN_API_KEY || '',
-  polygonscanApiKey: process.env.POLYGONSCAN_API_KEY || '',
-  bscscanApiKey: process.env.BSCSCAN_API_KEY || '',
-  arbiscanApiKey: process.env.ARBISCAN_API_KEY || '',
+  // Chains
+  chainsConfigPath: process.env.CHAINS_CONFIG_PATH || '',
+  resolveProxySlots: process.env.RESOLVE_PROXY_SLOTS !== 'false',
+  explorerRateLimit: parseFloat(process.env.EXPLORER_RATE_LIMIT || '5'),
+  
+  // Batch analysis
+  batchMaxItems: parseInt(process.env.BATCH_MAX_ITEMS || '100', 10),
+  batchConcurrency: parseInt(process.env.BATCH_CONCURRENCY || '4', 10),
   
   // AI Configuration
   openaiApiKey: process.env.OPENAI_API_KEY,
+  aiApiUrl: process.env.AI_API_URL || 'https://api.openai.com/v1/chat/completions',
   aiModel: process.env.AI_MODEL || 'gpt-4',
   aiMaxTokens: parseInt(process.env.AI_MAX_TOKENS || '2048', 10),
   aiTemperature: parseFloat(process.env.AI_TEMPERATURE || '0.1'),
@@ -108,7 +140,7 @@ const config: Config = {
   // Security
   bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
   maxContractSizeBytes: parseInt(process.env.MAX_CONTRACT_SIZE_BYTES || '1048576', 10),
-  allowedChains: (process.env.ALLOWED_CHAINS || 'ethereum,polygon,bsc,arbitrum,optimism').split(','),
+  allowedChains: (process.env.ALLOWED_CHAINS || '').split(',').map(id => id.trim()).filter(Boolean),
   
   // PDF
   pdfGenerationTimeout: parseInt(process.env.PDF_GENERATION_TIMEOUT || '30000', 10),
@@ -118,6 +150,12 @@ const config: Config = {
   enableStaticAnalysis: process.env.ENABLE_STATIC_ANALYSIS === 'true',
   enablePdfReports: process.env.ENABLE_PDF_REPORTS === 'true',
   enableAuditLogging: process.env.ENABLE_AUDIT_LOGGING === 'true',
+  
+  // Detectors
+  enabledDetectors: (process.env.ENABLED_DETECTORS || '').split(',').map(id => id.trim()).filter(Boolean),
+  disabledDetectors: (process.env.DISABLED_DETECTORS || '').split(',').map(id => id.trim()).filter(Boolean),
+  customRulesPath: process.env.CUSTOM_RULES_PATH || '',
+  signatureDatabasePath: process.env.SIGNATURE_DATABASE_PATH || '',
 };
 
 // Validate required config
@@ -130,4 +168,14 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+// 0 or a non-number would make the explorer rate limiter stop spacing requests
+if (!Number.isFinite(config.explorerRateLimit) || config.explorerRateLimit <= 0) {
+  throw new Error('EXPLORER_RATE_LIMIT must be a positive number of requests per second');
+}
+
+// 0 or a non-number would run job recovery in a tight loop and fail jobs that are still running
+if (!Number.isFinite(config.jobStaleAfter) || config.jobStaleAfter <= 0) {
+  throw new Error('JOB_STALE_AFTER must be a positive number of seconds');
+}
+
 export default config;
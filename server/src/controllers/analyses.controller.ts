@@ -0,0 +1,69 @@
+/**
+ * Analyses Controller
+ * Analysis history of the authenticated user
+ */
+
+import { Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { getAnalysisRepository, AnalysisListQuery } from '../repositories';
+import { PaginatedResponse } from '../types';
+
+// One row of the history listing; the full result is at GET /analyze/:id
+interface AnalysisHistoryItem {
+  id: string;
+  contract_address?: string;
+  chain: string;
+  risk_score: number;
+  classification: string;
+  confidence: number;
+  total_risks: number;
+  analysis_mode?: string;
+  created_at: string;
+}
+
+export class AnalysesController {
+  /**
+   * GET /api/v1/analyses
+   * List past analyses with pagination, sorting and filters
+   */
+  static async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const query = req.query as unknown as Omit<AnalysisListQuery, 'userId'>;
+
+      const { items, total } = await getAnalysisRepository().list({
+        ...query,
+        userId: req.user!.id,
+      });
+
+      const totalPages = Math.ceil(total / query.limit);
+      const data: PaginatedResponse<AnalysisHistoryItem> = {
+        items: items.map(record => ({
+          id: record.id,
+          contract_address: record.contractAddress,
+          chain: record.chain,
+          risk_score: record.result.risk_score,
+          classification: record.result.classification,
+          confidence: record.result.confidence,
+          total_risks: record.result.risks.length,
+          analysis_mode: record.result.metadata.analysis_mode,
+          created_at: record.createdAt.toISOString(),
+        })),
+        pagination: {
+          currentPage: query.page,
+          totalPages,
+          totalItems: total,
+          itemsPerPage: query.limit,
+          hasNextPage: query.page < totalPages,
+          hasPreviousPage: query.page > 1,
+        },
+      };
+
+      res.json({
+        success: true,
+        data,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -6,178 +6,72 @@
 import { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
-import { AIExplanationService } from '../services/ai-explanation/ai-service';
-import { EtherscanService } from '../services/etherscan.service';
-import cacheService from '../services/caching/redis.service';
-import { CacheKeys } from '../services/caching/cache-keys';
+import { AnalysisPipelineService } from '../services/analysis-pipeline.service';
+import { AnalysisWorkerService } from '../services/jobs/analysis-worker.service';
+import { BatchAnalysisService } from '../services/batch-analysis.service';
+import { getJobQueue } from '../services/jobs';
+import { getAnalysisRepository, isVisibleTo } from '../repositories';
+import { AuthRequest } from '../middleware/auth';
 import { ApiError } from '../utils/ApiError';
-import { RiskFinding } from '../types/risk.types';
+import { JobEvent } from '../types/job.types';
+import { BatchItem } from '../types/batch.types';
+
+// Keeps idle event streams open through proxies
+const HEARTBEAT_INTERVAL_MS = 15000;
 
 export class AnalyzeController {
   /**
    * POST /api/v1/analyze
-   * Analyze a smart contract
+   * Analyze a smart contract, or queue the analysis when `async` is set
    */
   static async analyze(req: Request, res: Response, next: NextFunction): Promise<void> {
-    const startTime = Date.now();
-
     try {
-      const { input, chain, mode } = req.body;
-
-      // 1. Determine if input is address or source code
-      const isAddress = EtherscanService.isValidAddress(input);
-
-      let sourceCode: string;
-      let contractAddress: string | undefined;
-      let isVerified = false;
-      let compilerVersion: string | undefined;
-
-      if (isAddress) {
-        contractAddress = input.toLowerCase();
-
-        // Check cache for analysis result
-        const cacheKey = CacheKeys.analysisResult(contractAddress, chain);
-        const cachedResult = await cacheService.get(cacheKey);
-
-        if (cachedResult) {
-          res.json({
-            success: true,
-            data: {
-              ...cachedResult,
-              cached: true,
-            },
-          });
-          return;
-        }
-
-        // Fetch from blockchain explorer
-        try {
-          const contractData = await EtherscanService.fetchContractSource(
-            contractAddress,
-            chain
-          );
-          sourceCode = contractData.sourceCode;
-          isVerified = contractData.isVerified;
-          compilerVersion = contractData.compilerVersion;
-
-          // Cache source code
-          const sourceCacheKey = CacheKeys.contractSource(contractAddress, chain);
-          await cacheService.set(sourceCacheKey, contractData, 86400); // 24 hours
-        } catch (error) {
-          throw new ApiError(
-            400,
-            'CONTRACT_FETCH_FAILED',
-            `Failed to fetch contract from ${chain}: ${error instanceof Error ? error.message : 'Unknown error'}`
-          );
-        }
-      } else {
-        // Direct source code input
-        sourceCode = input;
-        
-        // Check cache by code hash
-        const codeHash = CacheKeys.hashCode(sourceCode);
-        const cacheKey = CacheKeys.codeAnalysis(codeHash);
-        const cachedResult = await cacheService.get(cacheKey);
-
-        if (cachedResult) {
-          res.json({
-            success: true,
-            data: {
-              ...cachedResult,
-              cached: true,
-            },
-          });
-          return;
-        }
-      }
+      const { input, chain, mode, async: runAsync } = req.body;
 
-      // 2. Validate contract size
-      RiskEngineService.validateSize(sourceCode);
-
-      // 3. Run deterministic risk detection
-      console.log('Starting risk detection...');
-      const detectionResult = await RiskEngineService.analyze(sourceCode);
-      console.log(`Risk detection complete: ${detectionResult.findings.length} risks found`);
-
-      // 4. Generate AI explanations
-      console.log('Generating AI explanations...');
-      let explanations;
-      try {
-        explanations = await AIExplanationService.generateExplanations({
-          risk_score: detectionResult.risk_score,
-          risks: detectionResult.findings,
-          confidence: detectionResult.confidence,
+      if (runAsync) {
+        const job = await AnalysisWorkerService.submit({
+          id: uuidv4(),
+          input,
+          chain,
+          mode,
+          user_id: (req as AuthRequest).user?.id,
         });
-      } catch (error) {
-        console.error('AI explanation failed, using fallback:', error);
-        // Use fallback if AI fails
-        explanations = (AIExplanationService as any).generateFallbackExplanations({
-          risk_score: detectionResult.risk_score,
-          risks: detectionResult.findings,
-          confidence: detectionResult.confidence,
+
+        res.status(202).location(`${req.baseUrl}/analyze/${job.id}`).json({
+          success: true,
+          data: {
+            id: job.id,
+            status: job.status,
+            stage: job.stage,
+            progress: job.progress,
+            status_url: `${req.baseUrl}/analyze/${job.id}`,
+          },
         });
+        return;
       }
 
-      // 5. Build complete result
-      const analysisId = uuidv4();
-      const processingTime = Date.now() - startTime;
-
-      const risks = detectionResult.findings.map((finding: RiskFinding, index: number) => ({
-        type: finding.type,
-        severity: finding.severity,
-        weight: finding.weight,
-        code_snippet: finding.code_snippet,
-        line_number: finding.line_number,
-        machine_reason: finding.machine_reason,
-        function_name: finding.function_name,
-        modifier_name: finding.modifier_name,
-        beginner_explanation: explanations.risk_explanations[index]?.beginner || 'Explanation unavailable',
-        developer_explanation: explanations.risk_explanations[index]?.developer || finding.machine_reason,
-        why_it_matters: explanations.risk_explanations[index]?.why_it_matters || 'This may affect contract safety',
-        mitigation: explanations.risk_explanations[index]?.mitigation || 'Review this pattern carefully',
-      }));
-
-      const metadata = RiskEngineService.getContractMetadata(sourceCode);
-
-      const result = {
-        id: analysisId,
-        risk_score: detectionResult.risk_score,
-        classification: detectionResult.classification,
-        confidence: Math.round(detectionResult.confidence * 100),
-        risks,
-        beginner_summary: explanations.beginner_summary,
-        developer_summary: explanations.developer_summary,
-        metadata: {
-          contract_address: contractAddress,
-          chain,
-          is_verified: isVerified,
-          compiler_version: compilerVersion || metadata.compiler_version,
-          lines_of_code: metadata.lines_of_code,
-          total_functions: metadata.total_functions,
-          processing_time_ms: processingTime,
-        },
-        cached: false,
-        analyzed_at: new Date().toISOString(),
-      };
+      const result = await AnalysisPipelineService.run({
+        input,
+        chain,
+        mode,
+        userId: (req as AuthRequest).user?.id,
+      });
 
-      // 6. Cache result
-      if (contractAddress) {
-        const cacheKey = CacheKeys.analysisResult(contractAddress, chain);
-        await cacheService.set(cacheKey, result, 3600); // 1 hour
-      } else {
-        const codeHash = CacheKeys.hashCode(sourceCode);
-        const cacheKey = CacheKeys.codeAnalysis(codeHash);
-        await cacheService.set(cacheKey, result, 3600); // 1 hour
+      if (result.cached) {
+        res.json({
+          success: true,
+          data: result,
+        });
+        return;
       }
 
-      // 7. Return response
       res.json({
         success: true,
         data: result,
         meta: {
           timestamp: new Date().toISOString(),
           requestId: (req as any).id,
-          processingTime,
+          processingTime: result.metadata.processing_time_ms,
         },
       });
     } catch (error) {
@@ -185,18 +79,169 @@ export class AnalyzeController {
     }
   }
 
+  /**
+   * POST /api/v1/analyze/batch
+   * Analyze many contracts, reporting a result or error per item plus a summary
+   */
+  static async batch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { items, chain, mode } = req.body;
+
+      const batchItems: BatchItem[] = items.map((item: { input: string; chain?: string }) => ({
+        input: item.input,
+        chain: item.chain || chain,
+      }));
+      const result = await BatchAnalysisService.run(batchItems, mode, (req as AuthRequest).user?.id);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /api/v1/analyze/:id
-   * Get analysis by ID (from database if needed)
+   * Get a stored analysis by ID, or the status and progress of a queued one
    */
   static async getAnalysis(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      const userId = (req as AuthRequest).user?.id;
+
+      const job = await getJobQueue().get(id);
+      if (job && !isVisibleTo(job.user_id, userId)) {
+        throw new ApiError(404, 'NOT_FOUND', 'Analysis not found');
+      }
+      if (job && job.status !== 'COMPLETED') {
+        res.json({
+          success: true,
+          data: {
+            id: job.id,
+            status: job.status,
+            stage: job.stage,
+            progress: job.progress,
+            error: job.error,
+            created_at: job.created_at,
+            updated_at: job.updated_at,
+          },
+        });
+        return;
+      }
+
+      // Completed jobs keep their result until they expire; afterwards it is read from storage
+      let result = job?.result;
+      if (!result) {
+        const record = await getAnalysisRepository().findById(id);
+        result = record && isVisibleTo(record.userId, userId) ? record.result : undefined;
+      }
+      if (!result) {
+        throw new ApiError(404, 'NOT_FOUND', 'Analysis not found');
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...result,
+          status: 'COMPLETED',
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/v1/analyze/:id/events
+   * Stream the progress of a queued analysis as Server-Sent Events, replaying
+   * what already happened (after Last-Event-ID when reconnecting)
+   */
+  static async streamEvents(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = (req as AuthRequest).user?.id;
+      const queue = getJobQueue();
+
+      const job = await queue.get(id);
+      if (job && !isVisibleTo(job.user_id, userId)) {
+        throw new ApiError(404, 'NOT_FOUND', 'Analysis not found');
+      }
+      if (!job) {
+        // Analyses that did not run as a job (or whose job expired) only have their result
+        const record = await getAnalysisRepository().findById(id);
+        if (!record || !isVisibleTo(record.userId, userId)) {
+          throw new ApiError(404, 'NOT_FOUND', 'Analysis not found');
+        }
+        AnalyzeController.openStream(res);
+        AnalyzeController.writeEvent(res, { type: 'completed', result: record.result, seq: 1 });
+        res.end();
+        return;
+      }
+
+      AnalyzeController.openStream(res);
+
+      let lastSeq = Number(req.header('Last-Event-ID')) || 0;
+      let closed = false;
+      let heartbeat: NodeJS.Timeout | undefined;
+      let unsubscribe: (() => Promise<void>) | undefined;
+
+      const close = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe?.().catch(error => console.error(`Failed to unsubscribe from job ${id}:`, error));
+        res.end();
+      };
 
-      // For now, return not found
-      // In production, this would query the database
-      throw new ApiError(404, 'NOT_FOUND', 'Analysis not found');
+      const send = (event: JobEvent) => {
+        if (closed || event.seq <= lastSeq) {
+          return;
+        }
+        lastSeq = event.seq;
+        AnalyzeController.writeEvent(res, event);
+        if (event.type === 'completed' || event.type === 'failed') {
+          close();
+        }
+      };
+
+      req.on('close', close);
+
+      // Subscribe before replaying so nothing is missed in between; live events wait for the replay
+      const pending: JobEvent[] = [];
+      let replaying = true;
+      let stop: () => Promise<void>;
+      try {
+        stop = await queue.subscribe(id, event => (replaying ? pending.push(event) : send(event)));
+      } catch (error) {
+        // Without live events the stream would stall; the client reconnects and resumes from Last-Event-ID
+        console.error(`Failed to subscribe to job ${id}:`, error);
+        AnalyzeController.writeStreamError(res, 'EVENTS_UNAVAILABLE', 'Live progress is temporarily unavailable, reconnect to resume');
+        close();
+        return;
+      }
+      if (closed) {
+        await stop();
+        return;
+      }
+      unsubscribe = stop;
+
+      (await queue.getEvents(id, lastSeq)).forEach(send);
+      replaying = false;
+      pending.forEach(send);
+
+      if (!closed) {
+        heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      }
     } catch (error) {
+      if (res.headersSent) {
+        console.error('Analysis event stream failed:', error);
+        res.end();
+        return;
+      }
       next(error);
     }
   }
@@ -219,4 +264,27 @@ export class AnalyzeController {
       next(error);
     }
   }
+
+  private static openStream(res: Response): void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+  }
+
+  private static writeEvent(res: Response, event: JobEvent): void {
+    const { seq, ...data } = event;
+    res.write(`id: ${seq}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * A stream-level error; it has no id so Last-Event-ID still points at the last job event
+   */
+  private static writeStreamError(res: Response, code: string, message: string): void {
+    res.write(`event: stream_error\ndata: ${JSON.stringify({ error: { code, message } })}\n\n`);
+  }
 }
@@ -0,0 +1,177 @@
+/**
+ * Auth Controller
+ * Registration, login, token refresh, profile and API key management
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/auth.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { getAnalysisRepository, getApiKeyRepository, getUserRepository } from '../repositories';
+import { AuthRequest } from '../middleware/auth';
+import { ApiError } from '../utils/ApiError';
+
+export class AuthController {
+  /**
+   * POST /api/v1/auth/register
+   * Create an account and sign in
+   */
+  static async register(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email, password, name } = req.body;
+
+      const result = await AuthService.register(email, password, name);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/v1/auth/login
+   * Exchange credentials for an access and refresh token
+   */
+  static async login(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { email, password } = req.body;
+
+      const result = await AuthService.login(email, password);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/v1/auth/refresh
+   * Exchange a refresh token for a new token pair
+   */
+  static async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tokens = await AuthService.refresh(req.body.refreshToken);
+
+      res.json({
+        success: true,
+        data: tokens,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/v1/auth/me
+   * Profile of the signed-in user
+   */
+  static async me(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req as AuthRequest).user!.id;
+
+      const user = await getUserRepository().findById(userId);
+      if (!user) {
+        throw new ApiError(404, 'NOT_FOUND', 'User not found');
+      }
+
+      const analyses = await getAnalysisRepository().list({
+        userId,
+        page: 1,
+        limit: 1,
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+      });
+      const apiKeys = await getApiKeyRepository().listByUser(userId);
+
+      res.json({
+        success: true,
+        data: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          tier: user.tier,
+          createdAt: user.createdAt.toISOString(),
+          lastLoginAt: user.lastLoginAt?.toISOString(),
+          stats: {
+            totalAnalyses: analyses.total,
+            apiKeys: apiKeys.length,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/v1/auth/api-keys
+   * List the user's API keys (without the keys themselves)
+   */
+  static async listApiKeys(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const keys = await ApiKeyService.list((req as AuthRequest).user!.id);
+
+      res.json({
+        success: true,
+        data: keys,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/v1/auth/api-keys
+   * Issue a named, scoped API key; the full key is only shown in this response
+   */
+  static async createApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { name, scopes, expiresAt } = req.body;
+
+      const apiKey = await ApiKeyService.create((req as AuthRequest).user!.id, name, scopes, expiresAt);
+
+      res.status(201).json({
+        success: true,
+        data: apiKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/v1/auth/api-keys/:id/rotate
+   * Replace an API key's secret, invalidating the old one
+   */
+  static async rotateApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const apiKey = await ApiKeyService.rotate((req as AuthRequest).user!.id, req.params.id);
+
+      res.json({
+        success: true,
+        data: apiKey,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/v1/auth/api-keys/:id
+   * Revoke an API key
+   */
+  static async revokeApiKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await ApiKeyService.revoke((req as AuthRequest).user!.id, req.params.id);
+
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
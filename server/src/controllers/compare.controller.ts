@@ -0,0 +1,124 @@
+/**
+ * Compare Controller
+ * Compares two analyses, or two versions of one contract
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisPipelineService } from '../services/analysis-pipeline.service';
+import { ComparisonService } from '../services/comparison.service';
+import { VersionDiffService } from '../services/version-diff.service';
+import { getAnalysisRepository, getComparisonRepository, isVisibleTo, ExplanationMode } from '../repositories';
+import { AuthRequest } from '../middleware/auth';
+import { ApiError } from '../utils/ApiError';
+import { CompleteAnalysisResult } from '../types/risk.types';
+import { ComparedAnalysis } from '../types/comparison.types';
+
+export class CompareController {
+  /**
+   * POST /api/v1/compare
+   * Compare two stored analyses or two contract inputs
+   */
+  static async compare(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { analysis_id_a, analysis_id_b, input_a, input_b, chain, mode } = req.body;
+      const userId = (req as AuthRequest).user?.id;
+
+      const a = await CompareController.resolve(analysis_id_a, input_a, chain, mode, userId);
+      const b = await CompareController.resolve(analysis_id_b, input_b, chain, mode, userId);
+
+      const comparison = await getComparisonRepository().create({
+        id: uuidv4(),
+        analysis_a: CompareController.summarize(a),
+        analysis_b: CompareController.summarize(b),
+        differences: ComparisonService.compare(a, b),
+      });
+
+      res.status(201).json({
+        success: true,
+        data: comparison,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/v1/compare/:id
+   * Get a stored comparison by ID
+   */
+  static async getComparison(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = (req as AuthRequest).user?.id;
+
+      // Comparisons are visible to whoever can read both compared analyses
+      const comparison = await getComparisonRepository().findById(req.params.id);
+      const analyses = comparison
+        ? await Promise.all(
+          [comparison.analysis_a.id, comparison.analysis_b.id].map(id => getAnalysisRepository().findById(id))
+        )
+        : [];
+      if (!comparison || analyses.some(record => !record || !isVisibleTo(record.userId, userId))) {
+        throw new ApiError(404, 'NOT_FOUND', 'Comparison not found');
+      }
+
+      res.json({
+        success: true,
+        data: comparison,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/v1/diff
+   * Report what changed between two versions of a contract
+   */
+  static async diff(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { old_input, new_input, chain } = req.body;
+
+      const result = await VersionDiffService.diff(old_input, new_input, chain);
+
+      res.json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Load a stored analysis visible to the user, or analyze the input
+   */
+  private static async resolve(
+    analysisId: string | undefined,
+    input: string | undefined,
+    chain: string,
+    mode: ExplanationMode,
+    userId?: string
+  ): Promise<CompleteAnalysisResult> {
+    if (input !== undefined) {
+      // The comparison references the analysis by id, so it must be stored
+      return AnalysisPipelineService.run({ input, chain, mode, userId, requirePersistence: true });
+    }
+
+    const record = await getAnalysisRepository().findById(analysisId as string);
+    if (!record || !isVisibleTo(record.userId, userId)) {
+      throw new ApiError(404, 'ANALYSIS_NOT_FOUND', `Analysis ${analysisId} not found`);
+    }
+    return record.result;
+  }
+
+  private static summarize(result: CompleteAnalysisResult): ComparedAnalysis {
+    return {
+      id: result.id,
+      contract_address: result.metadata.contract_address,
+      chain: result.metadata.chain,
+      risk_score: result.risk_score,
+      classification: result.classification,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Detectors Controller
+ * Lists the registered risk detectors
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { DetectorRegistry } from '../services/risk-detection/detector-registry';
+
+export class DetectorsController {
+  /**
+   * GET /api/v1/detectors
+   * List all registered detectors and whether they are enabled
+   */
+  static async list(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const detectors = DetectorRegistry.describe().map(detector => ({
+        id: detector.id,
+        name: detector.name,
+        description: detector.description,
+        risk_types: detector.riskTypes,
+        pattern_count: detector.patternCount,
+        version: detector.version,
+        enabled_by_default: detector.enabledByDefault,
+        enabled: detector.enabled,
+      }));
+
+      res.json({
+        success: true,
+        data: {
+          detectors,
+          total: detectors.length,
+          enabled: detectors.filter(d => d.enabled).length,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
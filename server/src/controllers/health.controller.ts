@@ -5,7 +5,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import cacheService from '../services/caching/redis.service';
-import config from '../config';
+import { ChainRegistry } from '../services/chain-registry';
 
 export class HealthController {
   /**
@@ -50,26 +50,7 @@ export class HealthController {
    */
   static async getChains(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const chains = [
-        {
-          id: 'ethereum',
-          name: 'Ethereum Mainnet',
-          explorerUrl: 'https://etherscan.io',
-          enabled: !!config.etherscanApiKey,
-        },
-        {
-          id: 'polygon',
-          name: 'Polygon',
-          explorerUrl: 'https://polygonscan.com',
-          enabled: !!config.polygonscanApiKey,
-        },
-        {
-          id: 'bsc',
-          name: 'Binance Smart Chain',
-          explorerUrl: 'https://bscscan.com',
-          enabled: !!config.bscscanApiKey,
-        },
-      ];
+      const chains = ChainRegistry.describe();
 
       res.json({
         success: true,
@@ -6,6 +6,10 @@
 import { createApp } from './app';
 import config from './config';
 import cacheService from './services/caching/redis.service';
+import { ChainRegistry } from './services/chain-registry';
+import { RuleLoaderService } from './services/risk-detection/rules/rule-loader.service';
+import { SelectorResolverService } from './services/risk-detection/bytecode/selector-resolver.service';
+import { AnalysisWorkerService } from './services/jobs/analysis-worker.service';
 
 async function startServer() {
   try {
@@ -21,6 +25,28 @@ async function startServer() {
       console.log('⚠️  Caching disabled');
     }
 
+    // Add or override chains (invalid files abort startup)
+    if (config.chainsConfigPath) {
+      const chainCount = ChainRegistry.load(config.chainsConfigPath);
+      console.log(`✅ Loaded ${chainCount} chain(s) from ${config.chainsConfigPath}`);
+    }
+
+    // Load custom detection rules (invalid rules abort startup)
+    if (config.customRulesPath) {
+      const ruleCount = RuleLoaderService.register(config.customRulesPath);
+      console.log(`✅ Loaded ${ruleCount} custom rule(s) from ${config.customRulesPath}`);
+    }
+
+    // Extend the bundled function signature database
+    if (config.signatureDatabasePath) {
+      const signatureCount = SelectorResolverService.load(config.signatureDatabasePath);
+      console.log(`✅ Loaded ${signatureCount} function signature(s) from ${config.signatureDatabasePath}`);
+    }
+
+    // Process queued analyses (Redis queue when connected, otherwise in-process)
+    AnalysisWorkerService.start();
+    console.log(`✅ Analysis worker started (concurrency ${config.jobConcurrency})`);
+
     // Create Express app
     const app = createApp();
 
@@ -39,6 +65,10 @@ async function startServer() {
       server.close(async () => {
         console.log('🔌 HTTP server closed');
 
+        // Let running analyses finish
+        await AnalysisWorkerService.stop();
+        console.log('🔌 Analysis worker stopped');
+
         // Disconnect Redis
         if (cacheService.isConnected()) {
           await cacheService.disconnect();
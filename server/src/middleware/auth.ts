@@ -1,18 +1,31 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { PrismaClient } from '@prisma/client';
-import config from '../config';
+import { AuthService } from '../services/auth.service';
+import { ApiKeyService } from '../services/api-key.service';
+import { ApiKeyScope } from '../repositories';
 import { UserPayload } from '../types';
 import { ApiError } from '../utils/ApiError';
 
-const prisma = new PrismaClient();
-
 export interface AuthRequest extends Request {
   user?: UserPayload;
+  // Set when authenticated with an API key, which limits the request to its scopes
+  apiKey?: {
+    id: string;
+    scopes: ApiKeyScope[];
+  };
 }
 
 /**
- * Middleware to verify JWT token from Authorization header
+ * Verify an API key and attach its owner and scopes to the request
+ */
+const verifyApiKey = async (req: AuthRequest, key: string): Promise<void> => {
+  const { user, apiKey } = await ApiKeyService.authenticate(key);
+  req.user = user;
+  req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+};
+
+/**
+ * Middleware to verify JWT token from Authorization header,
+ * or an API key from X-API-Key when no token is sent
  */
 export const authenticate = async (
   req: AuthRequest,
@@ -21,6 +34,12 @@ export const authenticate = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKey = req.headers['x-api-key'] as string | undefined;
+
+    if ((!authHeader || !authHeader.startsWith('Bearer ')) && apiKey) {
+      await verifyApiKey(req, apiKey);
+      return next();
+    }
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       throw new ApiError(401, 'UNAUTHORIZED', 'Missing or invalid authorization header');
@@ -28,42 +47,17 @@ export const authenticate = async (
 
     const token = authHeader.substring(7);
 
-    try {
-      const decoded = jwt.verify(token, config.jwtSecret) as UserPayload;
-      
-      // Verify user still exists
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.id },
-        select: { id: true, email: true, tier: true }
-      });
-
-      if (!user) {
-        throw new ApiError(401, 'UNAUTHORIZED', 'User not found');
-      }
-
-      req.user = {
-        id: user.id,
-        email: user.email,
-        tier: user.tier as 'FREE' | 'PRO' | 'ENTERPRISE'
-      };
+    // Verifies the token and that the user still exists
+    req.user = await AuthService.authenticateToken(token);
 
-      next();
-    } catch (err) {
-      if (err instanceof jwt.TokenExpiredError) {
-        throw new ApiError(401, 'TOKEN_EXPIRED', 'Token has expired');
-      }
-      if (err instanceof jwt.JsonWebTokenError) {
-        throw new ApiError(401, 'INVALID_TOKEN', 'Invalid token');
-      }
-      throw err;
-    }
+    next();
   } catch (error) {
     next(error);
   }
 };
 
 /**
- * Optional authentication - doesn't fail if no token provided
+ * Optional authentication - doesn't fail if no token or API key provided
  */
 export const optionalAuthenticate = async (
   req: AuthRequest,
@@ -72,27 +66,17 @@ export const optionalAuthenticate = async (
 ): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKey = req.headers['x-api-key'] as string | undefined;
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if ((!authHeader || !authHeader.startsWith('Bearer ')) && !apiKey) {
       return next();
     }
 
-    const token = authHeader.substring(7);
-
     try {
-      const decoded = jwt.verify(token, config.jwtSecret) as UserPayload;
-      
-      const user = await prisma.user.findUnique({
-        where: { id: decoded.id },
-        select: { id: true, email: true, tier: true }
-      });
-
-      if (user) {
-        req.user = {
-          id: user.id,
-          email: user.email,
-          tier: user.tier as 'FREE' | 'PRO' | 'ENTERPRISE'
-        };
+      if (authHeader && authHeader.startsWith('Bearer ')) {
+        req.user = await AuthService.authenticateToken(authHeader.substring(7));
+      } else {
+        await verifyApiKey(req, apiKey as string);
       }
     } catch (err) {
       // Silently fail for optional auth
@@ -105,7 +89,7 @@ export const optionalAuthenticate = async (
 };
 
 /**
- * Middleware to verify API key from X-API-Key header
+ * Middleware to verify API key from X-API-Key header against the stored hashes
  */
 export const authenticateApiKey = async (
   req: AuthRequest,
@@ -119,20 +103,8 @@ export const authenticateApiKey = async (
       throw new ApiError(401, 'UNAUTHORIZED', 'Missing API key');
     }
 
-    const user = await prisma.user.findUnique({
-      where: { apiKey },
-      select: { id: true, email: true, tier: true }
-    });
-
-    if (!user) {
-      throw new ApiError(401, 'INVALID_API_KEY', 'Invalid API key');
-    }
-
-    req.user = {
-      id: user.id,
-      email: user.email,
-      tier: user.tier as 'FREE' | 'PRO' | 'ENTERPRISE'
-    };
+    // Rejects unknown and expired keys
+    await verifyApiKey(req, apiKey);
 
     next();
   } catch (error) {
@@ -161,3 +133,17 @@ export const requireTier = (minTier: 'FREE' | 'PRO' | 'ENTERPRISE') => {
     next();
   };
 };
+
+/**
+ * Middleware to require an API key scope; token-authenticated and anonymous
+ * requests are not limited by scopes
+ */
+export const requireScope = (scope: ApiKeyScope) => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      throw new ApiError(403, 'INSUFFICIENT_SCOPE', `This API key lacks the '${scope}' scope`);
+    }
+
+    next();
+  };
+};
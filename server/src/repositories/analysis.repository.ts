@@ -0,0 +1,57 @@
+/**
+ * Analysis Repository
+ * Storage contract for completed analyses
+ */
+
+import { CompleteAnalysisResult, RiskClassification } from '../types/risk.types';
+
+export type ExplanationMode = 'BEGINNER' | 'DEVELOPER';
+
+export interface AnalysisRecord {
+  id: string;
+  userId?: string;
+  contractAddress?: string;
+  chain: string;
+  // SHA-256 of the analyzed input (source, bytecode or ABI)
+  sourceHash: string;
+  // Pasted input; omitted for address analyses, which can be re-fetched
+  contractCode?: string;
+  mode: ExplanationMode;
+  result: CompleteAnalysisResult;
+  createdAt: Date;
+}
+
+/**
+ * Anonymous analyses are public; a user's analyses are visible to that user only
+ */
+export const isVisibleTo = (ownerId: string | undefined, userId: string | undefined): boolean =>
+  !ownerId || ownerId === userId;
+
+export type NewAnalysisRecord = Omit<AnalysisRecord, 'createdAt'>;
+
+export type AnalysisSortField = 'createdAt' | 'riskScore' | 'chain';
+
+export interface AnalysisListQuery {
+  userId: string;
+  page: number;
+  limit: number;
+  sortBy: AnalysisSortField;
+  sortOrder: 'asc' | 'desc';
+  chain?: string;
+  classification?: RiskClassification;
+  contractAddress?: string;
+  // Inclusive createdAt bounds
+  from?: Date;
+  to?: Date;
+}
+
+export interface AnalysisPage {
+  items: AnalysisRecord[];
+  total: number;
+}
+
+export interface AnalysisRepository {
+  create(record: NewAnalysisRecord): Promise<AnalysisRecord>;
+  findById(id: string): Promise<AnalysisRecord | null>;
+  list(query: AnalysisListQuery): Promise<AnalysisPage>;
+}
@@ -0,0 +1,39 @@
+/**
+ * API Key Repository
+ * Storage contract for users' API keys
+ */
+
+export const API_KEY_SCOPES = ['analyze', 'batch', 'history', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  name: string;
+  // SHA-256 of the key; the key itself is never stored
+  keyHash: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+}
+
+export type NewApiKeyRecord = Pick<ApiKeyRecord, 'userId' | 'name' | 'keyHash' | 'prefix' | 'scopes' | 'expiresAt'>;
+
+export interface ApiKeyChanges {
+  keyHash?: string;
+  prefix?: string;
+  lastUsedAt?: Date;
+}
+
+export interface ApiKeyRepository {
+  create(key: NewApiKeyRecord): Promise<ApiKeyRecord>;
+  findById(id: string): Promise<ApiKeyRecord | null>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | null>;
+  // Newest first
+  listByUser(userId: string): Promise<ApiKeyRecord[]>;
+  update(id: string, changes: ApiKeyChanges): Promise<ApiKeyRecord>;
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,11 @@
+/**
+ * Comparison Repository
+ * Storage contract for contract comparisons
+ */
+
+import { ComparisonResult } from '../types/comparison.types';
+
+export interface ComparisonRepository {
+  create(comparison: Omit<ComparisonResult, 'created_at'>): Promise<ComparisonResult>;
+  findById(id: string): Promise<ComparisonResult | null>;
+}
@@ -0,0 +1,67 @@
+/**
+ * In-Memory Analysis Repository
+ * Process-local store for tests and database-less development
+ */
+
+import {
+  AnalysisListQuery,
+  AnalysisPage,
+  AnalysisRecord,
+  AnalysisRepository,
+  AnalysisSortField,
+  NewAnalysisRecord,
+} from './analysis.repository';
+
+const sortValue = (record: AnalysisRecord, field: AnalysisSortField): number | string => {
+  switch (field) {
+    case 'riskScore':
+      return record.result.risk_score;
+    case 'chain':
+      return record.chain;
+    default:
+      return record.createdAt.getTime();
+  }
+};
+
+export class InMemoryAnalysisRepository implements AnalysisRepository {
+  private records = new Map<string, AnalysisRecord>();
+
+  async create(record: NewAnalysisRecord): Promise<AnalysisRecord> {
+    const stored: AnalysisRecord = { ...record, createdAt: new Date() };
+    this.records.set(stored.id, stored);
+    return stored;
+  }
+
+  async findById(id: string): Promise<AnalysisRecord | null> {
+    return this.records.get(id) || null;
+  }
+
+  async list(query: AnalysisListQuery): Promise<AnalysisPage> {
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+
+    const matches = Array.from(this.records.values())
+      .filter(record =>
+        record.userId === query.userId &&
+        (!query.chain || record.chain === query.chain) &&
+        (!query.classification || record.result.classification === query.classification) &&
+        (!query.contractAddress || record.contractAddress === query.contractAddress) &&
+        (!query.from || record.createdAt >= query.from) &&
+        (!query.to || record.createdAt <= query.to)
+      )
+      .sort((a, b) => {
+        const left = sortValue(a, query.sortBy);
+        const right = sortValue(b, query.sortBy);
+        return left < right ? -direction : left > right ? direction : 0;
+      });
+
+    const start = (query.page - 1) * query.limit;
+    return { items: matches.slice(start, start + query.limit), total: matches.length };
+  }
+
+  /**
+   * Remove every record
+   */
+  clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * In-Memory API Key Repository
+ * Process-local store for tests and database-less development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyChanges, ApiKeyRecord, ApiKeyRepository, NewApiKeyRecord } from './api-key.repository';
+
+export class InMemoryApiKeyRepository implements ApiKeyRepository {
+  private keys = new Map<string, ApiKeyRecord>();
+
+  async create(key: NewApiKeyRecord): Promise<ApiKeyRecord> {
+    const stored: ApiKeyRecord = { ...key, id: uuidv4(), createdAt: new Date() };
+    this.keys.set(stored.id, stored);
+    return stored;
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    return this.keys.get(id) || null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    return Array.from(this.keys.values()).find(key => key.keyHash === keyHash) || null;
+  }
+
+  async listByUser(userId: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.keys.values())
+      .filter(key => key.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async update(id: string, changes: ApiKeyChanges): Promise<ApiKeyRecord> {
+    const key = this.keys.get(id);
+    if (!key) {
+      throw new Error(`API key ${id} not found`);
+    }
+
+    const updated = { ...key, ...changes };
+    this.keys.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.keys.delete(id);
+  }
+
+  /**
+   * Remove every key
+   */
+  clear(): void {
+    this.keys.clear();
+  }
+}
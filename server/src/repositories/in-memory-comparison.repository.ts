@@ -0,0 +1,28 @@
+/**
+ * In-Memory Comparison Repository
+ * Process-local store for tests and database-less development
+ */
+
+import { ComparisonRepository } from './comparison.repository';
+import { ComparisonResult } from '../types/comparison.types';
+
+export class InMemoryComparisonRepository implements ComparisonRepository {
+  private comparisons = new Map<string, ComparisonResult>();
+
+  async create(comparison: Omit<ComparisonResult, 'created_at'>): Promise<ComparisonResult> {
+    const stored: ComparisonResult = { ...comparison, created_at: new Date().toISOString() };
+    this.comparisons.set(stored.id, stored);
+    return stored;
+  }
+
+  async findById(id: string): Promise<ComparisonResult | null> {
+    return this.comparisons.get(id) || null;
+  }
+
+  /**
+   * Remove every comparison
+   */
+  clear(): void {
+    this.comparisons.clear();
+  }
+}
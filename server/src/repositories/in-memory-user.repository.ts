@@ -0,0 +1,43 @@
+/**
+ * In-Memory User Repository
+ * Process-local store for tests and database-less development
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { NewUserRecord, UserChanges, UserRecord, UserRepository } from './user.repository';
+
+export class InMemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserRecord>();
+
+  async create(user: NewUserRecord): Promise<UserRecord> {
+    const stored: UserRecord = { ...user, id: uuidv4(), tier: 'FREE', createdAt: new Date() };
+    this.users.set(stored.id, stored);
+    return stored;
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    return this.users.get(id) || null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    return Array.from(this.users.values()).find(user => user.email === email) || null;
+  }
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord> {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new Error(`User ${id} not found`);
+    }
+
+    const updated: UserRecord = { ...user, ...changes };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * Remove every user
+   */
+  clear(): void {
+    this.users.clear();
+  }
+}
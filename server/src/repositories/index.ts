@@ -0,0 +1,84 @@
+/**
+ * Repositories
+ * Storage selected by ANALYSIS_STORE; replaceable for tests
+ */
+
+import config from '../config';
+import { AnalysisRepository } from './analysis.repository';
+import { ApiKeyRepository } from './api-key.repository';
+import { ComparisonRepository } from './comparison.repository';
+import { UserRepository } from './user.repository';
+import { InMemoryAnalysisRepository } from './in-memory-analysis.repository';
+import { InMemoryApiKeyRepository } from './in-memory-api-key.repository';
+import { InMemoryComparisonRepository } from './in-memory-comparison.repository';
+import { InMemoryUserRepository } from './in-memory-user.repository';
+import { PrismaAnalysisRepository } from './prisma-analysis.repository';
+import { PrismaApiKeyRepository } from './prisma-api-key.repository';
+import { PrismaComparisonRepository } from './prisma-comparison.repository';
+import { PrismaUserRepository } from './prisma-user.repository';
+
+export * from './analysis.repository';
+export * from './comparison.repository';
+export * from './user.repository';
+export * from './api-key.repository';
+export { InMemoryAnalysisRepository } from './in-memory-analysis.repository';
+export { InMemoryComparisonRepository } from './in-memory-comparison.repository';
+export { InMemoryUserRepository } from './in-memory-user.repository';
+export { InMemoryApiKeyRepository } from './in-memory-api-key.repository';
+
+let analysisRepository: AnalysisRepository | null = null;
+let comparisonRepository: ComparisonRepository | null = null;
+let userRepository: UserRepository | null = null;
+let apiKeyRepository: ApiKeyRepository | null = null;
+
+export const getAnalysisRepository = (): AnalysisRepository => {
+  if (!analysisRepository) {
+    analysisRepository = config.analysisStore === 'memory'
+      ? new InMemoryAnalysisRepository()
+      : new PrismaAnalysisRepository();
+  }
+  return analysisRepository;
+};
+
+export const setAnalysisRepository = (repository: AnalysisRepository): void => {
+  analysisRepository = repository;
+};
+
+export const getComparisonRepository = (): ComparisonRepository => {
+  if (!comparisonRepository) {
+    comparisonRepository = config.analysisStore === 'memory'
+      ? new InMemoryComparisonRepository()
+      : new PrismaComparisonRepository();
+  }
+  return comparisonRepository;
+};
+
+export const setComparisonRepository = (repository: ComparisonRepository): void => {
+  comparisonRepository = repository;
+};
+
+export const getUserRepository = (): UserRepository => {
+  if (!userRepository) {
+    userRepository = config.analysisStore === 'memory'
+      ? new InMemoryUserRepository()
+      : new PrismaUserRepository();
+  }
+  return userRepository;
+};
+
+export const setUserRepository = (repository: UserRepository): void => {
+  userRepository = repository;
+};
+
+export const getApiKeyRepository = (): ApiKeyRepository => {
+  if (!apiKeyRepository) {
+    apiKeyRepository = config.analysisStore === 'memory'
+      ? new InMemoryApiKeyRepository()
+      : new PrismaApiKeyRepository();
+  }
+  return apiKeyRepository;
+};
+
+export const setApiKeyRepository = (repository: ApiKeyRepository): void => {
+  apiKeyRepository = repository;
+};
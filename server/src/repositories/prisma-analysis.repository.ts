@@ -0,0 +1,142 @@
+/**
+ * Prisma Analysis Repository
+ * Stores analyses in the PostgreSQL `Analysis` table
+ */
+
+import { Analysis, Prisma } from '@prisma/client';
+import prisma from '../services/database/prisma-client';
+import {
+  AnalysisListQuery,
+  AnalysisPage,
+  AnalysisRecord,
+  AnalysisRepository,
+  AnalysisSortField,
+  NewAnalysisRecord,
+} from './analysis.repository';
+import {
+  AnalyzedRisk,
+  CompleteAnalysisResult,
+  ProxyAnalysisSummary,
+  RiskClassification,
+  Severity,
+} from '../types/risk.types';
+
+// Result fields kept in the `metadata` column next to CompleteAnalysisResult.metadata
+type StoredMetadata = Omit<CompleteAnalysisResult['metadata'], 'processing_time_ms'> & {
+  proxy?: ProxyAnalysisSummary;
+  analyzed_at?: string;
+};
+
+// API sort fields to Analysis columns
+const SORT_COLUMNS: Record<AnalysisSortField, string> = {
+  createdAt: 'createdAt',
+  riskScore: 'overallScore',
+  chain: 'chain',
+};
+
+export class PrismaAnalysisRepository implements AnalysisRepository {
+  async create(record: NewAnalysisRecord): Promise<AnalysisRecord> {
+    const { result } = record;
+    const { processing_time_ms, ...metadata } = result.metadata;
+
+    const row = await prisma.analysis.create({
+      data: {
+        id: record.id,
+        userId: record.userId,
+        contractAddress: record.contractAddress,
+        contractCode: record.contractCode,
+        chain: record.chain,
+        sourceHash: record.sourceHash,
+        overallScore: result.risk_score,
+        unmitigatedScore: result.unmitigated_risk_score,
+        confidence: result.confidence,
+        classification: result.classification,
+        summary: result.beginner_summary,
+        developerSummary: result.developer_summary,
+        categories: this.countBySeverity(result.risks),
+        findings: result.risks as unknown as Prisma.InputJsonValue,
+        recommendations: result.risks.map(risk => ({ type: risk.type, mitigation: risk.mitigation })),
+        metadata: { ...metadata, proxy: result.proxy, analyzed_at: result.analyzed_at } as unknown as Prisma.InputJsonValue,
+        analysisMode: record.mode,
+        status: 'COMPLETED',
+        processingTimeMs: processing_time_ms,
+      },
+    });
+
+    return this.toRecord(row);
+  }
+
+  async findById(id: string): Promise<AnalysisRecord | null> {
+    const row = await prisma.analysis.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async list(query: AnalysisListQuery): Promise<AnalysisPage> {
+    const where = {
+      userId: query.userId,
+      chain: query.chain,
+      classification: query.classification,
+      contractAddress: query.contractAddress,
+      createdAt: query.from || query.to ? { gte: query.from, lte: query.to } : undefined,
+    };
+
+    const [rows, total] = await prisma.$transaction([
+      prisma.analysis.findMany({
+        where,
+        orderBy: { [SORT_COLUMNS[query.sortBy]]: query.sortOrder },
+        skip: (query.page - 1) * query.limit,
+        take: query.limit,
+      }),
+      prisma.analysis.count({ where }),
+    ]);
+
+    return { items: rows.map(row => this.toRecord(row)), total };
+  }
+
+  /**
+   * Rebuild the API result from the stored columns
+   */
+  private toRecord(row: Analysis): AnalysisRecord {
+    const { proxy, analyzed_at, ...metadata } = (row.metadata || {}) as unknown as StoredMetadata;
+
+    const result: CompleteAnalysisResult = {
+      id: row.id,
+      risk_score: row.overallScore,
+      unmitigated_risk_score: row.unmitigatedScore ?? row.overallScore,
+      mitigation_discount: Math.round(((row.unmitigatedScore ?? row.overallScore) - row.overallScore) * 10) / 10,
+      classification: row.classification as RiskClassification,
+      confidence: row.confidence,
+      risks: row.findings as unknown as AnalyzedRisk[],
+      beginner_summary: row.summary,
+      developer_summary: row.developerSummary || '',
+      proxy: proxy || undefined,
+      metadata: {
+        ...metadata,
+        chain: row.chain,
+        processing_time_ms: row.processingTimeMs ?? 0,
+      },
+      cached: false,
+      analyzed_at: analyzed_at || row.createdAt.toISOString(),
+    };
+
+    return {
+      id: row.id,
+      userId: row.userId || undefined,
+      contractAddress: row.contractAddress || undefined,
+      chain: row.chain,
+      sourceHash: row.sourceHash || '',
+      contractCode: row.contractCode || undefined,
+      mode: row.analysisMode,
+      result,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private countBySeverity(risks: AnalyzedRisk[]): Record<Severity, number> {
+    const counts = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 } as Record<Severity, number>;
+    for (const risk of risks) {
+      counts[risk.severity]++;
+    }
+    return counts;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Prisma API Key Repository
+ * Stores API keys in the PostgreSQL `ApiKey` table
+ */
+
+import { ApiKey } from '@prisma/client';
+import prisma from '../services/database/prisma-client';
+import { ApiKeyChanges, ApiKeyRecord, ApiKeyRepository, ApiKeyScope, NewApiKeyRecord } from './api-key.repository';
+
+export class PrismaApiKeyRepository implements ApiKeyRepository {
+  async create(key: NewApiKeyRecord): Promise<ApiKeyRecord> {
+    const row = await prisma.apiKey.create({ data: key });
+    return this.toRecord(row);
+  }
+
+  async findById(id: string): Promise<ApiKeyRecord | null> {
+    const row = await prisma.apiKey.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const row = await prisma.apiKey.findUnique({ where: { keyHash } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async listByUser(userId: string): Promise<ApiKeyRecord[]> {
+    const rows = await prisma.apiKey.findMany({ where: { userId }, orderBy: { createdAt: 'desc' } });
+    return rows.map(row => this.toRecord(row));
+  }
+
+  async update(id: string, changes: ApiKeyChanges): Promise<ApiKeyRecord> {
+    const row = await prisma.apiKey.update({ where: { id }, data: changes });
+    return this.toRecord(row);
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.apiKey.delete({ where: { id } });
+  }
+
+  private toRecord(row: ApiKey): ApiKeyRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      keyHash: row.keyHash,
+      prefix: row.prefix,
+      scopes: row.scopes as ApiKeyScope[],
+      lastUsedAt: row.lastUsedAt || undefined,
+      expiresAt: row.expiresAt || undefined,
+      createdAt: row.createdAt,
+    };
+  }
+}
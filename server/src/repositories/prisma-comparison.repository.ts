@@ -0,0 +1,67 @@
+/**
+ * Prisma Comparison Repository
+ * Stores comparisons in the PostgreSQL `Comparison` table
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from '../services/database/prisma-client';
+import { ComparisonRepository } from './comparison.repository';
+import { ComparedAnalysis, ComparisonDifferences, ComparisonResult } from '../types/comparison.types';
+import { RiskClassification } from '../types/risk.types';
+
+const analysisColumns = {
+  id: true,
+  contractAddress: true,
+  chain: true,
+  overallScore: true,
+  classification: true,
+} satisfies Prisma.AnalysisSelect;
+
+const withAnalyses = {
+  analysisA: { select: analysisColumns },
+  analysisB: { select: analysisColumns },
+} satisfies Prisma.ComparisonInclude;
+
+type ComparisonRow = Prisma.ComparisonGetPayload<{ include: typeof withAnalyses }>;
+
+export class PrismaComparisonRepository implements ComparisonRepository {
+  async create(comparison: Omit<ComparisonResult, 'created_at'>): Promise<ComparisonResult> {
+    const row = await prisma.comparison.create({
+      data: {
+        id: comparison.id,
+        analysisAId: comparison.analysis_a.id,
+        analysisBId: comparison.analysis_b.id,
+        differences: comparison.differences as unknown as Prisma.InputJsonValue,
+      },
+      include: withAnalyses,
+    });
+
+    return this.toResult(row);
+  }
+
+  async findById(id: string): Promise<ComparisonResult | null> {
+    const row = await prisma.comparison.findUnique({
+      where: { id },
+      include: withAnalyses,
+    });
+    return row ? this.toResult(row) : null;
+  }
+
+  private toResult(row: ComparisonRow): ComparisonResult {
+    const toAnalysis = (analysis: ComparisonRow['analysisA']): ComparedAnalysis => ({
+      id: analysis.id,
+      contract_address: analysis.contractAddress || undefined,
+      chain: analysis.chain,
+      risk_score: analysis.overallScore,
+      classification: analysis.classification as RiskClassification,
+    });
+
+    return {
+      id: row.id,
+      analysis_a: toAnalysis(row.analysisA),
+      analysis_b: toAnalysis(row.analysisB),
+      differences: row.differences as unknown as ComparisonDifferences,
+      created_at: row.createdAt.toISOString(),
+    };
+  }
+}
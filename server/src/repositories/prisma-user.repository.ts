@@ -0,0 +1,48 @@
+/**
+ * Prisma User Repository
+ * Stores accounts in the PostgreSQL `User` table
+ */
+
+import { User } from '@prisma/client';
+import prisma from '../services/database/prisma-client';
+import { NewUserRecord, UserChanges, UserRecord, UserRepository, UserTier } from './user.repository';
+
+export class PrismaUserRepository implements UserRepository {
+  async create(user: NewUserRecord): Promise<UserRecord> {
+    const row = await prisma.user.create({
+      data: {
+        email: user.email,
+        password: user.passwordHash,
+        name: user.name,
+      },
+    });
+    return this.toRecord(row);
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const row = await prisma.user.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const row = await prisma.user.findUnique({ where: { email } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async update(id: string, changes: UserChanges): Promise<UserRecord> {
+    const row = await prisma.user.update({ where: { id }, data: changes });
+    return this.toRecord(row);
+  }
+
+  private toRecord(row: User): UserRecord {
+    return {
+      id: row.id,
+      email: row.email,
+      passwordHash: row.password,
+      name: row.name || undefined,
+      tier: row.tier as UserTier,
+      createdAt: row.createdAt,
+      lastLoginAt: row.lastLoginAt || undefined,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * User Repository
+ * Storage contract for user accounts
+ */
+
+export type UserTier = 'FREE' | 'PRO' | 'ENTERPRISE';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  // bcrypt hash
+  passwordHash: string;
+  name?: string;
+  tier: UserTier;
+  createdAt: Date;
+  lastLoginAt?: Date;
+}
+
+export type NewUserRecord = Pick<UserRecord, 'email' | 'passwordHash' | 'name'>;
+
+// Fields that can change after registration
+export interface UserChanges {
+  lastLoginAt?: Date;
+  tier?: UserTier;
+}
+
+export interface UserRepository {
+  create(user: NewUserRecord): Promise<UserRecord>;
+  findById(id: string): Promise<UserRecord | null>;
+  findByEmail(email: string): Promise<UserRecord | null>;
+  update(id: string, changes: UserChanges): Promise<UserRecord>;
+}
@@ -4,24 +4,93 @@
  */
 
 import { Router } from 'express';
-import { AnalyzeController } from '../controllers/analyze.controller';
-import { HealthController } from '../controllers/health.controller';
-import { ValidatorMiddleware } from '../middleware/validator';
-import { rateLimiter } from '../middleware/rateLimiter';
+import { AnalyzeController } from '../../controllers/analyze.controller';
+import { HealthController } from '../../controllers/health.controller';
+import { DetectorsController } from '../../controllers/detectors.controller';
+import { AnalysesController } from '../../controllers/analyses.controller';
+import { CompareController } from '../../controllers/compare.controller';
+import { AuthController } from '../../controllers/auth.controller';
+import { authenticate, optionalAuthenticate, requireScope, requireTier } from '../../middleware/auth';
+import { ValidatorMiddleware } from '../../middleware/validator';
+import { rateLimiter } from '../../middleware/rateLimiter';
 import {
   analyzeRequestSchema,
-  paginationSchema,
-} from '../utils/validation-schemas';
+  batchAnalyzeRequestSchema,
+  analysisHistorySchema,
+  compareRequestSchema,
+  createApiKeySchema,
+  diffRequestSchema,
+  loginSchema,
+  refreshTokenSchema,
+  registerSchema,
+} from '../../utils/validation-schemas';
 
 const router = Router();
 
 // Health routes (no rate limiting)
 router.get('/health', HealthController.check);
 router.get('/chains', HealthController.getChains);
+router.get('/detectors', DetectorsController.list);
 
-// Analysis routes (with rate limiting)
+// Auth routes
+router.post(
+  '/auth/register',
+  rateLimiter,
+  ValidatorMiddleware.body(registerSchema),
+  AuthController.register
+);
+
+router.post(
+  '/auth/login',
+  rateLimiter,
+  ValidatorMiddleware.body(loginSchema),
+  AuthController.login
+);
+
+router.post(
+  '/auth/refresh',
+  rateLimiter,
+  ValidatorMiddleware.body(refreshTokenSchema),
+  AuthController.refresh
+);
+
+router.get('/auth/me', authenticate, AuthController.me);
+
+// API key management (ENTERPRISE; API keys need the admin scope)
+router.get(
+  '/auth/api-keys',
+  authenticate,
+  requireScope('admin'),
+  AuthController.listApiKeys
+);
+
+router.post(
+  '/auth/api-keys',
+  authenticate,
+  requireScope('admin'),
+  ValidatorMiddleware.body(createApiKeySchema),
+  AuthController.createApiKey
+);
+
+router.post(
+  '/auth/api-keys/:id/rotate',
+  authenticate,
+  requireScope('admin'),
+  AuthController.rotateApiKey
+);
+
+router.delete(
+  '/auth/api-keys/:id',
+  authenticate,
+  requireScope('admin'),
+  AuthController.revokeApiKey
+);
+
+// Analysis routes (rate limited by the caller's tier when signed in; API keys need the analyze scope)
 router.post(
   '/analyze',
+  optionalAuthenticate,
+  requireScope('analyze'),
   rateLimiter,
   ValidatorMiddleware.body(analyzeRequestSchema),
   AnalyzeController.analyze
@@ -29,14 +98,74 @@ router.post(
 
 router.post(
   '/analyze/quick-check',
+  optionalAuthenticate,
+  requireScope('analyze'),
   rateLimiter,
   AnalyzeController.quickCheck
 );
 
+// Batch analysis (PRO and ENTERPRISE)
+router.post(
+  '/analyze/batch',
+  authenticate,
+  requireScope('batch'),
+  requireTier('PRO'),
+  rateLimiter,
+  ValidatorMiddleware.body(batchAnalyzeRequestSchema),
+  AnalyzeController.batch
+);
+
 router.get(
   '/analyze/:id',
+  optionalAuthenticate,
+  requireScope('analyze'),
   rateLimiter,
   AnalyzeController.getAnalysis
 );
 
+router.get(
+  '/analyze/:id/events',
+  optionalAuthenticate,
+  requireScope('analyze'),
+  rateLimiter,
+  AnalyzeController.streamEvents
+);
+
+// Analysis history (authenticated)
+router.get(
+  '/analyses',
+  authenticate,
+  requireScope('history'),
+  rateLimiter,
+  ValidatorMiddleware.query(analysisHistorySchema),
+  AnalysesController.list
+);
+
+// Comparison routes
+router.post(
+  '/compare',
+  optionalAuthenticate,
+  requireScope('analyze'),
+  rateLimiter,
+  ValidatorMiddleware.body(compareRequestSchema),
+  CompareController.compare
+);
+
+router.get(
+  '/compare/:id',
+  optionalAuthenticate,
+  requireScope('analyze'),
+  rateLimiter,
+  CompareController.getComparison
+);
+
+router.post(
+  '/diff',
+  optionalAuthenticate,
+  requireScope('analyze'),
+  rateLimiter,
+  ValidatorMiddleware.body(diffRequestSchema),
+  CompareController.diff
+);
+
 export default router;
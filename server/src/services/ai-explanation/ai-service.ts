@@ -8,6 +8,10 @@
  * 4. All outputs are strictly validated
  */
 
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+import config from '../../config';
+import { ExplanationStreamParser } from './explanation-stream-parser';
 import { 
   AIExplanationInput, 
   AIExplanationOutput, 
@@ -15,23 +19,56 @@ import {
   RiskExplanation 
 } from '../../types/risk.types';
 
+const AI_TIMEOUT_MS = 60000;
+
+export interface ExplanationListener {
+  // Raw response text as it arrives from the provider
+  onText?: (chunk: string) => void;
+  // Explanation of the risk at `index`, as soon as it is complete; called again if it is replaced
+  onExplanation?: (index: number, explanation: RiskExplanation) => void;
+}
+
 export class AIExplanationService {
   /**
    * Generate human-readable explanations for detected risks
    * Uses Claude/GPT with strict prompt engineering
    */
   static async generateExplanations(
-    input: AIExplanationInput
+    input: AIExplanationInput,
+    listener: ExplanationListener = {}
   ): Promise<AIExplanationOutput> {
     // Build safe prompt (no code injection possible)
     const prompt = this.buildPrompt(input);
 
+    // Report each risk explanation as soon as the stream completes it
+    const parser = new ExplanationStreamParser();
+    const reported = new Map<number, string>();
+    const report = (index: number, explanation: RiskExplanation) => {
+      reported.set(index, JSON.stringify(explanation));
+      listener.onExplanation?.(index, explanation);
+    };
+
     // Call AI service (Claude Sonnet / GPT-4)
-    const aiResponse = await this.callAIService(prompt);
+    const aiResponse = await this.callAIService(prompt, chunk => {
+      listener.onText?.(chunk);
+      for (const { index, entry } of parser.push(chunk)) {
+        const risk = input.risks[index];
+        if (risk && this.isValidExplanation(entry, risk.type)) {
+          report(index, entry);
+        }
+      }
+    });
 
     // Validate and parse response
     const validated = this.validateAndParse(aiResponse, input);
 
+    // Report explanations the stream did not, and those replaced by validation
+    validated.risk_explanations.forEach((explanation, index) => {
+      if (reported.get(index) !== JSON.stringify(explanation)) {
+        report(index, explanation);
+      }
+    });
+
     return validated;
   }
 
@@ -92,28 +129,52 @@ Generate the explanation now (JSON only, no markdown):`;
   }
 
   /**
-   * Call AI service (Claude Sonnet or GPT-4)
+   * Call the configured OpenAI-compatible chat completions API, streaming the response
+   * @param onText Receives each text delta as it arrives
    */
-  private static async callAIService(prompt: string): Promise<string> {
-    // Mock implementation - replace with actual AI service call
-    // This would use Anthropic Claude API or OpenAI GPT-4 API
-    
-    // For hackathon/demo, you can use the existing RunAnywhere setup
-    // or integrate with Anthropic/OpenAI APIs
-    
-    // Example with Anthropic Claude:
-    /*
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-5",
-      max_tokens: 2000,
-      messages: [{ role: "user", content: prompt }]
-    });
-    return response.content[0].text;
-    */
+  private static async callAIService(prompt: string, onText: (chunk: string) => void): Promise<string> {
+    if (!config.openaiApiKey) {
+      throw new Error('AI service not configured. Set up Claude or GPT-4 API.');
+    }
 
-    // For now, return a placeholder
-    // In production, this MUST be replaced with actual AI service
-    throw new Error('AI service not configured. Set up Claude or GPT-4 API.');
+    const response = await axios.post(
+      config.aiApiUrl,
+      {
+        model: config.aiModel,
+        max_tokens: config.aiMaxTokens,
+        temperature: config.aiTemperature,
+        stream: true,
+        messages: [{ role: 'user', content: prompt }],
+      },
+      {
+        headers: { Authorization: `Bearer ${config.openaiApiKey}` },
+        responseType: 'stream',
+        timeout: AI_TIMEOUT_MS,
+      }
+    );
+
+    // Server-sent events: a `data: {...}` line per text delta, ending with `data: [DONE]`
+    const decoder = new StringDecoder('utf8');
+    let text = '';
+    let pending = '';
+    for await (const chunk of response.data as AsyncIterable<Buffer>) {
+      const lines = (pending + decoder.write(chunk)).split('\n');
+      pending = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+        if (!data || data === '[DONE]') {
+          continue;
+        }
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (typeof delta === 'string' && delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+    }
+
+    return text;
   }
 
   /**
@@ -178,10 +239,27 @@ Generate the explanation now (JSON only, no markdown):`;
 
     // Validate each explanation
     for (const explanation of parsed.risk_explanations) {
-      if (!explanation.type || !explanation.beginner || !explanation.developer ||
-          !explanation.why_it_matters || !explanation.mitigation) {
-        throw new Error('Invalid explanation structure');
-      }
+      this.validateExplanationStructure(explanation);
+    }
+  }
+
+  private static validateExplanationStructure(explanation: any): void {
+    if (!explanation || !explanation.type || !explanation.beginner || !explanation.developer ||
+        !explanation.why_it_matters || !explanation.mitigation) {
+      throw new Error('Invalid explanation structure');
+    }
+  }
+
+  /**
+   * Check a single streamed explanation before it is reported
+   */
+  private static isValidExplanation(explanation: any, type: RiskType): explanation is RiskExplanation {
+    try {
+      this.validateExplanationStructure(explanation);
+      this.validateExplanationLengths(explanation);
+      return explanation.type === type;
+    } catch {
+      return false;
     }
   }
 
@@ -198,18 +276,22 @@ Generate the explanation now (JSON only, no markdown):`;
     }
 
     for (const explanation of parsed.risk_explanations) {
-      if (explanation.beginner.length > 300) {
-        throw new Error('Beginner explanation too long');
-      }
-      if (explanation.developer.length > 400) {
-        throw new Error('Developer explanation too long');
-      }
-      if (explanation.why_it_matters.length > 200) {
-        throw new Error('Why it matters too long');
-      }
-      if (explanation.mitigation.length > 300) {
-        throw new Error('Mitigation too long');
-      }
+      this.validateExplanationLengths(explanation);
+    }
+  }
+
+  private static validateExplanationLengths(explanation: any): void {
+    if (explanation.beginner.length > 300) {
+      throw new Error('Beginner explanation too long');
+    }
+    if (explanation.developer.length > 400) {
+      throw new Error('Developer explanation too long');
+    }
+    if (explanation.why_it_matters.length > 200) {
+      throw new Error('Why it matters too long');
+    }
+    if (explanation.mitigation.length > 300) {
+      throw new Error('Mitigation too long');
     }
   }
 
@@ -233,7 +315,7 @@ Generate the explanation now (JSON only, no markdown):`;
   /**
    * Generate fallback explanations if AI fails
    */
-  private static generateFallbackExplanations(
+  static generateFallbackExplanations(
     input: AIExplanationInput
   ): AIExplanationOutput {
     const riskCount = input.risks.length;
@@ -277,6 +359,9 @@ Generate the explanation now (JSON only, no markdown):`;
       [RiskType.BLACKLIST_MODIFICATION]: 'The owner can blacklist addresses from interacting.',
       [RiskType.MAX_TX_LIMIT]: 'Transaction limits can be modified by the owner.',
       [RiskType.WHITELIST_MODIFICATION]: 'The owner controls who can interact with the contract.',
+      [RiskType.HONEYPOT]: 'You may be able to buy this token but not sell it.',
+      [RiskType.REENTRANCY]: 'An attacker may be able to call back into the contract and withdraw funds repeatedly.',
+      [RiskType.UNPROTECTED_PRIVILEGED_FUNCTION]: 'Anyone can call a function that changes critical settings or moves funds.',
     };
     return defaults[type] || 'A security concern was detected.';
   }
@@ -0,0 +1,83 @@
+/**
+ * Explanation Stream Parser
+ * Picks complete `risk_explanations` entries out of an AI response while it is still arriving
+ */
+
+export interface StreamedEntry {
+  // Position in the risk_explanations array
+  index: number;
+  // Parsed entry; null when the entry is not valid JSON
+  entry: unknown;
+}
+
+const ARRAY_START = /"risk_explanations"\s*:\s*\[/;
+
+export class ExplanationStreamParser {
+  private text = '';
+  // Scan position inside the array; -1 until the array has started
+  private position = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private entryStart = 0;
+  private entryCount = 0;
+  private finished = false;
+
+  /**
+   * Add a chunk of the response, returning the entries it completed
+   */
+  push(chunk: string): StreamedEntry[] {
+    this.text += chunk;
+    const entries: StreamedEntry[] = [];
+
+    if (this.position === -1) {
+      const match = ARRAY_START.exec(this.text);
+      if (!match) {
+        return entries;
+      }
+      this.position = match.index + match[0].length;
+    }
+
+    for (; !this.finished && this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0) {
+          this.entryStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) {
+          // End of the array
+          this.finished = true;
+        } else if (--this.depth === 0) {
+          const entry = this.parse(this.text.slice(this.entryStart, this.position + 1));
+          entries.push({ index: this.entryCount++, entry });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  private parse(json: string): unknown {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Analysis Pipeline Service
+ * Runs a complete analysis: contract loading, risk detection, on-chain state,
+ * AI explanations, caching and persistence
+ */
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DetectionListener, RiskEngineService } from './risk-detection/risk-engine.service';
+import { SolidityParseError } from './risk-detection/ast-parser.service';
+import { VirtualFileSystem } from './risk-detection/virtual-file-system';
+import { BytecodeAnalyzerService } from './risk-detection/bytecode/bytecode-analyzer.service';
+import { AbiAnalyzerService, AbiItem } from './risk-detection/abi/abi-analyzer.service';
+import { ScoringAlgorithmService } from './risk-detection/scoring-algorithm.service';
+import { AIExplanationService } from './ai-explanation/ai-service';
+import { EtherscanService } from './etherscan.service';
+import { RpcService } from './rpc.service';
+import { ProxyResolverService } from './proxy-resolver.service';
+import { OnChainStateService } from './onchain-state.service';
+import cacheService from './caching/redis.service';
+import { CacheKeys } from './caching/cache-keys';
+import { getAnalysisRepository, ExplanationMode } from '../repositories';
+import { ApiError } from '../utils/ApiError';
+import {
+  AIExplanationOutput,
+  AnalyzedRisk,
+  CompleteAnalysisResult,
+  OnChainState,
+  ProxyAnalysisSummary,
+  ProxyInfo,
+  RiskDetectionResult,
+  RiskExplanation,
+  RiskFinding,
+} from '../types/risk.types';
+import { AnalysisEvent, AnalysisStage, STAGE_PROGRESS } from '../types/job.types';
+
+export interface AnalysisRequest {
+  // Contract address, Solidity source, runtime bytecode or JSON ABI
+  input: string;
+  chain: string;
+  mode: ExplanationMode;
+  userId?: string;
+  // Id for the stored analysis; generated when omitted
+  id?: string;
+  // Fail with 503 when the analysis cannot be stored, for callers that reference it by id
+  requirePersistence?: boolean;
+  // Use the template explanations instead of calling the AI; such results are not cached
+  skipExplanations?: boolean;
+}
+
+export type AnalysisListener = (event: AnalysisEvent) => void;
+
+// Contract input in whichever forms are available
+interface LoadedContract {
+  sourceCode: string;
+  sources?: VirtualFileSystem;
+  bytecode?: string;
+  abi: AbiItem[] | null;
+  isVerified: boolean;
+  compilerVersion?: string;
+  // Implementation reported by the explorer for proxies
+  implementation?: string;
+}
+
+// Cached detection and explanation work, shared by every request for the same contract
+interface CachedAnalysis {
+  result: CompleteAnalysisResult;
+  // SHA-256 of the analyzed input
+  sourceHash: string;
+}
+
+export class AnalysisPipelineService {
+  /**
+   * Analyze a contract, reusing a cached result (`cached: true`) when available.
+   * Every analysis, cached or not, is persisted under `request.id` for the requesting user.
+   * Progress, findings and explanations are reported to onEvent as they become available
+   */
+  static async run(request: AnalysisRequest, onEvent: AnalysisListener = () => {}): Promise<CompleteAnalysisResult> {
+    const startTime = Date.now();
+    const { input, chain } = request;
+    const onProgress = (stage: AnalysisStage) => onEvent({ type: 'stage', stage, progress: STAGE_PROGRESS[stage] });
+
+    // 1. Determine if input is address or source code
+    const isAddress = EtherscanService.isValidAddress(input);
+
+    let contract: LoadedContract;
+    let contractAddress: string | undefined;
+    let proxyInfo: ProxyInfo | null = null;
+    let implementation: LoadedContract | undefined;
+
+    if (isAddress) {
+      contractAddress = input.toLowerCase();
+
+      // Check cache for analysis result
+      const cached = await cacheService.get<CachedAnalysis>(CacheKeys.analysisResult(contractAddress, chain));
+      if (cached?.result) {
+        return this.fromCache(request, cached, startTime, onProgress);
+      }
+
+      onProgress('FETCHING_SOURCE');
+      contract = await this.loadContract(contractAddress, chain);
+
+      // Follow proxies to the contract holding the actual logic
+      proxyInfo = await ProxyResolverService.resolve(contractAddress, chain, contract.implementation);
+      if (proxyInfo) {
+        try {
+          implementation = await this.loadContract(proxyInfo.implementation_address, chain);
+        } catch (error) {
+          console.warn(
+            `Implementation ${proxyInfo.implementation_address} could not be loaded, analyzing proxy only:`,
+            error instanceof Error ? error.message : error
+          );
+          proxyInfo = null;
+        }
+      }
+    } else {
+      // Direct source code, runtime bytecode or JSON ABI input
+      const abi = AbiAnalyzerService.parse(input);
+      contract = { sourceCode: input, abi, isVerified: false };
+      if (BytecodeAnalyzerService.isBytecode(input)) {
+        contract.bytecode = input.trim();
+      } else if (!abi) {
+        contract.sources = VirtualFileSystem.fromSource(input);
+      }
+
+      // Check cache by code hash
+      const cached = await cacheService.get<CachedAnalysis>(CacheKeys.codeAnalysis(CacheKeys.hashCode(input)));
+      if (cached?.result) {
+        return this.fromCache(request, cached, startTime, onProgress);
+      }
+    }
+
+    // 2. Validate contract size
+    for (const loaded of implementation ? [contract, implementation] : [contract]) {
+      RiskEngineService.validateSize(loaded.sources ? loaded.sources.combinedSource() : loaded.sourceCode);
+    }
+
+    // 3. Run deterministic risk detection
+    console.log('Starting risk detection...');
+    const contractResult = await this.detect(contract, onEvent, implementation ? 'PROXY' : undefined);
+    let detectionResult = contractResult;
+    let proxySummary: ProxyAnalysisSummary | undefined;
+
+    if (proxyInfo && implementation) {
+      const implementationResult = await this.detect(implementation, onEvent, 'IMPLEMENTATION');
+      detectionResult = ScoringAlgorithmService.combine(contractResult, implementationResult);
+      proxySummary = {
+        ...proxyInfo,
+        proxy_risk_score: contractResult.risk_score,
+        implementation_risk_score: implementationResult.risk_score,
+        implementation_verified: implementation.isVerified,
+        implementation_analysis_mode: implementationResult.metadata.analysis_mode,
+      };
+    }
+    console.log(`Risk detection complete: ${detectionResult.findings.length} risks found`);
+
+    // Adjust to live state (renounced ownership, multisig owner, paused, ...)
+    let onchainState: OnChainState | undefined;
+    if (contractAddress && RpcService.isConfigured(chain)) {
+      onProgress('READING_CHAIN_STATE');
+      try {
+        onchainState = await OnChainStateService.read(contractAddress, chain);
+        detectionResult = OnChainStateService.apply(detectionResult, onchainState);
+      } catch (error) {
+        console.warn('On-chain state unavailable:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    onEvent({
+      type: 'scored',
+      risk_score: detectionResult.risk_score,
+      unmitigated_risk_score: detectionResult.unmitigated_risk_score,
+      classification: detectionResult.classification,
+      confidence: Math.round(detectionResult.confidence * 100),
+      findings: detectionResult.findings,
+    });
+
+    // 4. Generate AI explanations
+    onProgress('EXPLAINING');
+    console.log('Generating AI explanations...');
+    const findings = detectionResult.findings;
+    const onExplanation = (index: number, explanation: RiskExplanation) => onEvent({
+      type: 'explanation',
+      index,
+      risk_type: findings[index].type,
+      beginner_explanation: explanation.beginner,
+      developer_explanation: explanation.developer,
+      why_it_matters: explanation.why_it_matters,
+      mitigation: explanation.mitigation,
+    });
+
+    const explanationInput = {
+      risk_score: detectionResult.risk_score,
+      risks: findings,
+      confidence: detectionResult.confidence,
+    };
+    let explanations: AIExplanationOutput;
+    if (request.skipExplanations) {
+      explanations = AIExplanationService.generateFallbackExplanations(explanationInput);
+      explanations.risk_explanations.forEach((explanation, index) => onExplanation(index, explanation));
+    } else {
+      try {
+        explanations = await AIExplanationService.generateExplanations(
+          explanationInput,
+          { onText: text => onEvent({ type: 'explanation_text', text }), onExplanation }
+        );
+      } catch (error) {
+        console.error('AI explanation failed, using fallback:', error);
+        // Use fallback if AI fails
+        explanations = AIExplanationService.generateFallbackExplanations(explanationInput);
+        explanations.risk_explanations.forEach((explanation, index) => onExplanation(index, explanation));
+      }
+    }
+
+    // 5. Build complete result
+    const analysisId = request.id || uuidv4();
+    const processingTime = Date.now() - startTime;
+
+    const risks = detectionResult.findings.map((finding: RiskFinding, index: number): AnalyzedRisk => ({
+      type: finding.type,
+      severity: finding.severity,
+      weight: finding.weight,
+      adjusted_weight: finding.adjusted_weight,
+      mitigations: finding.mitigations,
+      code_snippet: finding.code_snippet,
+      line_number: finding.line_number,
+      bytecode_offset: finding.bytecode_offset,
+      source: finding.source || 'SOURCE',
+      contract_role: finding.contract_role,
+      related_line_number: finding.related_line_number,
+      file_path: finding.file_path,
+      contract_name: finding.contract_name,
+      machine_reason: finding.machine_reason,
+      function_name: finding.function_name,
+      modifier_name: finding.modifier_name,
+      beginner_explanation: explanations.risk_explanations[index]?.beginner || 'Explanation unavailable',
+      developer_explanation: explanations.risk_explanations[index]?.developer || finding.machine_reason,
+      why_it_matters: explanations.risk_explanations[index]?.why_it_matters || 'This may affect contract safety',
+      mitigation: explanations.risk_explanations[index]?.mitigation || 'Review this pattern carefully',
+    }));
+
+    const metadata = contract.sources && contractResult.metadata.analysis_mode === 'SOURCE'
+      ? RiskEngineService.getContractMetadata(contract.sources)
+      : undefined;
+
+    const result: CompleteAnalysisResult = {
+      id: analysisId,
+      risk_score: detectionResult.risk_score,
+      unmitigated_risk_score: detectionResult.unmitigated_risk_score,
+      mitigation_discount: detectionResult.mitigation_discount,
+      classification: detectionResult.classification,
+      confidence: Math.round(detectionResult.confidence * 100),
+      risks,
+      beginner_summary: explanations.beginner_summary,
+      developer_summary: explanations.developer_summary,
+      proxy: proxySummary,
+      metadata: {
+        contract_address: contractAddress,
+        chain,
+        is_verified: contract.isVerified,
+        compiler_version: contract.compilerVersion || metadata?.compiler_version || undefined,
+        lines_of_code: metadata ? metadata.lines_of_code : 0,
+        total_functions: metadata ? metadata.total_functions : detectionResult.metadata.total_functions,
+        source_files: metadata?.files,
+        analysis_mode: detectionResult.metadata.analysis_mode,
+        function_selectors: detectionResult.metadata.function_selectors,
+        function_signatures: detectionResult.metadata.function_signatures,
+        onchain_state: onchainState,
+        processing_time_ms: processingTime,
+      },
+      cached: false,
+      analyzed_at: new Date().toISOString(),
+    };
+
+    // 6. Cache result (unless template explanations would be served to later requests)
+    onProgress('SAVING');
+    const sourceHash = crypto.createHash('sha256').update(contract.sourceCode).digest('hex');
+    if (!request.skipExplanations) {
+      const cacheKey = contractAddress
+        ? CacheKeys.analysisResult(contractAddress, chain)
+        : CacheKeys.codeAnalysis(CacheKeys.hashCode(contract.sourceCode));
+      const entry: CachedAnalysis = { result, sourceHash };
+      await cacheService.set(cacheKey, entry, 3600); // 1 hour
+    }
+
+    // 7. Persist
+    await this.persist(request, result, sourceHash);
+
+    onProgress('DONE');
+    return result;
+  }
+
+  /**
+   * Serve a cached analysis as a new one of the requesting user
+   */
+  private static async fromCache(
+    request: AnalysisRequest,
+    cached: CachedAnalysis,
+    startTime: number,
+    onProgress: (stage: AnalysisStage) => void
+  ): Promise<CompleteAnalysisResult> {
+    onProgress('SAVING');
+    const result: CompleteAnalysisResult = {
+      ...cached.result,
+      id: request.id || uuidv4(),
+      metadata: { ...cached.result.metadata, processing_time_ms: Date.now() - startTime },
+      cached: true,
+    };
+
+    await this.persist(request, result, cached.sourceHash);
+
+    onProgress('DONE');
+    return result;
+  }
+
+  /**
+   * Store the analysis; a storage outage fails the analysis only when the caller requires the stored record
+   */
+  private static async persist(
+    request: AnalysisRequest,
+    result: CompleteAnalysisResult,
+    sourceHash: string
+  ): Promise<void> {
+    const contractAddress = result.metadata.contract_address;
+    try {
+      await getAnalysisRepository().create({
+        id: result.id,
+        userId: request.userId,
+        contractAddress,
+        chain: request.chain,
+        sourceHash,
+        contractCode: contractAddress ? undefined : request.input,
+        mode: request.mode,
+        result,
+      });
+    } catch (error) {
+      console.error('Failed to persist analysis:', error instanceof Error ? error.message : error);
+      if (request.requirePersistence) {
+        throw new ApiError(503, 'STORAGE_UNAVAILABLE', 'Analysis could not be stored, please retry later');
+      }
+    }
+  }
+
+  /**
+   * Fetch verified source from the explorer, falling back to deployed bytecode
+   */
+  private static async loadContract(address: string, chain: string): Promise<LoadedContract> {
+    try {
+      const contractData = await EtherscanService.fetchContractSource(address, chain);
+
+      // Cache source code
+      const sourceCacheKey = CacheKeys.contractSource(address, chain);
+      await cacheService.set(sourceCacheKey, contractData, 86400); // 24 hours
+
+      return {
+        sourceCode: contractData.sourceCode,
+        sources: new VirtualFileSystem(
+          contractData.sources.files,
+          contractData.sources.mainFile,
+          contractData.sources.remappings
+        ),
+        abi: Array.isArray(contractData.abi) ? contractData.abi : null,
+        isVerified: contractData.isVerified,
+        compilerVersion: contractData.compilerVersion,
+        implementation: contractData.implementation,
+      };
+    } catch (error) {
+      // Unverified (or unavailable) source: fall back to the deployed bytecode
+      if (!RpcService.isConfigured(chain)) {
+        throw new ApiError(
+          400,
+          'CONTRACT_FETCH_FAILED',
+          `Failed to fetch contract from ${chain}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+
+      const bytecode = await RpcService.getCode(address, chain);
+      if (!bytecode || bytecode === '0x') {
+        throw new ApiError(404, 'CONTRACT_NOT_FOUND', `No contract code at ${address} on ${chain}`);
+      }
+      return { sourceCode: bytecode, bytecode, abi: null, isVerified: false };
+    }
+  }
+
+  /**
+   * Run the analysis matching what is available: source (supplemented by the ABI), bytecode or ABI,
+   * reporting stages (once, for the proxy) and each finished detector
+   */
+  private static async detect(
+    contract: LoadedContract,
+    onEvent: AnalysisListener,
+    contractRole?: 'PROXY' | 'IMPLEMENTATION'
+  ): Promise<RiskDetectionResult> {
+    const onProgress = (stage: AnalysisStage) => {
+      if (contractRole !== 'IMPLEMENTATION') {
+        onEvent({ type: 'stage', stage, progress: STAGE_PROGRESS[stage] });
+      }
+    };
+    const listener: DetectionListener = {
+      onParsed: () => onProgress('DETECTING'),
+      onDetectorFinished: (detector, findings) => onEvent({
+        type: 'detector',
+        detector_id: detector.id,
+        detector_name: detector.name,
+        contract_role: contractRole,
+        findings,
+      }),
+    };
+
+    if (contract.sources) {
+      onProgress('PARSING');
+      try {
+        const result = await RiskEngineService.analyze(contract.sources, listener);
+        // Privileged functions the source detectors did not flag still show up as ABI hints
+        return contract.abi ? AbiAnalyzerService.supplement(result, contract.abi) : result;
+      } catch (error) {
+        if (!(error instanceof SolidityParseError)) {
+          throw error;
+        }
+        // Fall back to the ABI pre-screen when the verified source cannot be parsed
+        if (!contract.abi) {
+          throw new ApiError(400, 'INVALID_CONTRACT', error.message, {
+            file_path: error.filePath,
+            line: error.line,
+            column: error.column,
+          });
+        }
+        console.warn(`Source parsing failed, using ABI pre-screen: ${error.message}`);
+        onProgress('DETECTING');
+        return AbiAnalyzerService.analyze(contract.abi);
+      }
+    }
+
+    onProgress('DETECTING');
+
+    if (contract.bytecode) {
+      try {
+        return BytecodeAnalyzerService.analyze(contract.bytecode);
+      } catch (error) {
+        throw new ApiError(400, 'INVALID_BYTECODE', error instanceof Error ? error.message : 'Invalid bytecode');
+      }
+    }
+
+    return AbiAnalyzerService.analyze(contract.abi as AbiItem[]);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * API Key Service
+ * Named, scoped API keys; keys are shown once and stored as SHA-256 hashes
+ */
+
+import crypto from 'crypto';
+import { getApiKeyRepository, getUserRepository, ApiKeyRecord, ApiKeyScope } from '../repositories';
+import { ApiError } from '../utils/ApiError';
+import { UserPayload } from '../types';
+
+const KEY_PREFIX = 'sk_live_';
+// Characters kept for display: the fixed prefix plus 4 of the random part
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 4;
+
+// Key metadata as returned by the API; never includes the hash
+export interface ApiKeyView {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export class ApiKeyService {
+  /**
+   * Issue a key; the returned `key` cannot be retrieved again
+   */
+  static async create(
+    userId: string,
+    name: string,
+    scopes: ApiKeyScope[],
+    expiresAt?: Date
+  ): Promise<ApiKeyView & { key: string }> {
+    const key = this.generate();
+    const record = await getApiKeyRepository().create({
+      userId,
+      name,
+      keyHash: this.hash(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes,
+      expiresAt,
+    });
+    return { ...this.toView(record), key };
+  }
+
+  static async list(userId: string): Promise<ApiKeyView[]> {
+    const keys = await getApiKeyRepository().listByUser(userId);
+    return keys.map(key => this.toView(key));
+  }
+
+  /**
+   * Replace a key's secret, keeping its name, scopes and expiry; the old key stops working immediately
+   */
+  static async rotate(userId: string, id: string): Promise<ApiKeyView & { key: string }> {
+    await this.getOwned(userId, id);
+
+    const key = this.generate();
+    const record = await getApiKeyRepository().update(id, {
+      keyHash: this.hash(key),
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    });
+    return { ...this.toView(record), key };
+  }
+
+  static async revoke(userId: string, id: string): Promise<void> {
+    await this.getOwned(userId, id);
+    await getApiKeyRepository().delete(id);
+  }
+
+  /**
+   * Owner and scopes of a presented key, or an error for unknown or expired keys
+   */
+  static async authenticate(key: string): Promise<{ user: UserPayload; apiKey: ApiKeyRecord }> {
+    const repository = getApiKeyRepository();
+    const apiKey = await repository.findByHash(this.hash(key));
+    if (!apiKey) {
+      throw new ApiError(401, 'INVALID_API_KEY', 'Invalid API key');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new ApiError(401, 'API_KEY_EXPIRED', 'API key has expired');
+    }
+
+    const user = await getUserRepository().findById(apiKey.userId);
+    if (!user) {
+      throw new ApiError(401, 'INVALID_API_KEY', 'Invalid API key');
+    }
+
+    // Usage tracking must not delay or fail the request
+    repository.update(apiKey.id, { lastUsedAt: new Date() }).catch(error =>
+      console.error(`Failed to record use of API key ${apiKey.id}:`, error instanceof Error ? error.message : error)
+    );
+
+    return { user: { id: user.id, email: user.email, tier: user.tier }, apiKey };
+  }
+
+  private static async getOwned(userId: string, id: string): Promise<ApiKeyRecord> {
+    const apiKey = await getApiKeyRepository().findById(id);
+    // Other users' keys are reported as missing
+    if (!apiKey || apiKey.userId !== userId) {
+      throw new ApiError(404, 'API_KEY_NOT_FOUND', 'API key not found');
+    }
+    return apiKey;
+  }
+
+  private static generate(): string {
+    return `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private static hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private static toView(record: ApiKeyRecord): ApiKeyView {
+    return {
+      id: record.id,
+      name: record.name,
+      prefix: record.prefix,
+      scopes: record.scopes,
+      lastUsedAt: record.lastUsedAt ? record.lastUsedAt.toISOString() : null,
+      expiresAt: record.expiresAt ? record.expiresAt.toISOString() : null,
+      createdAt: record.createdAt.toISOString(),
+    };
+  }
+}
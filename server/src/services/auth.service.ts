@@ -0,0 +1,132 @@
+/**
+ * Auth Service
+ * Accounts, password checks and JWT access/refresh tokens
+ */
+
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import config from '../config';
+import { getUserRepository, UserRecord } from '../repositories';
+import { ApiError } from '../utils/ApiError';
+import { UserPayload } from '../types';
+
+// Distinguishes the two token kinds, which share JWT_SECRET
+type TokenType = 'access' | 'refresh';
+
+interface TokenClaims {
+  id: string;
+  type: TokenType;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface AuthResult extends AuthTokens {
+  user: {
+    id: string;
+    email: string;
+    name?: string;
+    tier: UserRecord['tier'];
+  };
+}
+
+export class AuthService {
+  // Compared against for unknown emails so they take as long as a wrong password
+  private static dummyHash?: Promise<string>;
+
+  /**
+   * Create an account on the FREE tier
+   */
+  static async register(email: string, password: string, name?: string): Promise<AuthResult> {
+    const users = getUserRepository();
+    if (await users.findByEmail(email)) {
+      throw new ApiError(409, 'EMAIL_TAKEN', 'An account with this email already exists');
+    }
+
+    const passwordHash = await bcrypt.hash(password, config.bcryptRounds);
+    const user = await users.create({ email, passwordHash, name });
+    return this.authResult(user);
+  }
+
+  /**
+   * Check credentials and record the login
+   */
+  static async login(email: string, password: string): Promise<AuthResult> {
+    const users = getUserRepository();
+    const user = await users.findByEmail(email);
+
+    // Same error, and the same bcrypt work, for unknown emails and wrong passwords
+    this.dummyHash = this.dummyHash || bcrypt.hash('invalid-password', config.bcryptRounds);
+    const passwordHash = user ? user.passwordHash : await this.dummyHash;
+    const matches = await bcrypt.compare(password, passwordHash);
+    if (!user || !matches) {
+      throw new ApiError(401, 'INVALID_CREDENTIALS', 'Invalid email or password');
+    }
+
+    return this.authResult(await users.update(user.id, { lastLoginAt: new Date() }));
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair
+   */
+  static async refresh(refreshToken: string): Promise<AuthTokens> {
+    const claims = this.verify(refreshToken, 'refresh');
+    const user = await getUserRepository().findById(claims.id);
+    if (!user) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'User not found');
+    }
+    return this.issueTokens(user);
+  }
+
+  /**
+   * User behind an access token, or an error for invalid, expired or refresh tokens
+   */
+  static async authenticateToken(token: string): Promise<UserPayload> {
+    const claims = this.verify(token, 'access');
+    const user = await getUserRepository().findById(claims.id);
+    if (!user) {
+      throw new ApiError(401, 'UNAUTHORIZED', 'User not found');
+    }
+    return { id: user.id, email: user.email, tier: user.tier };
+  }
+
+  private static authResult(user: UserRecord): AuthResult {
+    return {
+      user: { id: user.id, email: user.email, name: user.name, tier: user.tier },
+      ...this.issueTokens(user),
+    };
+  }
+
+  private static issueTokens(user: UserRecord): AuthTokens {
+    // Durations such as '7d' from JWT_EXPIRES_IN / JWT_REFRESH_EXPIRES_IN
+    const sign = (type: TokenType, expiresIn: string) =>
+      jwt.sign({ id: user.id, email: user.email, tier: user.tier, type }, config.jwtSecret, {
+        expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+      });
+
+    return {
+      token: sign('access', config.jwtExpiresIn),
+      refreshToken: sign('refresh', config.jwtRefreshExpiresIn),
+    };
+  }
+
+  private static verify(token: string, type: TokenType): TokenClaims {
+    let claims: TokenClaims;
+    try {
+      claims = jwt.verify(token, config.jwtSecret) as TokenClaims;
+    } catch (error) {
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new ApiError(401, 'TOKEN_EXPIRED', 'Token has expired');
+      }
+      throw new ApiError(401, 'INVALID_TOKEN', 'Invalid token');
+    }
+
+    // Tokens issued before token types existed count as access tokens
+    if ((claims.type || 'access') !== type) {
+      throw new ApiError(401, 'INVALID_TOKEN', `Expected ${type} token`);
+    }
+    return claims;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Batch Analysis Service
+ * Analyzes many contracts with bounded concurrency, analyzing each distinct contract once
+ */
+
+import config from '../config';
+import { AnalysisPipelineService } from './analysis-pipeline.service';
+import { EtherscanService } from './etherscan.service';
+import { CacheKeys } from './caching/cache-keys';
+import { ExplanationMode } from '../repositories';
+import { ApiError } from '../utils/ApiError';
+import { BatchItem, BatchItemResult, BatchResult, BatchSummary } from '../types/batch.types';
+
+export class BatchAnalysisService {
+  /**
+   * Analyze every item; failures are reported per item and never fail the batch.
+   * Items get template explanations rather than AI ones, so a request costs at most
+   * BATCH_MAX_ITEMS deterministic analyses. Explorer requests are throttled per chain
+   */
+  static async run(
+    items: BatchItem[],
+    mode: ExplanationMode,
+    userId?: string,
+    concurrency: number = config.batchConcurrency
+  ): Promise<BatchResult> {
+    const startTime = Date.now();
+
+    // Items sharing a cache key are the same analysis
+    const groups = new Map<string, number[]>();
+    items.forEach((item, index) => {
+      const key = this.cacheKey(item);
+      groups.set(key, [...(groups.get(key) || []), index]);
+    });
+
+    const results: BatchItemResult[] = new Array(items.length);
+    const pending = Array.from(groups.values());
+
+    const worker = async () => {
+      for (let indexes = pending.shift(); indexes; indexes = pending.shift()) {
+        const [first, ...duplicates] = indexes;
+        const outcome = await this.analyze(items[first], first, mode, userId);
+        results[first] = outcome;
+        for (const index of duplicates) {
+          results[index] = { ...outcome, index, duplicate_of: first };
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, pending.length)) }, worker));
+
+    return {
+      items: results,
+      summary: this.summarize(results, Date.now() - startTime),
+    };
+  }
+
+  /**
+   * Key the analysis pipeline caches the item's result under
+   */
+  private static cacheKey(item: BatchItem): string {
+    return EtherscanService.isValidAddress(item.input)
+      ? CacheKeys.analysisResult(item.input.toLowerCase(), item.chain)
+      : CacheKeys.codeAnalysis(CacheKeys.hashCode(item.input));
+  }
+
+  private static async analyze(
+    item: BatchItem,
+    index: number,
+    mode: ExplanationMode,
+    userId?: string
+  ): Promise<BatchItemResult> {
+    const contractAddress = EtherscanService.isValidAddress(item.input) ? item.input.toLowerCase() : undefined;
+
+    try {
+      const result = await AnalysisPipelineService.run({
+        input: item.input,
+        chain: item.chain,
+        mode,
+        userId,
+        skipExplanations: true,
+      });
+      return {
+        index,
+        chain: item.chain,
+        contract_address: contractAddress,
+        status: 'SUCCESS',
+        cached: result.cached,
+        result,
+      };
+    } catch (error) {
+      return {
+        index,
+        chain: item.chain,
+        contract_address: contractAddress,
+        status: 'FAILED',
+        cached: false,
+        error: error instanceof ApiError
+          ? { code: error.code, message: error.message }
+          : { code: 'ANALYSIS_FAILED', message: error instanceof Error ? error.message : 'Analysis failed' },
+      };
+    }
+  }
+
+  private static summarize(results: BatchItemResult[], processingTime: number): BatchSummary {
+    const succeeded = results.filter(item => item.status === 'SUCCESS' && item.result);
+    const byClassification: BatchSummary['by_classification'] = {};
+    let highest: BatchItemResult | null = null;
+
+    for (const item of succeeded) {
+      const { classification, risk_score } = item.result!;
+      byClassification[classification] = (byClassification[classification] || 0) + 1;
+      if (!highest || risk_score > highest.result!.risk_score) {
+        highest = item;
+      }
+    }
+
+    const totalScore = succeeded.reduce((sum, item) => sum + item.result!.risk_score, 0);
+
+    return {
+      total: results.length,
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      cached: results.filter(item => item.cached).length,
+      duplicates: results.filter(item => item.duplicate_of !== undefined).length,
+      by_classification: byClassification,
+      average_risk_score: succeeded.length > 0 ? Math.round((totalScore / succeeded.length) * 10) / 10 : null,
+      highest_risk_index: highest ? highest.index : null,
+      processing_time_ms: processingTime,
+    };
+  }
+}
@@ -42,6 +42,34 @@ export class CacheKeys {
     return `${this.PREFIX}:usage:${userId}:${date}`;
   }
 
+  /**
+   * Generate cache key for an analysis job
+   */
+  static job(jobId: string): string {
+    return `${this.PREFIX}:job:${jobId}:${this.VERSION}`;
+  }
+
+  /**
+   * Generate key for the events of an analysis job (also their pub/sub channel)
+   */
+  static jobEvents(jobId: string): string {
+    return `${this.PREFIX}:job:${jobId}:events:${this.VERSION}`;
+  }
+
+  /**
+   * Generate key for the list of queued job ids
+   */
+  static jobQueue(): string {
+    return `${this.PREFIX}:jobs:pending:${this.VERSION}`;
+  }
+
+  /**
+   * Generate key for the list of job ids taken by a worker and not yet released
+   */
+  static jobsClaimed(): string {
+    return `${this.PREFIX}:jobs:claimed:${this.VERSION}`;
+  }
+
   /**
    * Calculate hash for source code
    */
@@ -9,6 +9,8 @@ import config from '../../config';
 class CacheService {
   private client: RedisClientType | null = null;
   private connected: boolean = false;
+  // Subscriptions need a dedicated connection; created on first subscribe
+  private subscriber: RedisClientType | null = null;
 
   /**
    * Connect to Redis
@@ -125,6 +127,171 @@ class CacheService {
     }
   }
 
+  /**
+   * Push value onto the head of a list
+   */
+  async lpush(key: string, value: string): Promise<boolean> {
+    if (!this.connected || !this.client) {
+      return false;
+    }
+
+    try {
+      await this.client.lPush(key, value);
+      return true;
+    } catch (error) {
+      console.error('Redis LPUSH error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Pop value from the tail of a list
+   */
+  async rpop(key: string): Promise<string | null> {
+    if (!this.connected || !this.client) {
+      return null;
+    }
+
+    try {
+      return await this.client.rPop(key);
+    } catch (error) {
+      console.error('Redis RPOP error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Atomically move the tail of one list onto the head of another, returning the moved value
+   */
+  async lmove(source: string, destination: string): Promise<string | null> {
+    if (!this.connected || !this.client) {
+      return null;
+    }
+
+    try {
+      return await this.client.lMove(source, destination, 'RIGHT', 'LEFT');
+    } catch (error) {
+      console.error('Redis LMOVE error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove every occurrence of value from a list
+   */
+  async lrem(key: string, value: string): Promise<boolean> {
+    if (!this.connected || !this.client) {
+      return false;
+    }
+
+    try {
+      await this.client.lRem(key, 0, value);
+      return true;
+    } catch (error) {
+      console.error('Redis LREM error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Append value to the tail of a list, returning the new length (0 on failure)
+   */
+  async rpush(key: string, value: string): Promise<number> {
+    if (!this.connected || !this.client) {
+      return 0;
+    }
+
+    try {
+      return await this.client.rPush(key, value);
+    } catch (error) {
+      console.error('Redis RPUSH error:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get list values between start and stop (inclusive, -1 for the end)
+   */
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    if (!this.connected || !this.client) {
+      return [];
+    }
+
+    try {
+      return await this.client.lRange(key, start, stop);
+    } catch (error) {
+      console.error('Redis LRANGE error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Set TTL on an existing key
+   */
+  async expire(key: string, ttlSeconds: number): Promise<void> {
+    if (!this.connected || !this.client) {
+      return;
+    }
+
+    try {
+      await this.client.expire(key, ttlSeconds);
+    } catch (error) {
+      console.error('Redis EXPIRE error:', error);
+    }
+  }
+
+  /**
+   * Publish message to a channel
+   */
+  async publish(channel: string, message: string): Promise<void> {
+    if (!this.connected || !this.client) {
+      return;
+    }
+
+    try {
+      await this.client.publish(channel, message);
+    } catch (error) {
+      console.error('Redis PUBLISH error:', error);
+    }
+  }
+
+  /**
+   * Subscribe to a channel
+   * Unlike the other commands this throws on failure, since the caller would otherwise wait for messages forever
+   */
+  async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    if (!this.connected || !this.client) {
+      throw new Error('Redis is not connected');
+    }
+
+    try {
+      if (!this.subscriber) {
+        this.subscriber = this.client.duplicate();
+        this.subscriber.on('error', (err) => console.error('Redis Subscriber Error:', err));
+        await this.subscriber.connect();
+      }
+      await this.subscriber.subscribe(channel, listener);
+    } catch (error) {
+      console.error('Redis SUBSCRIBE error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a channel listener added with subscribe
+   */
+  async unsubscribe(channel: string, listener: (message: string) => void): Promise<void> {
+    if (!this.subscriber) {
+      return;
+    }
+
+    try {
+      await this.subscriber.unsubscribe(channel, listener);
+    } catch (error) {
+      console.error('Redis UNSUBSCRIBE error:', error);
+    }
+  }
+
   /**
    * Get TTL for key
    */
@@ -145,6 +312,10 @@ class CacheService {
    * Disconnect from Redis
    */
   async disconnect(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+    }
     if (this.client) {
       await this.client.quit();
       this.connected = false;
@@ -0,0 +1,185 @@
+/**
+ * Chain Registry
+ * Single source of supported chains for explorers, RPC and request validation
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Joi from 'joi';
+import YAML from 'yaml';
+import config from '../config';
+import { ChainDefinition, DEFAULT_CHAINS } from '../config/chains';
+
+// Shape returned by GET /api/v1/chains
+export interface ChainSummary {
+  id: string;
+  name: string;
+  chainId: number;
+  nativeSymbol: string;
+  testnet: boolean;
+  explorerName: string;
+  explorerUrl: string;
+  // Explorer API key configured
+  enabled: boolean;
+  rpcConfigured: boolean;
+}
+
+const chainFields = {
+  id: Joi.string().pattern(/^[a-z0-9-]+$/).required(),
+  name: Joi.string(),
+  chainId: Joi.number().integer().positive(),
+  nativeSymbol: Joi.string(),
+  testnet: Joi.boolean(),
+  explorerName: Joi.string(),
+  explorerUrl: Joi.string().uri(),
+  explorerApiUrl: Joi.string().uri(),
+  apiKeyEnv: Joi.string().pattern(/^[A-Z0-9_]+$/),
+  rpcUrlEnv: Joi.string().pattern(/^[A-Z0-9_]+$/),
+  rpcUrl: Joi.string().uri(),
+  explorerRateLimit: Joi.number().positive(),
+};
+
+// Overrides of built-in chains may be partial; new chains need every field
+const newChainSchema = Joi.object(chainFields).fork(
+  ['name', 'chainId', 'nativeSymbol', 'explorerName', 'explorerUrl', 'explorerApiUrl', 'apiKeyEnv', 'rpcUrlEnv'],
+  field => field.required()
+);
+
+const chainFileSchema = Joi.object({
+  chains: Joi.array().items(Joi.object(chainFields).unknown(false)).required(),
+});
+
+/**
+ * Raised when a chains config file cannot be read or validated
+ */
+export class ChainConfigError extends Error {
+  public filePath: string;
+  public details: string[];
+
+  constructor(filePath: string, details: string[]) {
+    super(`Invalid chains config ${filePath}:\n  - ${details.join('\n  - ')}`);
+    this.name = 'ChainConfigError';
+    this.filePath = filePath;
+    this.details = details;
+  }
+}
+
+export class ChainRegistry {
+  private static chains = new Map<string, ChainDefinition>(
+    DEFAULT_CHAINS.map(chain => [chain.id, chain])
+  );
+
+  /**
+   * Add a chain or replace one with the same id
+   */
+  static register(chain: ChainDefinition): void {
+    this.chains.set(chain.id, chain);
+  }
+
+  /**
+   * Get a registered chain by id
+   */
+  static get(id: string): ChainDefinition | undefined {
+    return this.chains.get(id);
+  }
+
+  /**
+   * Chains accepted in requests: registered and, when ALLOWED_CHAINS is set, listed there
+   */
+  static getSupported(): ChainDefinition[] {
+    return Array.from(this.chains.values()).filter(chain =>
+      config.allowedChains.length === 0 || config.allowedChains.includes(chain.id)
+    );
+  }
+
+  static isSupported(id: string): boolean {
+    return this.getSupported().some(chain => chain.id === id);
+  }
+
+  /**
+   * Explorer API key from the chain's environment variable
+   */
+  static getApiKey(id: string): string {
+    const chain = this.chains.get(id);
+    return chain ? process.env[chain.apiKeyEnv] || '' : '';
+  }
+
+  /**
+   * JSON-RPC URL from the chain's environment variable or its configured default
+   */
+  static getRpcUrl(id: string): string {
+    const chain = this.chains.get(id);
+    return chain ? process.env[chain.rpcUrlEnv] || chain.rpcUrl || '' : '';
+  }
+
+  /**
+   * Explorer API requests per second allowed for the chain
+   */
+  static getExplorerRateLimit(id: string): number {
+    return this.chains.get(id)?.explorerRateLimit || config.explorerRateLimit;
+  }
+
+  /**
+   * Public description of every supported chain
+   */
+  static describe(): ChainSummary[] {
+    return this.getSupported().map(chain => ({
+      id: chain.id,
+      name: chain.name,
+      chainId: chain.chainId,
+      nativeSymbol: chain.nativeSymbol,
+      testnet: chain.testnet,
+      explorerName: chain.explorerName,
+      explorerUrl: chain.explorerUrl,
+      enabled: !!this.getApiKey(chain.id),
+      rpcConfigured: !!this.getRpcUrl(chain.id),
+    }));
+  }
+
+  /**
+   * Load a YAML or JSON chains file (`{ chains: [...] }`)
+   * Entries with a built-in id override its fields; other entries add a chain
+   * @returns Number of chains added or updated
+   */
+  static load(filePath: string): number {
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      raw = path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : YAML.parse(content);
+    } catch (error) {
+      throw new ChainConfigError(filePath, [
+        `Unable to read: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ]);
+    }
+
+    const { error, value } = chainFileSchema.validate(raw, { abortEarly: false });
+    if (error) {
+      throw new ChainConfigError(filePath, error.details.map(detail => detail.message));
+    }
+
+    const chains: ChainDefinition[] = [];
+    const errors: string[] = [];
+
+    for (const entry of value.chains as Array<Partial<ChainDefinition> & { id: string }>) {
+      const existing = this.chains.get(entry.id);
+      if (existing) {
+        chains.push({ ...existing, ...entry });
+        continue;
+      }
+
+      const validated = newChainSchema.validate(entry, { abortEarly: false });
+      if (validated.error) {
+        errors.push(...validated.error.details.map(detail => `${entry.id}: ${detail.message}`));
+        continue;
+      }
+      chains.push({ testnet: false, ...validated.value });
+    }
+
+    if (errors.length > 0) {
+      throw new ChainConfigError(filePath, errors);
+    }
+
+    chains.forEach(chain => this.register(chain));
+    return chains.length;
+  }
+}
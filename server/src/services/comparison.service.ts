@@ -0,0 +1,160 @@
+/**
+ * Comparison Service
+ * Computes what differs between two analyses: score, findings per risk type and per function
+ */
+
+import { AnalyzedRisk, CompleteAnalysisResult, RiskFinding, RiskType } from '../types/risk.types';
+import {
+  ComparedFinding,
+  ComparisonDifferences,
+  FindingChange,
+  FunctionComparison,
+  RiskTypeComparison,
+} from '../types/comparison.types';
+
+export interface MatchedFinding<T extends RiskFinding> {
+  finding: T;
+  change: FindingChange;
+}
+
+const findingKey = (finding: RiskFinding): string =>
+  `${finding.type}|${finding.function_name || ''}|${finding.contract_role || ''}`;
+
+const toCompared = ({ finding, change }: MatchedFinding<RiskFinding>): ComparedFinding => ({
+  type: finding.type,
+  severity: finding.severity,
+  function_name: finding.function_name,
+  contract_role: finding.contract_role,
+  change,
+});
+
+export class ComparisonService {
+  /**
+   * Compare analysis B against analysis A
+   */
+  static compare(a: CompleteAnalysisResult, b: CompleteAnalysisResult): ComparisonDifferences {
+    const findings = this.matchFindings<AnalyzedRisk>(a.risks, b.risks).map(toCompared);
+
+    return {
+      score_delta: Math.round((b.risk_score - a.risk_score) * 10) / 10,
+      classification_a: a.classification,
+      classification_b: b.classification,
+      findings,
+      by_risk_type: this.byRiskType(findings),
+      by_function: this.byFunction(findings),
+      summary: this.summarize(a, b, findings),
+    };
+  }
+
+  /**
+   * Pair findings of A and B with the same risk type, function and contract role;
+   * unpaired ones were added (B only) or removed (A only)
+   */
+  static matchFindings<T extends RiskFinding>(risksA: T[], risksB: T[]): MatchedFinding<T>[] {
+    const unmatched = new Map<string, T[]>();
+    for (const finding of risksA) {
+      const key = findingKey(finding);
+      unmatched.set(key, [...(unmatched.get(key) || []), finding]);
+    }
+
+    const findings: MatchedFinding<T>[] = [];
+    for (const finding of risksB) {
+      const candidates = unmatched.get(findingKey(finding));
+      if (candidates && candidates.length > 0) {
+        candidates.shift();
+        findings.push({ finding, change: 'UNCHANGED' });
+      } else {
+        findings.push({ finding, change: 'ADDED' });
+      }
+    }
+
+    for (const remaining of unmatched.values()) {
+      findings.push(...remaining.map(finding => ({ finding, change: 'REMOVED' as FindingChange })));
+    }
+
+    return findings;
+  }
+
+  private static byRiskType(findings: ComparedFinding[]): RiskTypeComparison[] {
+    const types = new Map<RiskType, RiskTypeComparison>();
+
+    for (const finding of findings) {
+      const entry = types.get(finding.type) || {
+        risk_type: finding.type,
+        count_a: 0,
+        count_b: 0,
+        added: 0,
+        removed: 0,
+        unchanged: 0,
+      };
+
+      if (finding.change === 'ADDED') {
+        entry.added++;
+        entry.count_b++;
+      } else if (finding.change === 'REMOVED') {
+        entry.removed++;
+        entry.count_a++;
+      } else {
+        entry.unchanged++;
+        entry.count_a++;
+        entry.count_b++;
+      }
+      types.set(finding.type, entry);
+    }
+
+    return Array.from(types.values());
+  }
+
+  /**
+   * Group findings by function; contract-level findings are left out
+   */
+  private static byFunction(findings: ComparedFinding[]): FunctionComparison[] {
+    const functions = new Map<string, FunctionComparison>();
+
+    for (const finding of findings) {
+      if (!finding.function_name) {
+        continue;
+      }
+      // Findings spanning several functions name them comma-separated
+      for (const name of finding.function_name.split(',').map(part => part.trim())) {
+        const entry = functions.get(name) || { function_name: name, added: [], removed: [], unchanged: [] };
+        const list = finding.change === 'ADDED' ? entry.added : finding.change === 'REMOVED' ? entry.removed : entry.unchanged;
+        if (!list.includes(finding.type)) {
+          list.push(finding.type);
+        }
+        functions.set(name, entry);
+      }
+    }
+
+    return Array.from(functions.values()).sort((x, y) => x.function_name.localeCompare(y.function_name));
+  }
+
+  private static summarize(a: CompleteAnalysisResult, b: CompleteAnalysisResult, findings: ComparedFinding[]): string {
+    const delta = Math.round((b.risk_score - a.risk_score) * 10) / 10;
+    const parts: string[] = [
+      delta === 0
+        ? `Both contracts score ${a.risk_score}/10.`
+        : `Contract B scores ${Math.abs(delta)} ${delta > 0 ? 'higher (riskier)' : 'lower (safer)'} than contract A (${a.risk_score} → ${b.risk_score}).`,
+    ];
+
+    const describe = (change: FindingChange): string =>
+      findings
+        .filter(finding => finding.change === change)
+        .map(finding => (finding.function_name ? `${finding.type} in ${finding.function_name}` : finding.type))
+        .join('; ');
+
+    const added = describe('ADDED');
+    const removed = describe('REMOVED');
+    if (added) {
+      parts.push(`B adds: ${added}.`);
+    }
+    if (removed) {
+      parts.push(`B no longer has: ${removed}.`);
+    }
+    if (!added && !removed) {
+      parts.push('Both contracts have the same findings.');
+    }
+
+    return parts.join(' ');
+  }
+}
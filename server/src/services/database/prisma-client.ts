@@ -0,0 +1,10 @@
+/**
+ * Prisma Client
+ * Shared database client; one connection pool per process
+ */
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export default prisma;
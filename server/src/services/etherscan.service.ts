@@ -1,31 +1,15 @@
 import axios from 'axios';
-import config from '../config';
 import { ApiError } from '../utils/ApiError';
+import { identifierPattern } from '../utils/regexp';
+import { ChainRegistry } from './chain-registry';
+import { ExplorerRateLimiter } from './explorer-rate-limiter';
 
-interface ChainConfig {
-  apiUrl: string;
-  apiKey: string;
-  explorerName: string;
+export interface ContractSourceFiles {
+  files: Record<string, string>;
+  mainFile?: string;
+  remappings: string[];
 }
 
-const CHAIN_CONFIGS: Record<string, ChainConfig> = {
-  ethereum: {
-    apiUrl: 'https://api.etherscan.io/api',
-    apiKey: config.etherscanApiKey || '',
-    explorerName: 'Etherscan',
-  },
-  polygon: {
-    apiUrl: 'https://api.polygonscan.com/api',
-    apiKey: config.polygonscanApiKey || '',
-    explorerName: 'Polygonscan',
-  },
-  bsc: {
-    apiUrl: 'https://api.bscscan.com/api',
-    apiKey: config.bscscanApiKey || '',
-    explorerName: 'BSCscan',
-  },
-};
-
 interface ContractSourceResponse {
   sourceCode: string;
   abi: string;
@@ -51,28 +35,34 @@ export class EtherscanService {
     chain: string = 'ethereum'
   ): Promise<{
     sourceCode: string;
+    sources: ContractSourceFiles;
     abi: any;
     compilerVersion: string;
     isVerified: boolean;
     contractName?: string;
+    // Implementation address when the explorer recognises a proxy
+    implementation?: string;
   }> {
     // Fetch from blockchain explorer
-    const chainConfig = CHAIN_CONFIGS[chain];
+    const chainConfig = ChainRegistry.get(chain);
     if (!chainConfig) {
       throw new ApiError(400, 'INVALID_CHAIN', `Unsupported chain: ${chain}`);
     }
 
-    if (!chainConfig.apiKey) {
+    const apiKey = ChainRegistry.getApiKey(chain);
+    if (!apiKey) {
       throw new ApiError(500, 'MISSING_API_KEY', `API key not configured for chain: ${chain}`);
     }
 
+    await ExplorerRateLimiter.acquire(chain);
+
     try {
-      const response = await axios.get(chainConfig.apiUrl, {
+      const response = await axios.get(chainConfig.explorerApiUrl, {
         params: {
           module: 'contract',
           action: 'getsourcecode',
           address,
-          apikey: chainConfig.apiKey,
+          apikey: apiKey,
         },
         timeout: 10000,
       });
@@ -97,20 +87,8 @@ export class EtherscanService {
       }
 
       // Parse source code (may be JSON for multi-file contracts)
-      let sourceCode = result.sourceCode;
-      if (sourceCode.startsWith('{')) {
-        try {
-          const parsed = JSON.parse(sourceCode.slice(1, -1));
-          if (parsed.sources) {
-            // Multi-file contract
-            sourceCode = Object.values(parsed.sources)
-              .map((s: any) => s.content)
-              .join('\n\n');
-          }
-        } catch (e) {
-          // Single file contract
-        }
-      }
+      const sources = this.parseSourceFiles(result.sourceCode, result.contractName);
+      const sourceCode = Object.values(sources.files).join('\n\n');
 
       let abi;
       try {
@@ -121,10 +99,14 @@ export class EtherscanService {
 
       return {
         sourceCode,
+        sources,
         abi,
         compilerVersion: result.compilerVersion,
         isVerified: true,
         contractName: result.contractName,
+        implementation: result.proxy === '1' && this.isValidAddress(result.implementation)
+          ? result.implementation.toLowerCase()
+          : undefined,
       };
     } catch (error) {
       if (axios.isAxiosError(error)) {
@@ -141,6 +123,53 @@ export class EtherscanService {
     }
   }
 
+  /**
+   * Split explorer source into files
+   * Handles plain source, `{...}` file maps and `{{...}}` standard-JSON input
+   */
+  private static parseSourceFiles(rawSource: string, contractName: string): ContractSourceFiles {
+    const singleFile = (): ContractSourceFiles => ({
+      files: { [`${contractName || 'Contract'}.sol`]: rawSource },
+      remappings: [],
+    });
+
+    if (!rawSource.trim().startsWith('{')) {
+      return singleFile();
+    }
+
+    let parsed: any;
+    try {
+      const trimmed = rawSource.trim();
+      parsed = JSON.parse(trimmed.startsWith('{{') ? trimmed.slice(1, -1) : trimmed);
+    } catch (e) {
+      return singleFile();
+    }
+
+    const fileMap = parsed.sources || parsed;
+    const files: Record<string, string> = {};
+    for (const [path, entry] of Object.entries<any>(fileMap)) {
+      if (entry && typeof entry.content === 'string') {
+        files[path] = entry.content;
+      }
+    }
+
+    if (Object.keys(files).length === 0) {
+      return singleFile();
+    }
+
+    let mainFile: string | undefined;
+    if (contractName) {
+      const definition = new RegExp(`\\b(contract|library|interface)\\s+${identifierPattern(contractName)}`);
+      mainFile = Object.keys(files).find(path => definition.test(files[path]));
+    }
+
+    return {
+      files,
+      mainFile,
+      remappings: parsed.settings?.remappings || [],
+    };
+  }
+
   /**
    * Validate Ethereum address format
    */
@@ -152,6 +181,6 @@ export class EtherscanService {
    * Get supported chains
    */
   static getSupportedChains(): string[] {
-    return Object.keys(CHAIN_CONFIGS);
+    return ChainRegistry.getSupported().map(chain => chain.id);
   }
 }
@@ -0,0 +1,26 @@
+/**
+ * Explorer Rate Limiter
+ * Spaces explorer API requests per chain so bursts (e.g. batch analyses)
+ * stay within each explorer's requests-per-second quota
+ */
+
+import { ChainRegistry } from './chain-registry';
+
+export class ExplorerRateLimiter {
+  // Earliest time (ms) the next request to each chain may be sent
+  private static nextSlot = new Map<string, number>();
+
+  /**
+   * Wait for the next free request slot on the chain's explorer
+   */
+  static async acquire(chain: string): Promise<void> {
+    const interval = 1000 / ChainRegistry.getExplorerRateLimit(chain);
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(chain) || 0);
+    this.nextSlot.set(chain, slot + interval);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Analysis Worker Service
+ * Runs queued analysis jobs in the background with bounded concurrency
+ */
+
+import config from '../../config';
+import { AnalysisPipelineService } from '../analysis-pipeline.service';
+import { getJobQueue } from './index';
+import { ApiError } from '../../utils/ApiError';
+import { AnalysisEvent, AnalysisJob, STAGE_PROGRESS } from '../../types/job.types';
+
+export class AnalysisWorkerService {
+  private static running = false;
+  private static loops: Promise<void>[] = [];
+  // Resolvers of loops idling until the next poll
+  private static sleepers: Array<() => void> = [];
+  private static recoveryTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start `concurrency` worker loops, recovering abandoned jobs now and every JOB_STALE_AFTER seconds
+   */
+  static start(concurrency: number = config.jobConcurrency): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.loops = Array.from({ length: Math.max(1, concurrency) }, () => this.loop());
+
+    const recover = () => this.recover().catch(error => console.error('Failed to recover abandoned jobs:', error));
+    recover();
+    this.recoveryTimer = setInterval(recover, config.jobStaleAfter * 1000);
+    this.recoveryTimer.unref();
+  }
+
+  /**
+   * Stop polling and wait for running jobs to finish
+   */
+  static async stop(): Promise<void> {
+    this.running = false;
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    this.notify();
+    await Promise.all(this.loops);
+    this.loops = [];
+  }
+
+  /**
+   * Wake idle loops, e.g. right after a job was queued
+   */
+  static notify(): void {
+    const sleepers = this.sleepers;
+    this.sleepers = [];
+    sleepers.forEach(wake => wake());
+  }
+
+  /**
+   * Queue an analysis and wake a worker
+   */
+  static async submit(job: Omit<AnalysisJob, 'status' | 'stage' | 'progress' | 'created_at' | 'updated_at'>): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const queued: AnalysisJob = {
+      ...job,
+      status: 'PENDING',
+      stage: 'QUEUED',
+      progress: STAGE_PROGRESS.QUEUED,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await getJobQueue().enqueue(queued);
+    this.notify();
+    return queued;
+  }
+
+  /**
+   * Settle claimed jobs whose worker stopped: finished or expired ones are released, and those
+   * without an update for JOB_STALE_AFTER seconds are queued again (PENDING) or failed (PROCESSING)
+   */
+  static async recover(): Promise<void> {
+    const queue = getJobQueue();
+    const staleBefore = Date.now() - config.jobStaleAfter * 1000;
+
+    for (const id of await queue.claimed()) {
+      const job = await queue.get(id);
+      const active = job && (job.status === 'PENDING' || job.status === 'PROCESSING');
+      if (active && Date.parse(job.updated_at) > staleBefore) {
+        continue;
+      }
+
+      if (job?.status === 'PENDING') {
+        await queue.release(id);
+        await queue.enqueue(job);
+        this.notify();
+        continue;
+      }
+
+      if (job?.status === 'PROCESSING') {
+        const failure = { code: 'WORKER_LOST', message: 'The worker running this analysis stopped, please resubmit' };
+        await queue.update(id, { status: 'FAILED', error: failure });
+        await queue.appendEvent(id, { type: 'failed', error: failure });
+      }
+      await queue.release(id);
+    }
+  }
+
+  /**
+   * Run one job to completion, recording progress, events and the outcome on the job
+   */
+  static async process(id: string): Promise<void> {
+    const queue = getJobQueue();
+    const job = await queue.update(id, { status: 'PROCESSING' });
+    if (!job) {
+      return;
+    }
+
+    // Refresh updated_at between progress events so recovery does not mistake a long stage for a lost worker
+    const heartbeat = setInterval(() => {
+      queue.update(id, {}).catch(error => console.error(`Failed to refresh job ${id}:`, error));
+    }, (config.jobStaleAfter * 1000) / 3);
+
+    // Writes are chained so events keep their order and none lands after the final status
+    let progressWrites = Promise.resolve();
+    const record = async (event: AnalysisEvent) => {
+      if (event.type === 'stage') {
+        await queue.update(id, { stage: event.stage, progress: event.progress });
+      }
+      await queue.appendEvent(id, event);
+    };
+
+    let outcome: AnalysisEvent;
+    try {
+      const result = await AnalysisPipelineService.run(
+        { id: job.id, input: job.input, chain: job.chain, mode: job.mode, userId: job.user_id },
+        event => {
+          progressWrites = progressWrites
+            .then(() => record(event))
+            .catch(error => console.error(`Failed to record progress of job ${id}:`, error));
+        }
+      );
+
+      await progressWrites;
+      await queue.update(id, { status: 'COMPLETED', stage: 'DONE', progress: STAGE_PROGRESS.DONE, result });
+      outcome = { type: 'completed', result };
+    } catch (error) {
+      await progressWrites;
+      const failure = error instanceof ApiError
+        ? { code: error.code, message: error.message }
+        : { code: 'ANALYSIS_FAILED', message: error instanceof Error ? error.message : 'Analysis failed' };
+      await queue.update(id, { status: 'FAILED', error: failure });
+      outcome = { type: 'failed', error: failure };
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    try {
+      await queue.appendEvent(id, outcome);
+    } catch (error) {
+      console.error(`Failed to record outcome of job ${id}:`, error);
+    }
+  }
+
+  private static async loop(): Promise<void> {
+    while (this.running) {
+      let id: string | null = null;
+      try {
+        id = await getJobQueue().dequeue();
+      } catch (error) {
+        console.error('Failed to read job queue:', error);
+      }
+
+      if (id) {
+        await this.process(id);
+        await getJobQueue().release(id).catch(error => console.error(`Failed to release job ${id}:`, error));
+      } else {
+        await this.sleep(config.jobPollIntervalMs);
+      }
+    }
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.sleepers = this.sleepers.filter(sleeper => sleeper !== done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.sleepers.push(done);
+    });
+  }
+}
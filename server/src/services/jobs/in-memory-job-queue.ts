@@ -0,0 +1,131 @@
+/**
+ * In-Memory Job Queue
+ * Process-local queue used when Redis is unavailable, and in tests.
+ * Like the Redis queue, jobs and their events expire JOB_TTL seconds after their last update
+ */
+
+import { EventEmitter } from 'events';
+import config from '../../config';
+import { JobEventListener, JobQueue } from './job-queue';
+import { AnalysisEvent, AnalysisJob, JobEvent } from '../../types/job.types';
+
+export class InMemoryJobQueue implements JobQueue {
+  private jobs = new Map<string, AnalysisJob>();
+  private pending: string[] = [];
+  private claims = new Set<string>();
+  private events = new Map<string, JobEvent[]>();
+  private expiresAt = new Map<string, number>();
+  private emitter = new EventEmitter().setMaxListeners(0);
+
+  constructor(private readonly ttlSeconds: number = config.jobTTL) {}
+
+  async enqueue(job: AnalysisJob): Promise<void> {
+    this.evictExpired();
+    this.jobs.set(job.id, job);
+    this.touch(job.id);
+    this.pending.push(job.id);
+  }
+
+  async dequeue(): Promise<string | null> {
+    const id = this.pending.shift() || null;
+    if (id) {
+      this.claims.add(id);
+    }
+    return id;
+  }
+
+  async release(id: string): Promise<void> {
+    this.claims.delete(id);
+  }
+
+  async claimed(): Promise<string[]> {
+    return Array.from(this.claims);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    return this.live(id) ? this.jobs.get(id) || null : null;
+  }
+
+  async update(id: string, changes: Partial<AnalysisJob>): Promise<AnalysisJob | null> {
+    const job = await this.get(id);
+    if (!job) {
+      return null;
+    }
+
+    const updated = { ...job, ...changes, updated_at: new Date().toISOString() };
+    this.jobs.set(id, updated);
+    this.touch(id);
+    return updated;
+  }
+
+  async appendEvent(id: string, event: AnalysisEvent): Promise<JobEvent> {
+    if (!this.live(id)) {
+      // Events of an unknown job expire on their own, like the Redis list
+      this.touch(id);
+    }
+    const events = this.events.get(id) || [];
+    const recorded: JobEvent = { ...event, seq: events.length + 1 };
+    events.push(recorded);
+    this.events.set(id, events);
+    this.emitter.emit(id, recorded);
+    return recorded;
+  }
+
+  async getEvents(id: string, afterSeq: number = 0): Promise<JobEvent[]> {
+    return ((this.live(id) && this.events.get(id)) || []).filter(event => event.seq > afterSeq);
+  }
+
+  async subscribe(id: string, listener: JobEventListener): Promise<() => Promise<void>> {
+    this.emitter.on(id, listener);
+    return async () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  /**
+   * Remove every job
+   */
+  clear(): void {
+    this.jobs.clear();
+    this.pending = [];
+    this.claims.clear();
+    this.events.clear();
+    this.expiresAt.clear();
+    this.emitter.removeAllListeners();
+  }
+
+  private touch(id: string): void {
+    this.expiresAt.set(id, Date.now() + this.ttlSeconds * 1000);
+  }
+
+  /**
+   * Whether the job (or its events) has not expired; expired ones are removed
+   */
+  private live(id: string): boolean {
+    const expiresAt = this.expiresAt.get(id);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (expiresAt > Date.now()) {
+      return true;
+    }
+    this.remove(id);
+    return false;
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, expiresAt] of this.expiresAt) {
+      if (expiresAt <= now) {
+        this.remove(id);
+      }
+    }
+    this.pending = this.pending.filter(id => this.jobs.has(id));
+  }
+
+  private remove(id: string): void {
+    this.jobs.delete(id);
+    this.events.delete(id);
+    this.expiresAt.delete(id);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Analysis Jobs
+ * Queue selected by JOB_QUEUE, falling back to memory without a Redis connection
+ */
+
+import config from '../../config';
+import cacheService from '../caching/redis.service';
+import { JobQueue } from './job-queue';
+import { InMemoryJobQueue } from './in-memory-job-queue';
+import { RedisJobQueue } from './redis-job-queue';
+
+export * from './job-queue';
+export { InMemoryJobQueue } from './in-memory-job-queue';
+
+let jobQueue: JobQueue | null = null;
+
+export const getJobQueue = (): JobQueue => {
+  if (!jobQueue) {
+    jobQueue = config.jobQueue === 'redis' && cacheService.isConnected()
+      ? new RedisJobQueue()
+      : new InMemoryJobQueue();
+  }
+  return jobQueue;
+};
+
+export const setJobQueue = (queue: JobQueue): void => {
+  jobQueue = queue;
+};
@@ -0,0 +1,27 @@
+/**
+ * Job Queue
+ * Storage and FIFO ordering for asynchronous analysis jobs, and their event history
+ */
+
+import { AnalysisEvent, AnalysisJob, JobEvent } from '../../types/job.types';
+
+export type JobEventListener = (event: JobEvent) => void;
+
+export interface JobQueue {
+  // Store the job and queue its id for a worker
+  enqueue(job: AnalysisJob): Promise<void>;
+  // Next queued job id, or null when the queue is empty; the id stays claimed until released
+  dequeue(): Promise<string | null>;
+  // Drop a claimed id once its job has finished
+  release(id: string): Promise<void>;
+  // Ids dequeued and not yet released, including those of workers that stopped mid-job
+  claimed(): Promise<string[]>;
+  get(id: string): Promise<AnalysisJob | null>;
+  update(id: string, changes: Partial<AnalysisJob>): Promise<AnalysisJob | null>;
+  // Record an event and notify subscribers; returns it with its sequence number
+  appendEvent(id: string, event: AnalysisEvent): Promise<JobEvent>;
+  // Recorded events with seq greater than afterSeq, oldest first
+  getEvents(id: string, afterSeq?: number): Promise<JobEvent[]>;
+  // Receive events appended from now on; resolves to an unsubscribe function
+  subscribe(id: string, listener: JobEventListener): Promise<() => Promise<void>>;
+}
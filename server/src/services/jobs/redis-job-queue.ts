@@ -0,0 +1,78 @@
+/**
+ * Redis Job Queue
+ * Shares queued jobs between API instances; jobs and their events expire after JOB_TTL seconds.
+ * Events are kept in a list (position = seq) and published so any instance can stream them.
+ * Dequeued ids move to a claimed list until released, so jobs of a crashed worker can be recovered
+ */
+
+import config from '../../config';
+import cacheService from '../caching/redis.service';
+import { CacheKeys } from '../caching/cache-keys';
+import { JobEventListener, JobQueue } from './job-queue';
+import { AnalysisEvent, AnalysisJob, JobEvent } from '../../types/job.types';
+
+export class RedisJobQueue implements JobQueue {
+  async enqueue(job: AnalysisJob): Promise<void> {
+    await cacheService.set(CacheKeys.job(job.id), job, config.jobTTL);
+    if (!(await cacheService.lpush(CacheKeys.jobQueue(), job.id))) {
+      throw new Error(`Failed to queue job ${job.id}`);
+    }
+  }
+
+  async dequeue(): Promise<string | null> {
+    // Kept in the claimed list so a job survives the worker crashing before it finishes
+    return cacheService.lmove(CacheKeys.jobQueue(), CacheKeys.jobsClaimed());
+  }
+
+  async release(id: string): Promise<void> {
+    if (!(await cacheService.lrem(CacheKeys.jobsClaimed(), id))) {
+      throw new Error(`Failed to release job ${id}`);
+    }
+  }
+
+  async claimed(): Promise<string[]> {
+    return cacheService.lrange(CacheKeys.jobsClaimed(), 0, -1);
+  }
+
+  async get(id: string): Promise<AnalysisJob | null> {
+    return cacheService.get<AnalysisJob>(CacheKeys.job(id));
+  }
+
+  async update(id: string, changes: Partial<AnalysisJob>): Promise<AnalysisJob | null> {
+    const job = await this.get(id);
+    if (!job) {
+      return null;
+    }
+
+    const updated = { ...job, ...changes, updated_at: new Date().toISOString() };
+    await cacheService.set(CacheKeys.job(id), updated, config.jobTTL);
+    return updated;
+  }
+
+  async appendEvent(id: string, event: AnalysisEvent): Promise<JobEvent> {
+    const key = CacheKeys.jobEvents(id);
+    // The list length after the push is the event's position, used as its seq
+    const seq = await cacheService.rpush(key, JSON.stringify(event));
+    if (!seq) {
+      throw new Error(`Failed to record event of job ${id}`);
+    }
+    if (seq === 1) {
+      await cacheService.expire(key, config.jobTTL);
+    }
+
+    const recorded: JobEvent = { ...event, seq };
+    await cacheService.publish(CacheKeys.jobEvents(id), JSON.stringify(recorded));
+    return recorded;
+  }
+
+  async getEvents(id: string, afterSeq: number = 0): Promise<JobEvent[]> {
+    const entries = await cacheService.lrange(CacheKeys.jobEvents(id), afterSeq, -1);
+    return entries.map((entry, index) => ({ ...JSON.parse(entry), seq: afterSeq + index + 1 }));
+  }
+
+  async subscribe(id: string, listener: JobEventListener): Promise<() => Promise<void>> {
+    const handler = (message: string) => listener(JSON.parse(message));
+    await cacheService.subscribe(CacheKeys.jobEvents(id), handler);
+    return () => cacheService.unsubscribe(CacheKeys.jobEvents(id), handler);
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * On-Chain State Service
+ * Reads live owner, pause, supply and proxy state and discounts findings it mitigates
+ */
+
+import { ApiError } from '../utils/ApiError';
+import { RpcService } from './rpc.service';
+import { EIP1967_SLOTS } from './risk-detection/bytecode/bytecode-analyzer.service';
+import { MITIGABLE_RISK_TYPES } from './risk-detection/mitigation-analyzer.service';
+import { ScoringAlgorithmService } from './risk-detection/scoring-algorithm.service';
+import {
+  Mitigation,
+  MitigationType,
+  OnChainState,
+  RiskDetectionResult,
+  RiskFinding,
+  RiskType,
+} from '../types/risk.types';
+
+const SELECTORS = {
+  owner: '0x8da5cb5b',
+  paused: '0x5c975abb',
+  totalSupply: '0x18160ddd',
+  // Gnosis Safe
+  getThreshold: '0xe75235b8',
+  // OpenZeppelin TimelockController
+  getMinDelay: '0xf27a0c92',
+};
+
+// Risks that exist only through the owner() account
+const OWNERSHIP_RISK_TYPES = new Set<RiskType>([RiskType.CENTRALIZED_OWNERSHIP, RiskType.OWNERSHIP_TRANSFER]);
+const OWNER_MODIFIER = /^only_?owner$/i;
+const OWNER_CHECK = /\b(?:_checkOwner|_onlyOwner|_requireOwner)\s*\(|\bowner(?:\(\s*\))?\s*[!=]=|[!=]=\s*owner\b/;
+
+export class OnChainStateService {
+  /**
+   * Read live state of a deployed contract
+   * Functions the contract does not implement are left out of the result
+   */
+  static async read(address: string, chain: string): Promise<OnChainState> {
+    const [blockNumber, owner, paused, totalSupply, implementation, admin] = await Promise.all([
+      RpcService.getBlockNumber(chain),
+      this.tryCall(address, SELECTORS.owner, chain),
+      this.tryCall(address, SELECTORS.paused, chain),
+      this.tryCall(address, SELECTORS.totalSupply, chain),
+      RpcService.getStorageAt(address, `0x${EIP1967_SLOTS.implementation}`, chain),
+      RpcService.getStorageAt(address, `0x${EIP1967_SLOTS.admin}`, chain),
+    ]);
+
+    const state: OnChainState = { block_number: blockNumber };
+
+    if (owner) {
+      const ownerAddress = RpcService.decodeAddress(owner);
+      if (!ownerAddress) {
+        state.owner = `0x${'0'.repeat(40)}`;
+        state.owner_type = 'RENOUNCED';
+      } else {
+        state.owner = ownerAddress;
+        Object.assign(state, await this.classifyOwner(ownerAddress, chain));
+      }
+    }
+
+    if (paused) {
+      state.paused = BigInt(paused) !== 0n;
+    }
+    if (totalSupply) {
+      state.total_supply = BigInt(totalSupply).toString();
+    }
+
+    state.implementation_address = RpcService.decodeAddress(implementation) || undefined;
+    state.admin_address = RpcService.decodeAddress(admin) || undefined;
+
+    return state;
+  }
+
+  /**
+   * Adjust findings to the live state and rescore
+   * A renounced owner or an owner that is a multisig/timelock mitigates
+   * risks guarded by owner(); a paused contract is called out on its finding
+   */
+  static apply(result: RiskDetectionResult, state: OnChainState): RiskDetectionResult {
+    const mitigation = this.ownerMitigation(state);
+
+    const findings = result.findings.map(finding => {
+      let adjusted = finding;
+
+      if (mitigation && MITIGABLE_RISK_TYPES.has(finding.type) &&
+        finding.type !== RiskType.TRANSPARENT_PROXY && this.isOwnerGuarded(finding)) {
+        adjusted = { ...adjusted, mitigations: [...(adjusted.mitigations || []), mitigation] };
+      }
+
+      if (state.paused && finding.type === RiskType.PAUSABLE_CONTRACT) {
+        adjusted = {
+          ...adjusted,
+          machine_reason: `${adjusted.machine_reason} The contract is currently paused (block ${state.block_number}).`,
+        };
+      }
+
+      return adjusted;
+    });
+
+    const rescored = ScoringAlgorithmService.buildResult(findings, result.metadata);
+
+    return {
+      ...result,
+      findings: rescored.findings,
+      risk_score: rescored.risk_score,
+      unmitigated_risk_score: rescored.unmitigated_risk_score,
+      mitigation_discount: rescored.mitigation_discount,
+      classification: rescored.classification,
+    };
+  }
+
+  /**
+   * Distinguish EOAs, Safe multisigs, timelocks and other contracts
+   */
+  private static async classifyOwner(owner: string, chain: string): Promise<Partial<OnChainState>> {
+    const code = await RpcService.getCode(owner, chain);
+    if (!code || code === '0x') {
+      return { owner_type: 'EOA' };
+    }
+
+    const threshold = await this.tryCall(owner, SELECTORS.getThreshold, chain);
+    if (threshold && BigInt(threshold) > 0n) {
+      return { owner_type: 'MULTISIG', multisig_threshold: Number(BigInt(threshold)) };
+    }
+
+    const delay = await this.tryCall(owner, SELECTORS.getMinDelay, chain);
+    if (delay) {
+      return { owner_type: 'TIMELOCK', timelock_delay_seconds: Number(BigInt(delay)) };
+    }
+
+    return { owner_type: 'CONTRACT' };
+  }
+
+  /**
+   * Whether owner() controls the finding: ownership risks themselves, functions with an
+   * onlyOwner modifier or an owner check. Role, admin and other guards stay unmitigated
+   */
+  private static isOwnerGuarded(finding: RiskFinding): boolean {
+    if (OWNERSHIP_RISK_TYPES.has(finding.type)) {
+      return true;
+    }
+    const modifiers = (finding.modifier_name || '').split(',').map(name => name.trim());
+    return modifiers.some(name => OWNER_MODIFIER.test(name)) || OWNER_CHECK.test(finding.code_snippet);
+  }
+
+  private static ownerMitigation(state: OnChainState): Mitigation | null {
+    switch (state.owner_type) {
+      case 'RENOUNCED':
+        return { type: MitigationType.RENOUNCED_OWNERSHIP, evidence: 'owner() is address(0) on-chain' };
+      case 'MULTISIG':
+        return {
+          type: MitigationType.MULTISIG,
+          evidence: `owner ${state.owner} is a Safe requiring ${state.multisig_threshold} confirmations`,
+        };
+      case 'TIMELOCK':
+        return {
+          type: MitigationType.TIMELOCK,
+          evidence: `owner ${state.owner} is a timelock with a ${state.timelock_delay_seconds}s delay`,
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * eth_call returning a single 32-byte word, or null when the call reverts
+   * or the function does not exist
+   */
+  private static async tryCall(to: string, data: string, chain: string): Promise<string | null> {
+    try {
+      const result = await RpcService.ethCall(to, data, chain);
+      return result && result.length >= 66 ? result.substring(0, 66) : null;
+    } catch (error) {
+      if (error instanceof ApiError && error.code === 'RPC_ERROR') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Proxy Resolver Service
+ * Finds the implementation behind a proxy from its EIP-1967 slots or the explorer
+ */
+
+import config from '../config';
+import { RpcService } from './rpc.service';
+import { EIP1967_SLOTS } from './risk-detection/bytecode/bytecode-analyzer.service';
+import { ProxyInfo } from '../types/risk.types';
+
+// implementation()
+const IMPLEMENTATION_SELECTOR = '0x5c60da1b';
+
+export class ProxyResolverService {
+  /**
+   * Find the implementation behind a proxy
+   * EIP-1967 slots are read on-chain when an RPC endpoint is configured,
+   * otherwise (or when they are empty) the explorer's proxy detection is used
+   */
+  static async resolve(
+    address: string,
+    chain: string,
+    explorerImplementation?: string
+  ): Promise<ProxyInfo | null> {
+    if (config.resolveProxySlots && RpcService.isConfigured(chain)) {
+      try {
+        const onChain = await this.readSlots(address, chain);
+        if (onChain) {
+          return onChain;
+        }
+      } catch (error) {
+        console.warn(`EIP-1967 slot lookup failed for ${address}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (explorerImplementation && explorerImplementation !== address.toLowerCase()) {
+      return { implementation_address: explorerImplementation, resolved_via: 'EXPLORER' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Read the EIP-1967 implementation, admin and beacon slots
+   */
+  private static async readSlots(address: string, chain: string): Promise<ProxyInfo | null> {
+    const implementation = RpcService.decodeAddress(
+      await RpcService.getStorageAt(address, `0x${EIP1967_SLOTS.implementation}`, chain)
+    );
+    const admin = RpcService.decodeAddress(
+      await RpcService.getStorageAt(address, `0x${EIP1967_SLOTS.admin}`, chain)
+    );
+
+    if (implementation) {
+      return {
+        implementation_address: implementation,
+        admin_address: admin || undefined,
+        resolved_via: 'EIP1967_SLOT',
+      };
+    }
+
+    // Beacon proxies store the beacon; the beacon knows the implementation
+    const beacon = RpcService.decodeAddress(
+      await RpcService.getStorageAt(address, `0x${EIP1967_SLOTS.beacon}`, chain)
+    );
+    if (beacon) {
+      const beaconImplementation = RpcService.decodeAddress(await RpcService.ethCall(beacon, IMPLEMENTATION_SELECTOR, chain));
+      if (beaconImplementation) {
+        return {
+          implementation_address: beaconImplementation,
+          admin_address: admin || undefined,
+          beacon_address: beacon,
+          resolved_via: 'BEACON',
+        };
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * ABI Analyzer Service
+ * Risk pre-screen from a contract's ABI alone
+ *
+ * The ABI shows which privileged functions exist but not who may call them or
+ * what they do, so findings are hints marked `source: 'ABI'` and confidence is
+ * reduced. Used when the source cannot be parsed or only an ABI is submitted,
+ * and to supplement a source analysis with risk types it did not report.
+ */
+
+import { ScoringAlgorithmService } from '../scoring-algorithm.service';
+import { SelectorResolverService } from '../bytecode/selector-resolver.service';
+import { RiskDetectionResult, RiskFinding, RiskType, RISK_WEIGHTS } from '../../../types/risk.types';
+
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  components?: AbiParameter[];
+}
+
+export interface AbiItem {
+  type: 'function' | 'constructor' | 'event' | 'error' | 'fallback' | 'receive';
+  name?: string;
+  inputs?: AbiParameter[];
+  outputs?: AbiParameter[];
+  stateMutability?: 'pure' | 'view' | 'nonpayable' | 'payable';
+}
+
+// The ABI carries less evidence than bytecode; scale confidence accordingly
+export const ABI_CONFIDENCE_FACTOR = 0.5;
+
+const OWNERSHIP_FUNCTIONS = ['owner', 'hasRole', 'getRoleAdmin'];
+const PROXY_FUNCTIONS = ['implementation', 'upgradeTo', 'upgradeToAndCall', 'setImplementation', 'proxiableUUID'];
+
+export class AbiAnalyzerService {
+  /**
+   * Check whether input is a JSON ABI rather than an address, bytecode or source
+   */
+  static isAbi(input: string): boolean {
+    return this.parse(input) !== null;
+  }
+
+  /**
+   * Parse a JSON ABI, returning null when the input is not one
+   */
+  static parse(input: string): AbiItem[] | null {
+    const trimmed = input.trim();
+    if (!trimmed.startsWith('[')) {
+      return null;
+    }
+
+    try {
+      const abi = JSON.parse(trimmed);
+      const valid = Array.isArray(abi) && abi.length > 0 &&
+        abi.every(item => item !== null && typeof item === 'object' && typeof item.type === 'string');
+      return valid ? abi : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Canonical signature used for selectors, e.g. `swap((address,uint256)[],bytes)`
+   */
+  static signatureOf(item: AbiItem): string {
+    return `${item.name}(${(item.inputs || []).map(p => this.canonicalType(p)).join(',')})`;
+  }
+
+  /**
+   * Analyze an ABI
+   */
+  static analyze(abi: AbiItem[]): RiskDetectionResult {
+    const functions = abi.filter(item => item.type === 'function' && item.name);
+    const selectors = functions.map(item => SelectorResolverService.selectorOf(this.signatureOf(item)));
+    const findings = this.detect(abi);
+
+    const result = ScoringAlgorithmService.buildResult(
+      ScoringAlgorithmService.sortBySeverity(findings),
+      {
+        total_functions: functions.length,
+        successfully_parsed: functions.length,
+        patterns_checked: 3,
+        patterns_matched: findings.length,
+      }
+    );
+
+    return {
+      ...result,
+      confidence: Math.round(result.confidence * ABI_CONFIDENCE_FACTOR * 100) / 100,
+      metadata: {
+        ...result.metadata,
+        analysis_mode: 'ABI',
+        function_selectors: selectors,
+        function_signatures: Object.fromEntries(
+          functions.map((item, index) => [selectors[index], [this.signatureOf(item)]])
+        ),
+      },
+    };
+  }
+
+  /**
+   * Add the ABI findings whose risk type no source finding covers, rescoring the result.
+   * Confidence and metadata stay those of the source analysis
+   */
+  static supplement(result: RiskDetectionResult, abi: AbiItem[]): RiskDetectionResult {
+    const covered = new Set(result.findings.map(finding => finding.type));
+    const uncovered = this.detect(abi).filter(finding => !covered.has(finding.type));
+    if (uncovered.length === 0) {
+      return result;
+    }
+
+    const merged = ScoringAlgorithmService.buildResult(
+      ScoringAlgorithmService.sortBySeverity([...result.findings, ...uncovered]),
+      result.metadata
+    );
+
+    return { ...merged, confidence: result.confidence, metadata: result.metadata };
+  }
+
+  /**
+   * ABI-derived findings, one per risk type
+   */
+  static detect(abi: AbiItem[]): RiskFinding[] {
+    const functions = abi.filter(item => item.type === 'function' && item.name);
+    const names = new Set(functions.map(item => item.name as string));
+    const grouped = new Map<RiskType, AbiItem[]>();
+
+    // Privileged functions (mint, setFee, pause, blacklist, upgradeTo, ...)
+    for (const item of functions) {
+      if (item.stateMutability === 'view' || item.stateMutability === 'pure') {
+        continue;
+      }
+      const type = SelectorResolverService.classify(item.name as string);
+      if (type) {
+        grouped.set(type, [...(grouped.get(type) || []), item]);
+      }
+    }
+
+    const findings = Array.from(grouped.entries()).map(([type, items]) =>
+      this.createFinding(
+        type,
+        items,
+        `ABI exposes ${items.map(item => this.signatureOf(item)).join(', ')}. ` +
+          'Whether access is restricted cannot be verified from the ABI.'
+      )
+    );
+
+    // An owner or role model controlling the privileged functions above
+    const ownership = OWNERSHIP_FUNCTIONS.filter(name => names.has(name));
+    if (ownership.length > 0 && grouped.size > 0) {
+      const privileged = Array.from(grouped.values()).flat();
+      findings.push(this.createFinding(
+        RiskType.CENTRALIZED_OWNERSHIP,
+        functions.filter(item => ownership.includes(item.name as string)),
+        `ABI has ${ownership.map(name => `${name}()`).join(' and ')} alongside privileged functions ` +
+          `(${privileged.map(item => item.name).join(', ')}), indicating centralized control.`
+      ));
+    }
+
+    // A payable fallback forwarding arbitrary calls is the shape of a proxy
+    const fallback = abi.find(item => item.type === 'fallback' && item.stateMutability === 'payable');
+    if (fallback && !grouped.has(RiskType.UUPS_PROXY)) {
+      const proxyFunctions = PROXY_FUNCTIONS.filter(name => names.has(name));
+      findings.push(this.createFinding(
+        RiskType.DELEGATECALL_USAGE,
+        [fallback],
+        proxyFunctions.length > 0
+          ? `ABI has a payable fallback and proxy functions (${proxyFunctions.join(', ')}); calls are likely delegated to another contract.`
+          : 'ABI has a payable fallback. Unknown calls and ETH are accepted and may be forwarded to another contract.'
+      ));
+    }
+
+    return findings;
+  }
+
+  private static canonicalType(param: AbiParameter): string {
+    if (param.type.startsWith('tuple')) {
+      const components = (param.components || []).map(c => this.canonicalType(c)).join(',');
+      return `(${components})${param.type.substring('tuple'.length)}`;
+    }
+    return param.type;
+  }
+
+  private static describe(item: AbiItem): string {
+    const inputs = (item.inputs || []).map(p => (p.name ? `${p.type} ${p.name}` : p.type)).join(', ');
+    const mutability = item.stateMutability && item.stateMutability !== 'nonpayable' ? ` ${item.stateMutability}` : '';
+    return item.type === 'function'
+      ? `function ${item.name}(${inputs}) external${mutability}`
+      : `${item.type}() external${mutability}`;
+  }
+
+  private static createFinding(type: RiskType, items: AbiItem[], machineReason: string): RiskFinding {
+    const config = RISK_WEIGHTS[type];
+
+    return {
+      type,
+      severity: config.severity,
+      weight: config.weight,
+      mitigations: [],
+      code_snippet: items.map(item => this.describe(item)).join('\n'),
+      line_number: 0,
+      machine_reason: machineReason,
+      function_name: items[0].name,
+      source: 'ABI',
+    };
+  }
+}
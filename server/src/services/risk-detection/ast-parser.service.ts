@@ -1,169 +1,353 @@
 /**
  * Solidity AST Parser Service
- * Parses Solidity code into analyzable structures
+ * Parses Solidity code into analyzable structures using a grammar-based parser
  */
 
-import { DetectionContext, FunctionInfo, ModifierInfo, VariableInfo } from './detectors/base-detector';
+import { parse as parseSolidity, ParserError } from '@solidity-parser/parser';
+import type {
+  ASTNode,
+  BaseASTNode,
+  ContractDefinition,
+  EventDefinition,
+  FunctionDefinition,
+  ModifierDefinition,
+  SourceUnit,
+  StateVariableDeclaration,
+  StructDefinition,
+  UsingForDeclaration,
+} from '@solidity-parser/parser/dist/src/ast-types';
+import {
+  ContractInfo,
+  ContractKind,
+  DetectionContext,
+  EventInfo,
+  FunctionKind,
+  ModifierInfo,
+  SourceFileInfo,
+  StructInfo,
+  VariableInfo,
+} from './detectors/base-detector';
+import { InheritanceResolverService } from './inheritance-resolver.service';
+import { VirtualFileSystem } from './virtual-file-system';
+import { PreprocessedSource, SourcePreprocessor } from './source-preprocessor';
+
+/**
+ * Raised when source code cannot be parsed by the Solidity grammar
+ */
+export class SolidityParseError extends Error {
+  public line?: number;
+  public column?: number;
+  public filePath?: string;
+
+  constructor(message: string, line?: number, column?: number, filePath?: string) {
+    super(message);
+    this.name = 'SolidityParseError';
+    this.line = line;
+    this.column = column;
+    this.filePath = filePath;
+  }
+}
 
 export class ASTParserService {
   /**
    * Parse Solidity code into detection context
+   * Multi-file projects are parsed starting at the main file and following its imports
    */
-  static parse(code: string): DetectionContext {
-    const lines = code.split('\n');
-    
-    return {
-      code,
-      lines,
-      functions: this.extractFunctions(code, lines),
-      modifiers: this.extractModifiers(code, lines),
-      variables: this.extractVariables(code, lines),
+  static parse(source: string | VirtualFileSystem): DetectionContext {
+    const vfs = VirtualFileSystem.from(source);
+
+    const context: DetectionContext = {
+      code: '',
+      rawCode: '',
+      lines: [],
+      mainFile: vfs.mainFile,
+      files: [],
+      contracts: [],
+      functions: [],
+      modifiers: [],
+      variables: [],
+      events: [],
+      structs: [],
     };
+
+    const queue = [vfs.mainFile];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const filePath = queue.shift() as string;
+      if (visited.has(filePath)) {
+        continue;
+      }
+      visited.add(filePath);
+
+      const code = vfs.read(filePath) || '';
+      const source = SourcePreprocessor.process(code);
+      const file: SourceFileInfo = {
+        path: filePath,
+        code,
+        lines: code.split('\n'),
+        source,
+        imports: [],
+        unresolvedImports: [],
+      };
+      context.files.push(file);
+
+      const ast = this.buildAST(code, filePath);
+      for (const node of ast.children) {
+        switch (node.type) {
+          case 'ImportDirective': {
+            const resolved = vfs.resolveImport(filePath, node.path);
+            if (resolved) {
+              file.imports.push(resolved);
+              queue.push(resolved);
+            } else {
+              file.unresolvedImports.push(node.path);
+            }
+            break;
+          }
+          case 'ContractDefinition':
+            this.collectContract(source, filePath, node, context);
+            break;
+          case 'FunctionDefinition':
+            // Free (file-level) functions
+            this.collectFunction(source, filePath, node, context);
+            break;
+          case 'StructDefinition':
+            context.structs.push(this.toStructInfo(node));
+            break;
+          case 'EventDefinition':
+            context.events.push(this.toEventInfo(code, node));
+            break;
+        }
+      }
+    }
+
+    context.rawCode = context.files.map(f => f.code).join('\n\n');
+    context.code = context.files.map(f => f.source.sanitized).join('\n\n');
+    context.lines = context.rawCode.split('\n');
+
+    InheritanceResolverService.resolve(context);
+
+    return context;
   }
 
   /**
-   * Extract function information
+   * Run the grammar-based parser and normalise its errors
    */
-  private static extractFunctions(code: string, lines: string[]): FunctionInfo[] {
-    const functions: FunctionInfo[] = [];
-    
-    // Regex to match function declarations
-    const functionRegex = /function\s+(\w+)\s*\([^)]*\)\s*(public|external|internal|private)?\s*(view|pure|payable)?\s*([\w\s,]*)\s*(?:returns\s*\([^)]*\))?\s*\{/gi;
-    
-    let match;
-    while ((match = functionRegex.exec(code)) !== null) {
-      const functionName = match[1];
-      const visibility = match[2] || 'public';
-      const startIndex = match.index;
-      
-      // Find line number
-      const startLine = code.substring(0, startIndex).split('\n').length;
-      
-      // Extract modifiers (between visibility and returns/opening brace)
-      const modifiersStr = match[4] || '';
-      const modifiers = modifiersStr
-        .split(/\s+/)
-        .filter(m => m && !['returns', 'return', '{'].includes(m));
-      
-      // Find function body
-      const bodyStart = code.indexOf('{', startIndex);
-      const bodyEnd = this.findMatchingBrace(code, bodyStart);
-      const body = code.substring(bodyStart + 1, bodyEnd);
-      const endLine = code.substring(0, bodyEnd).split('\n').length;
-      
-      // Get full signature
-      const fullSignature = lines.slice(startLine - 1, Math.min(startLine + 2, lines.length))
-        .join('\n')
-        .trim();
-      
-      functions.push({
-        name: functionName,
-        startLine,
-        endLine,
-        visibility,
-        modifiers,
-        body,
-        fullSignature,
-      });
+  private static buildAST(code: string, filePath: string): SourceUnit {
+    try {
+      return parseSolidity(code, { loc: true, range: true });
+    } catch (error) {
+      if (error instanceof ParserError && error.errors.length > 0) {
+        const first = error.errors[0];
+        throw new SolidityParseError(
+          `Solidity syntax error in ${filePath} at line ${first.line}:${first.column}: ${first.message}`,
+          first.line,
+          first.column,
+          filePath
+        );
+      }
+      throw new SolidityParseError(
+        `Unable to parse Solidity source ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        undefined,
+        filePath
+      );
     }
-    
-    return functions;
   }
 
   /**
-   * Extract modifier information
+   * Collect a contract, interface or library and all of its members
    */
-  private static extractModifiers(code: string, lines: string[]): ModifierInfo[] {
-    const modifiers: ModifierInfo[] = [];
-    
-    // Regex to match modifier declarations
-    const modifierRegex = /modifier\s+(\w+)\s*(?:\([^)]*\))?\s*\{/gi;
-    
-    let match;
-    while ((match = modifierRegex.exec(code)) !== null) {
-      const modifierName = match[1];
-      const startIndex = match.index;
-      const lineNumber = code.substring(0, startIndex).split('\n').length;
-      
-      // Find modifier body
-      const bodyStart = code.indexOf('{', startIndex);
-      const bodyEnd = this.findMatchingBrace(code, bodyStart);
-      const body = code.substring(bodyStart + 1, bodyEnd);
-      
-      modifiers.push({
-        name: modifierName,
-        lineNumber,
-        body,
-      });
+  private static collectContract(
+    source: PreprocessedSource,
+    filePath: string,
+    node: ContractDefinition,
+    context: DetectionContext
+  ): void {
+    const contract: ContractInfo = {
+      name: node.name,
+      kind: node.kind as ContractKind,
+      filePath,
+      baseContracts: node.baseContracts.map(base => base.baseName.namePath),
+      linearizedBaseContracts: [node.name],
+      usingLibraries: [],
+      resolvedFunctions: [],
+      functionDeclarations: [],
+      isMostDerived: false,
+      startLine: this.startLine(node),
+      endLine: this.endLine(node),
+    };
+    context.contracts.push(contract);
+
+    const code = source.original;
+
+    for (const sub of node.subNodes as ASTNode[]) {
+      switch (sub.type) {
+        case 'FunctionDefinition':
+          if (this.getFunctionKind(sub) === 'function' && sub.name) {
+            contract.functionDeclarations.push({ name: sub.name, stateMutability: sub.stateMutability });
+          }
+          this.collectFunction(source, filePath, sub, context, node.name);
+          break;
+        case 'ModifierDefinition':
+          context.modifiers.push({ ...this.toModifierInfo(source, sub), contractName: node.name, filePath });
+          break;
+        case 'StateVariableDeclaration':
+          context.variables.push(
+            ...this.toVariableInfos(code, sub).map(v => ({ ...v, contractName: node.name, filePath }))
+          );
+          break;
+        case 'UsingForDeclaration':
+          this.collectUsingFor(sub, contract);
+          break;
+        case 'EventDefinition':
+          context.events.push(this.toEventInfo(code, sub));
+          break;
+        case 'StructDefinition':
+          context.structs.push(this.toStructInfo(sub));
+          break;
+      }
     }
-    
-    return modifiers;
   }
 
   /**
-   * Extract variable information
+   * Extract function information
+   * Functions without a body (interface or abstract declarations) are skipped
    */
-  private static extractVariables(code: string, lines: string[]): VariableInfo[] {
-    const variables: VariableInfo[] = [];
-    
-    // Regex for state variables (simplified)
-    const patterns = [
-      // Simple variables: uint256 public myVar;
-      /^\s*(uint\d*|int\d*|address|bool|string|bytes\d*)\s+(public|private|internal)?\s*(constant)?\s+(\w+)\s*(?:=|;)/gim,
-      // Mappings: mapping(address => uint256) public balances;
-      /^\s*mapping\s*\([^)]+\)\s+(public|private|internal)?\s+(\w+)\s*;/gim,
-    ];
-    
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(code)) !== null) {
-        const lineNumber = code.substring(0, match.index).split('\n').length;
-        
-        // Extract based on capture groups
-        let type, visibility, isConstant, name;
-        
-        if (match[0].includes('mapping')) {
-          visibility = match[1] || 'internal';
-          name = match[2];
-          type = 'mapping';
-          isConstant = false;
-        } else {
-          type = match[1];
-          visibility = match[2] || 'internal';
-          isConstant = match[3] === 'constant';
-          name = match[4];
-        }
-        
-        variables.push({
-          name,
-          type,
-          visibility,
-          lineNumber,
-          isConstant,
-        });
-      }
+  private static collectFunction(
+    source: PreprocessedSource,
+    filePath: string,
+    node: FunctionDefinition,
+    context: DetectionContext,
+    contractName?: string
+  ): void {
+    if (!node.body || !node.range || !node.body.range) {
+      return;
     }
-    
-    return variables;
+
+    const code = source.original;
+    const kind = this.getFunctionKind(node);
+    const [bodyStart, bodyEnd] = node.body.range;
+
+    context.functions.push({
+      name: kind === 'function' ? node.name || '' : kind,
+      kind,
+      contractName,
+      filePath,
+      startLine: this.startLine(node),
+      bodyStartLine: this.startLine(node.body),
+      endLine: this.endLine(node),
+      visibility: node.visibility === 'default' ? 'public' : node.visibility,
+      stateMutability: node.stateMutability,
+      modifiers: node.modifiers.map(mod => mod.name),
+      modifierInvocations: node.modifiers.map(mod => ({
+        name: mod.name,
+        arguments: (mod.arguments || []).map(arg => this.sourceOf(code, arg)),
+      })),
+      parameters: node.parameters.map(param => this.sourceOf(code, param.typeName)),
+      body: source.sanitized.substring(bodyStart + 1, bodyEnd),
+      rawBody: code.substring(bodyStart + 1, bodyEnd),
+      bodyOffset: bodyStart + 1,
+      fullSignature: this.normalizeWhitespace(code.substring(node.range[0], bodyStart)),
+    });
   }
 
   /**
-   * Find matching closing brace
+   * Record libraries attached with `using Library for Type`
    */
-  private static findMatchingBrace(code: string, openIndex: number): number {
-    let depth = 1;
-    let index = openIndex + 1;
-    
-    while (index < code.length && depth > 0) {
-      if (code[index] === '{') {
-        depth++;
-      } else if (code[index] === '}') {
-        depth--;
-      }
-      index++;
+  private static collectUsingFor(node: UsingForDeclaration, contract: ContractInfo): void {
+    if (node.libraryName && !contract.usingLibraries.includes(node.libraryName)) {
+      contract.usingLibraries.push(node.libraryName);
+    }
+  }
+
+  /**
+   * Extract modifier information
+   */
+  private static toModifierInfo(source: PreprocessedSource, node: ModifierDefinition): ModifierInfo {
+    const body = node.body && node.body.range
+      ? source.sanitized.substring(node.body.range[0] + 1, node.body.range[1])
+      : '';
+
+    return {
+      name: node.name,
+      lineNumber: this.startLine(node),
+      body,
+    };
+  }
+
+  /**
+   * Extract state variable information (elementary, mapping, array and user-defined types)
+   */
+  private static toVariableInfos(code: string, node: StateVariableDeclaration): VariableInfo[] {
+    return node.variables.map(variable => ({
+      name: variable.name || '',
+      type: this.normalizeWhitespace(this.sourceOf(code, variable.typeName)),
+      visibility: variable.visibility === 'default' || !variable.visibility
+        ? 'internal'
+        : variable.visibility,
+      lineNumber: this.startLine(variable),
+      isConstant: variable.isDeclaredConst === true,
+      isImmutable: variable.isImmutable === true,
+      initialValue: node.initialValue
+        ? this.normalizeWhitespace(this.sourceOf(code, node.initialValue))
+        : undefined,
+    }));
+  }
+
+  /**
+   * Extract event information
+   */
+  private static toEventInfo(code: string, node: EventDefinition): EventInfo {
+    return {
+      name: node.name,
+      lineNumber: this.startLine(node),
+      parameters: node.parameters.map(param => this.sourceOf(code, param.typeName)),
+    };
+  }
+
+  /**
+   * Extract struct information
+   */
+  private static toStructInfo(node: StructDefinition): StructInfo {
+    return {
+      name: node.name,
+      lineNumber: this.startLine(node),
+      members: node.members.map(member => member.name || ''),
+    };
+  }
+
+  /**
+   * Classify constructors, fallback and receive functions
+   */
+  private static getFunctionKind(node: FunctionDefinition): FunctionKind {
+    if (node.isConstructor) return 'constructor';
+    if (node.isReceiveEther) return 'receive';
+    if (node.isFallback) return 'fallback';
+    return 'function';
+  }
+
+  /**
+   * Original source text of a node (ranges are inclusive)
+   */
+  private static sourceOf(code: string, node: BaseASTNode | null | undefined): string {
+    if (!node || !node.range) {
+      return '';
     }
-    
-    return depth === 0 ? index - 1 : code.length;
+    return code.substring(node.range[0], node.range[1] + 1);
+  }
+
+  private static startLine(node: BaseASTNode): number {
+    return node.loc ? node.loc.start.line : 0;
+  }
+
+  private static endLine(node: BaseASTNode): number {
+    return node.loc ? node.loc.end.line : 0;
+  }
+
+  private static normalizeWhitespace(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
   }
 
   /**
@@ -176,8 +360,8 @@ export class ASTParserService {
       'interface ',
       'library ',
     ];
-    
-    return solidityKeywords.some(keyword => 
+
+    return solidityKeywords.some(keyword =>
       code.toLowerCase().includes(keyword.toLowerCase())
     );
   }
@@ -197,8 +381,8 @@ export class ASTParserService {
     const lines = code.split('\n');
     return lines.filter(line => {
       const trimmed = line.trim();
-      return trimmed.length > 0 && 
-             !trimmed.startsWith('//') && 
+      return trimmed.length > 0 &&
+             !trimmed.startsWith('//') &&
              !trimmed.startsWith('/*') &&
              !trimmed.startsWith('*');
     }).length;
@@ -0,0 +1,232 @@
+/**
+ * Bytecode Analyzer Service
+ * Deterministic risk detection for contracts without verified source
+ *
+ * Without source there are no function names or modifiers, so findings carry
+ * bytecode offsets instead of line numbers and confidence is reduced.
+ */
+
+import { EvmDisassembler, Instruction } from './evm-disassembler';
+import { SelectorResolverService } from './selector-resolver.service';
+import { ScoringAlgorithmService } from '../scoring-algorithm.service';
+import { RiskDetectionResult, RiskFinding, RiskType, RISK_WEIGHTS } from '../../../types/risk.types';
+
+// Bytecode analysis sees opcodes, not intent; scale confidence accordingly
+export const BYTECODE_CONFIDENCE_FACTOR = 0.6;
+
+const OPCODE_RISKS: Array<{ name: string; type: RiskType; reason: string }> = [
+  {
+    name: 'SELFDESTRUCT',
+    type: RiskType.SELFDESTRUCT,
+    reason: 'Bytecode contains SELFDESTRUCT. The contract can be destroyed and its balance sent to an arbitrary address.',
+  },
+  {
+    name: 'DELEGATECALL',
+    type: RiskType.DELEGATECALL_USAGE,
+    reason: 'Bytecode contains DELEGATECALL. External code can run with this contract\'s storage and balance.',
+  },
+  {
+    name: 'CALLCODE',
+    type: RiskType.DELEGATECALL_USAGE,
+    reason: 'Bytecode contains deprecated CALLCODE. External code can run with this contract\'s storage.',
+  },
+  {
+    name: 'ORIGIN',
+    type: RiskType.TX_ORIGIN,
+    reason: 'Bytecode reads ORIGIN (tx.origin). Authorization based on tx.origin is vulnerable to phishing.',
+  },
+];
+
+// keccak256('eip1967.proxy.*') - 1
+export const EIP1967_SLOTS = {
+  implementation: '360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+  admin: 'b53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103',
+  beacon: 'a3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50',
+};
+
+export class BytecodeAnalyzerService {
+  /**
+   * Check whether input looks like runtime bytecode rather than an address or source
+   */
+  static isBytecode(input: string): boolean {
+    const trimmed = input.trim();
+    return /^0x[0-9a-fA-F]+$/.test(trimmed) && trimmed.length > 42 && trimmed.length % 2 === 0;
+  }
+
+  /**
+   * Analyze runtime bytecode
+   */
+  static analyze(bytecode: string): RiskDetectionResult {
+    const instructions = EvmDisassembler.disassemble(bytecode);
+    if (instructions.length === 0) {
+      throw new Error('No runtime bytecode to analyze');
+    }
+
+    const selectors = this.extractSelectors(instructions);
+    const findings = this.detectPrivilegedSelectors(instructions, selectors, [
+      ...this.detectOpcodes(instructions),
+      ...this.detectProxySlots(instructions),
+    ]);
+
+    const result = ScoringAlgorithmService.buildResult(
+      ScoringAlgorithmService.sortBySeverity(findings),
+      {
+        total_functions: selectors.length,
+        successfully_parsed: selectors.length,
+        patterns_checked: OPCODE_RISKS.length + 2,
+        patterns_matched: findings.length,
+      }
+    );
+
+    return {
+      ...result,
+      confidence: Math.round(result.confidence * BYTECODE_CONFIDENCE_FACTOR * 100) / 100,
+      metadata: {
+        ...result.metadata,
+        analysis_mode: 'BYTECODE',
+        function_selectors: selectors,
+        function_signatures: Object.fromEntries(
+          SelectorResolverService.resolveAll(selectors)
+            .filter(resolved => resolved.signatures.length > 0)
+            .map(resolved => [resolved.selector, resolved.signatures])
+        ),
+      },
+    };
+  }
+
+  /**
+   * Function selectors compared in the dispatcher (`PUSH4 <selector> ... EQ`)
+   */
+  static extractSelectors(instructions: Instruction[]): string[] {
+    const selectors = new Set<string>();
+
+    instructions.forEach((instruction, index) => {
+      if (instruction.name !== 'PUSH4' || !instruction.pushData) {
+        return;
+      }
+      const next = instructions.slice(index + 1, index + 3).map(i => i.name);
+      if (next.includes('EQ')) {
+        selectors.add(`0x${instruction.pushData}`);
+      }
+    });
+
+    return Array.from(selectors);
+  }
+
+  /**
+   * One finding per dangerous opcode, located at its first occurrence
+   */
+  private static detectOpcodes(instructions: Instruction[]): RiskFinding[] {
+    const findings: RiskFinding[] = [];
+
+    for (const risk of OPCODE_RISKS) {
+      const matches = instructions.filter(i => i.name === risk.name);
+      if (matches.length === 0) {
+        continue;
+      }
+
+      const occurrences = matches.length > 1 ? ` (${matches.length} occurrences)` : '';
+      findings.push(this.createFinding(
+        risk.type,
+        instructions,
+        matches[0],
+        `${risk.reason}${occurrences}`
+      ));
+    }
+
+    return findings;
+  }
+
+  /**
+   * EIP-1967 storage slots mark an upgradeable proxy; an admin slot means the transparent pattern
+   */
+  private static detectProxySlots(instructions: Instruction[]): RiskFinding[] {
+    const find = (slot: string) => instructions.find(i => i.name === 'PUSH32' && i.pushData === slot);
+    const implementation = find(EIP1967_SLOTS.implementation);
+    const admin = find(EIP1967_SLOTS.admin);
+    const beacon = find(EIP1967_SLOTS.beacon);
+
+    if (admin) {
+      return [this.createFinding(
+        RiskType.TRANSPARENT_PROXY,
+        instructions,
+        admin,
+        'Bytecode uses the EIP-1967 admin slot (transparent proxy). The admin can replace the implementation.'
+      )];
+    }
+
+    if (implementation || beacon) {
+      return [this.createFinding(
+        RiskType.UUPS_PROXY,
+        instructions,
+        (implementation || beacon) as Instruction,
+        `Bytecode uses the EIP-1967 ${implementation ? 'implementation' : 'beacon'} slot. The contract logic is upgradeable.`
+      )];
+    }
+
+    return [];
+  }
+
+  /**
+   * Name opcode findings after a matching privileged selector and report
+   * privileged selectors whose risk no opcode finding covers yet
+   */
+  private static detectPrivilegedSelectors(
+    instructions: Instruction[],
+    selectors: string[],
+    findings: RiskFinding[]
+  ): RiskFinding[] {
+    const result = [...findings];
+
+    for (const privileged of SelectorResolverService.findPrivileged(selectors)) {
+      const existing = result.find(f => f.type === privileged.type);
+      if (existing) {
+        existing.function_name = existing.function_name || privileged.functionName;
+        continue;
+      }
+
+      const dispatch = instructions.find(i => i.name === 'PUSH4' && `0x${i.pushData}` === privileged.selector);
+      if (!dispatch) {
+        continue;
+      }
+
+      const finding = this.createFinding(
+        privileged.type,
+        instructions,
+        dispatch,
+        `Contract exposes ${privileged.signatures.join(' / ')} (${privileged.selector}). ` +
+          'Without source it cannot be verified who may call it.'
+      );
+      finding.function_name = privileged.functionName;
+      result.push(finding);
+    }
+
+    return result;
+  }
+
+  private static createFinding(
+    type: RiskType,
+    instructions: Instruction[],
+    instruction: Instruction,
+    machineReason: string
+  ): RiskFinding {
+    const config = RISK_WEIGHTS[type];
+    const index = instructions.indexOf(instruction);
+    const snippet = instructions
+      .slice(Math.max(0, index - 2), index + 3)
+      .map(i => EvmDisassembler.format(i))
+      .join('\n');
+
+    return {
+      type,
+      severity: config.severity,
+      weight: config.weight,
+      mitigations: [],
+      code_snippet: snippet,
+      line_number: 0,
+      bytecode_offset: instruction.offset,
+      machine_reason: machineReason,
+      source: 'BYTECODE',
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * EVM Disassembler
+ * Decodes runtime bytecode into opcode instructions
+ */
+
+export interface Instruction {
+  offset: number;
+  opcode: number;
+  name: string;
+  // Hex immediate of PUSH1..PUSH32, without 0x
+  pushData?: string;
+}
+
+const OPCODES: Record<number, string> = {
+  0x00: 'STOP', 0x01: 'ADD', 0x02: 'MUL', 0x03: 'SUB', 0x04: 'DIV', 0x05: 'SDIV', 0x06: 'MOD', 0x07: 'SMOD',
+  0x08: 'ADDMOD', 0x09: 'MULMOD', 0x0a: 'EXP', 0x0b: 'SIGNEXTEND',
+  0x10: 'LT', 0x11: 'GT', 0x12: 'SLT', 0x13: 'SGT', 0x14: 'EQ', 0x15: 'ISZERO', 0x16: 'AND', 0x17: 'OR',
+  0x18: 'XOR', 0x19: 'NOT', 0x1a: 'BYTE', 0x1b: 'SHL', 0x1c: 'SHR', 0x1d: 'SAR',
+  0x20: 'KECCAK256',
+  0x30: 'ADDRESS', 0x31: 'BALANCE', 0x32: 'ORIGIN', 0x33: 'CALLER', 0x34: 'CALLVALUE', 0x35: 'CALLDATALOAD',
+  0x36: 'CALLDATASIZE', 0x37: 'CALLDATACOPY', 0x38: 'CODESIZE', 0x39: 'CODECOPY', 0x3a: 'GASPRICE',
+  0x3b: 'EXTCODESIZE', 0x3c: 'EXTCODECOPY', 0x3d: 'RETURNDATASIZE', 0x3e: 'RETURNDATACOPY', 0x3f: 'EXTCODEHASH',
+  0x40: 'BLOCKHASH', 0x41: 'COINBASE', 0x42: 'TIMESTAMP', 0x43: 'NUMBER', 0x44: 'PREVRANDAO', 0x45: 'GASLIMIT',
+  0x46: 'CHAINID', 0x47: 'SELFBALANCE', 0x48: 'BASEFEE', 0x49: 'BLOBHASH', 0x4a: 'BLOBBASEFEE',
+  0x50: 'POP', 0x51: 'MLOAD', 0x52: 'MSTORE', 0x53: 'MSTORE8', 0x54: 'SLOAD', 0x55: 'SSTORE', 0x56: 'JUMP',
+  0x57: 'JUMPI', 0x58: 'PC', 0x59: 'MSIZE', 0x5a: 'GAS', 0x5b: 'JUMPDEST', 0x5c: 'TLOAD', 0x5d: 'TSTORE',
+  0x5e: 'MCOPY', 0x5f: 'PUSH0',
+  0xa0: 'LOG0', 0xa1: 'LOG1', 0xa2: 'LOG2', 0xa3: 'LOG3', 0xa4: 'LOG4',
+  0xf0: 'CREATE', 0xf1: 'CALL', 0xf2: 'CALLCODE', 0xf3: 'RETURN', 0xf4: 'DELEGATECALL', 0xf5: 'CREATE2',
+  0xfa: 'STATICCALL', 0xfd: 'REVERT', 0xfe: 'INVALID', 0xff: 'SELFDESTRUCT',
+};
+
+for (let i = 1; i <= 32; i++) OPCODES[0x5f + i] = `PUSH${i}`;
+for (let i = 1; i <= 16; i++) OPCODES[0x7f + i] = `DUP${i}`;
+for (let i = 1; i <= 16; i++) OPCODES[0x8f + i] = `SWAP${i}`;
+
+export class EvmDisassembler {
+  /**
+   * Normalise hex input and drop the trailing Solidity CBOR metadata
+   */
+  static normalize(bytecode: string): string {
+    const hex = bytecode.trim().replace(/^0x/i, '').toLowerCase();
+    if (!/^[0-9a-f]*$/.test(hex) || hex.length % 2 !== 0) {
+      throw new Error('Bytecode must be an even-length hex string');
+    }
+    return this.stripMetadata(hex);
+  }
+
+  /**
+   * Decode bytecode into instructions
+   */
+  static disassemble(bytecode: string): Instruction[] {
+    const hex = this.normalize(bytecode);
+    const instructions: Instruction[] = [];
+    const length = hex.length / 2;
+    let offset = 0;
+
+    while (offset < length) {
+      const opcode = parseInt(hex.substr(offset * 2, 2), 16);
+      const name = OPCODES[opcode] || `UNKNOWN_0x${opcode.toString(16).padStart(2, '0')}`;
+      const instruction: Instruction = { offset, opcode, name };
+
+      if (opcode >= 0x60 && opcode <= 0x7f) {
+        const size = opcode - 0x5f;
+        instruction.pushData = hex.substr((offset + 1) * 2, size * 2);
+        offset += size;
+      }
+
+      instructions.push(instruction);
+      offset += 1;
+    }
+
+    return instructions;
+  }
+
+  /**
+   * Render an instruction as `0x01a4: PUSH4 0x8da5cb5b`
+   */
+  static format(instruction: Instruction): string {
+    const offset = `0x${instruction.offset.toString(16).padStart(4, '0')}`;
+    return instruction.pushData !== undefined
+      ? `${offset}: ${instruction.name} 0x${instruction.pushData}`
+      : `${offset}: ${instruction.name}`;
+  }
+
+  /**
+   * The last two bytes encode the length of the CBOR metadata section
+   */
+  private static stripMetadata(hex: string): string {
+    if (hex.length < 4) {
+      return hex;
+    }
+    const metadataLength = parseInt(hex.substr(hex.length - 4), 16);
+    const start = hex.length - 4 - metadataLength * 2;
+    // CBOR map header (a1-a5) marks a genuine metadata section
+    if (start > 0 && /^a[1-5]$/.test(hex.substr(start, 2))) {
+      return hex.substring(0, start);
+    }
+    return hex;
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Selector Resolver Service
+ * Maps 4-byte function selectors to signatures using an offline database
+ *
+ * The bundled database covers common token, ownership, fee and proxy
+ * functions. Additional signatures can be loaded from a local JSON file;
+ * nothing is looked up over the network.
+ */
+
+import fs from 'fs';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import bundledSignatures from './signatures.json';
+import { RiskType } from '../../../types/risk.types';
+
+export interface ResolvedSelector {
+  selector: string;
+  // Candidate signatures; more than one means a selector collision
+  signatures: string[];
+}
+
+export interface PrivilegedSelector extends ResolvedSelector {
+  type: RiskType;
+  functionName: string;
+}
+
+// Function names that indicate a privileged action, checked in order
+const PRIVILEGED_FUNCTIONS: Array<{ pattern: RegExp; type: RiskType }> = [
+  { pattern: /^(upgradeTo|upgradeToAndCall|setImplementation)$/, type: RiskType.UUPS_PROXY },
+  { pattern: /^changeAdmin$/, type: RiskType.TRANSPARENT_PROXY },
+  { pattern: /^(mint|mintTo|safeMint|issue)$/, type: RiskType.OWNER_RESTRICTED_MINTING },
+  { pattern: /^burnFrom$/, type: RiskType.BALANCE_MANIPULATION },
+  { pattern: /^(emergencyWithdraw|rescue\w*|recover\w*|sweep)$/, type: RiskType.EMERGENCY_WITHDRAWAL },
+  { pattern: /^withdraw\w*$/, type: RiskType.WITHDRAW_FUNCTION },
+  { pattern: /^(set|update)\w*(Fee|Fees|Tax|Taxes)$/, type: RiskType.ADJUSTABLE_FEES },
+  { pattern: /^(blacklist|addToBlacklist|removeFromBlacklist|setBlacklist|setBots?|addBot)$/, type: RiskType.BLACKLIST_MODIFICATION },
+  { pattern: /^(whitelist|addToWhitelist|removeFromWhitelist|setWhitelist)$/, type: RiskType.WHITELIST_MODIFICATION },
+  { pattern: /^(setMax\w*|removeLimits)$/, type: RiskType.MAX_TX_LIMIT },
+  { pattern: /^(pause|unpause)$/, type: RiskType.PAUSABLE_CONTRACT },
+  { pattern: /^transferOwnership$/, type: RiskType.OWNERSHIP_TRANSFER },
+  { pattern: /^(selfdestruct|kill|destroy)$/, type: RiskType.SELFDESTRUCT },
+];
+
+/**
+ * Raised when a signature database file cannot be read or has the wrong shape
+ */
+export class SignatureDatabaseError extends Error {
+  public filePath: string;
+
+  constructor(filePath: string, message: string) {
+    super(`Invalid signature database ${filePath}: ${message}`);
+    this.name = 'SignatureDatabaseError';
+    this.filePath = filePath;
+  }
+}
+
+export class SelectorResolverService {
+  private static database = new Map<string, string[]>(Object.entries(bundledSignatures));
+
+  /**
+   * Compute the selector of a canonical signature, e.g. `mint(address,uint256)` -> `0x40c10f19`
+   */
+  static selectorOf(signature: string): string {
+    return `0x${bytesToHex(keccak_256(utf8ToBytes(signature.replace(/\s+/g, '')))).slice(0, 8)}`;
+  }
+
+  /**
+   * Candidate signatures for a selector (empty when unknown)
+   */
+  static resolve(selector: string): string[] {
+    return this.database.get(selector.toLowerCase()) || [];
+  }
+
+  /**
+   * Resolve a list of selectors, keeping unknown ones with no signatures
+   */
+  static resolveAll(selectors: string[]): ResolvedSelector[] {
+    return selectors.map(selector => ({ selector, signatures: this.resolve(selector) }));
+  }
+
+  /**
+   * Function name of a signature, e.g. `mint(address,uint256)` -> `mint`
+   */
+  static functionName(signature: string): string {
+    return signature.substring(0, signature.indexOf('('));
+  }
+
+  /**
+   * Risk type of a privileged function name, if any
+   */
+  static classify(functionName: string): RiskType | undefined {
+    return PRIVILEGED_FUNCTIONS.find(p => p.pattern.test(functionName))?.type;
+  }
+
+  /**
+   * Selectors whose known signatures name a privileged function
+   */
+  static findPrivileged(selectors: string[]): PrivilegedSelector[] {
+    const privileged: PrivilegedSelector[] = [];
+
+    for (const resolved of this.resolveAll(selectors)) {
+      for (const signature of resolved.signatures) {
+        const functionName = this.functionName(signature);
+        const type = this.classify(functionName);
+        if (type) {
+          privileged.push({ ...resolved, type, functionName });
+          break;
+        }
+      }
+    }
+
+    return privileged;
+  }
+
+  /**
+   * Add signatures to the database
+   * Selectors are always recomputed, so a wrong mapping cannot be introduced
+   */
+  static addSignatures(signatures: string[]): number {
+    let added = 0;
+
+    for (const signature of signatures) {
+      const canonical = signature.replace(/\s+/g, '');
+      const selector = this.selectorOf(canonical);
+      const existing = this.database.get(selector) || [];
+      if (!existing.includes(canonical)) {
+        this.database.set(selector, [...existing, canonical]);
+        added++;
+      }
+    }
+
+    return added;
+  }
+
+  /**
+   * Load a local JSON database: a list of signatures or a `{ selector: signature(s) }` map
+   * Returns the number of new signatures
+   */
+  static load(filePath: string): number {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new SignatureDatabaseError(filePath, error instanceof Error ? error.message : 'Unable to read file');
+    }
+
+    const signatures = Array.isArray(raw)
+      ? raw
+      : raw !== null && typeof raw === 'object'
+        ? Object.values(raw).flat()
+        : null;
+
+    if (!signatures || signatures.some(s => typeof s !== 'string' || !/^\w+\(.*\)$/.test(s.replace(/\s+/g, '')))) {
+      throw new SignatureDatabaseError(filePath, 'expected a list of signatures like "mint(address,uint256)" or a selector map');
+    }
+
+    return this.addSignatures(signatures as string[]);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Detector Registry
+ * Holds every available detector and decides which ones run
+ */
+
+import config from '../../config';
+import { BaseDetector, DetectorMetadata } from './detectors/base-detector';
+import { BUILTIN_DETECTORS } from './detectors';
+
+export interface RegisteredDetector extends DetectorMetadata {
+  enabled: boolean;
+}
+
+export class DetectorRegistry {
+  private static detectors = new Map<string, BaseDetector>(
+    BUILTIN_DETECTORS.map(detector => [detector.metadata.id, detector])
+  );
+
+  /**
+   * Register a detector
+   * Detector ids must be unique
+   */
+  static register(detector: BaseDetector): void {
+    const { id } = detector.metadata;
+    if (this.detectors.has(id)) {
+      throw new Error(`Detector already registered: ${id}`);
+    }
+    this.detectors.set(id, detector);
+  }
+
+  /**
+   * Remove a detector by id
+   */
+  static unregister(id: string): boolean {
+    return this.detectors.delete(id);
+  }
+
+  /**
+   * Get a detector by id
+   */
+  static get(id: string): BaseDetector | undefined {
+    return this.detectors.get(id);
+  }
+
+  /**
+   * All registered detectors, in registration order
+   */
+  static getAll(): BaseDetector[] {
+    return Array.from(this.detectors.values());
+  }
+
+  /**
+   * Detectors that should run for an analysis
+   */
+  static getEnabled(): BaseDetector[] {
+    return this.getAll().filter(detector => this.isEnabled(detector));
+  }
+
+  /**
+   * Configuration overrides take precedence over the detector's own default
+   */
+  static isEnabled(detector: BaseDetector): boolean {
+    const { id, enabledByDefault } = detector.metadata;
+    if (config.disabledDetectors.includes(id)) {
+      return false;
+    }
+    if (config.enabledDetectors.includes(id)) {
+      return true;
+    }
+    return enabledByDefault;
+  }
+
+  /**
+   * Metadata of every registered detector with its effective state
+   */
+  static describe(): RegisteredDetector[] {
+    return this.getAll().map(detector => ({
+      ...detector.metadata,
+      enabled: this.isEnabled(detector),
+    }));
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Access Control Detector
+ * Detects privileged functions that anyone can call
+ */
+
+import { BaseDetector, DetectionContext, DetectorMetadata, FunctionInfo } from './base-detector';
+import { RiskFinding, RiskType } from '../../../types/risk.types';
+import { identifierPattern } from '../../../utils/regexp';
+
+interface PrivilegedAction {
+  offset: number;
+  description: string;
+}
+
+interface InternalCall {
+  callee: FunctionInfo;
+  // Offset in the public function's body of the call that leads to the callee
+  offset: number;
+}
+
+// Configured fees and their recipients, e.g. `_taxFee`, `sellFees`, `feeRecipient`
+const FEE_NAME = new RegExp(
+  '^[_$]?(?:(?:buy|sell|transfer|liquidity|marketing|dev|team|treasury|tax|total|protocol|swap)_?)?' +
+  '(?:fee|tax)(?:_?(?:rate|percent|percentage|bps|recipient|receiver|wallet|to))?s?$',
+  'i'
+);
+
+// State that only an authorized account should be able to change. Whole names are matched
+// so per-user state (`_owners`, `_tFeeTotal`, `feeGrowthGlobal0X128`) is not taken for configuration
+const PRIVILEGED_VARIABLES: Array<{ pattern: RegExp; label: string; selfService: boolean }> = [
+  {
+    pattern: /^[_$]?(?:pending)?(?:owner|admin|governance|governor|operator)(?:address)?$/i,
+    label: 'ownership',
+    selfService: false,
+  },
+  { pattern: FEE_NAME, label: 'fee', selfService: false },
+  { pattern: /paused$/i, label: 'pause', selfService: false },
+  { pattern: /^[_$]?implementation(?:address)?$/i, label: 'implementation', selfService: false },
+  // Users legitimately change their own balance (deposit, burn); only writes with no
+  // reference to msg.sender at all are privileged
+  { pattern: /supply|^_?cap$/i, label: 'supply', selfService: true },
+  { pattern: /balance/i, label: 'balance', selfService: true },
+];
+
+const PRIVILEGED_CALLS: Array<{ pattern: RegExp; description: string }> = [
+  { pattern: /\bselfdestruct\s*\(/, description: 'calls selfdestruct' },
+  { pattern: /\.delegatecall\s*\(/, description: 'calls delegatecall' },
+];
+
+const SENDER = '(?:msg\\.sender|_msgSender\\(\\s*\\))';
+
+// Mapping keys that make a write per-user rather than global: the caller or a token id
+const PER_USER_KEY = new RegExp(`^\\s*\\[\\s*(?:${SENDER}|_?(?:token)?id)\\s*\\]`, 'i');
+
+// Inline checks that restrict the caller
+const SENDER_CHECKS: RegExp[] = [
+  new RegExp(`${SENDER}\\s*[!=]=`),
+  new RegExp(`[!=]=\\s*${SENDER}`),
+  new RegExp(`\\b(?:require|assert|if)\\s*\\([^;{]*\\[\\s*${SENDER}\\s*\\]`),
+  new RegExp(`\\bhasRole\\s*\\([^;]*${SENDER}`),
+  /\b(?:_checkOwner|_checkRole|_onlyOwner|_requireOwner|_authorize\w*)\s*\(/,
+];
+
+// Modifiers restricting the caller; `initializer` only limits how often a function runs
+export const ACCESS_MODIFIER_NAME = /only|auth|admin|owner|role|restricted|governance/i;
+
+export class AccessControlDetector extends BaseDetector {
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'access-control',
+      name: 'AccessControlDetector',
+      description: 'Public state-changing functions that modify privileged state without access control',
+      riskTypes: [
+        RiskType.UNPROTECTED_PRIVILEGED_FUNCTION,
+      ],
+      patternCount: PRIVILEGED_VARIABLES.length + PRIVILEGED_CALLS.length,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
+  }
+
+  detect(context: DetectionContext): RiskFinding[] {
+    const findings: RiskFinding[] = [];
+
+    const candidates = this.getTargetFunctions(context).filter(func =>
+      func.kind === 'function' &&
+      (func.visibility === 'public' || func.visibility === 'external') &&
+      func.stateMutability !== 'view' &&
+      func.stateMutability !== 'pure'
+    );
+
+    for (const func of candidates) {
+      if (this.hasAccessControl(context, func)) {
+        continue;
+      }
+
+      const actions = this.findPrivilegedActions(context, func);
+      if (actions.length === 0) {
+        continue;
+      }
+
+      const line = this.getLineOfBodyOffset(context, func, actions[0].offset);
+      const lines = this.getFileLines(context, func.filePath);
+      const snippet = [
+        func.fullSignature,
+        this.extractCodeSnippet(lines, line - 1, 0),
+      ].join('\n');
+      const descriptions = Array.from(new Set(actions.map(action => action.description)));
+
+      findings.push(
+        this.createFinding(
+          RiskType.UNPROTECTED_PRIVILEGED_FUNCTION,
+          snippet,
+          line,
+          `${func.name} is ${func.visibility} and ${descriptions.join(', ')} without an access-control modifier or msg.sender check. Any address can call it.`,
+          func.name,
+          undefined,
+          func.contractName,
+          func.filePath
+        )
+      );
+    }
+
+    return findings;
+  }
+
+  /**
+   * Check for an access-control modifier or an inline caller check
+   */
+  private hasAccessControl(context: DetectionContext, func: FunctionInfo): boolean {
+    const guardedByModifier = func.modifiers.some(name => {
+      if (ACCESS_MODIFIER_NAME.test(name)) {
+        return true;
+      }
+      const definition = context.modifiers.find(mod => mod.name === name);
+      return definition !== undefined && SENDER_CHECKS.some(check => check.test(definition.body));
+    });
+
+    return guardedByModifier || SENDER_CHECKS.some(check => check.test(func.body));
+  }
+
+  /**
+   * Writes to privileged state and dangerous calls, in body order, including those made
+   * by unguarded internal functions it calls (e.g. `mint` delegating to `_mint`)
+   */
+  private findPrivilegedActions(context: DetectionContext, func: FunctionInfo): PrivilegedAction[] {
+    const calls = this.findInternalCalls(context, func);
+    const referencesSender = [func, ...calls.map(call => call.callee)].some(f => new RegExp(SENDER).test(f.body));
+
+    const actions = this.findDirectActions(context, func, referencesSender);
+    for (const { callee, offset } of calls) {
+      for (const action of this.findDirectActions(context, callee, referencesSender)) {
+        actions.push({ offset, description: `${action.description} through ${callee.name}` });
+      }
+    }
+
+    return actions.sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * Internal and private functions of the same contract reached from `func`, transitively.
+   * Callees with their own access control are not followed
+   */
+  private findInternalCalls(context: DetectionContext, func: FunctionInfo): InternalCall[] {
+    const target = this.getTargetContracts(context).find(c => c.resolvedFunctions.includes(func));
+    const internal = (target ? target.resolvedFunctions : this.getTargetFunctions(context)).filter(f =>
+      f.kind === 'function' && (f.visibility === 'internal' || f.visibility === 'private')
+    );
+
+    const calls: InternalCall[] = [];
+    const visited = new Set<FunctionInfo>([func]);
+    const queue: Array<{ caller: FunctionInfo; offset?: number }> = [{ caller: func }];
+
+    while (queue.length > 0) {
+      const { caller, offset } = queue.shift() as { caller: FunctionInfo; offset?: number };
+      for (const callee of internal) {
+        if (visited.has(callee)) {
+          continue;
+        }
+        const call = new RegExp(`${identifierPattern(callee.name)}\\s*\\(`).exec(caller.body);
+        if (!call) {
+          continue;
+        }
+        visited.add(callee);
+        if (this.hasAccessControl(context, callee)) {
+          continue;
+        }
+        const rootOffset = offset ?? call.index;
+        calls.push({ callee, offset: rootOffset });
+        queue.push({ caller: callee, offset: rootOffset });
+      }
+    }
+
+    return calls;
+  }
+
+  /**
+   * Privileged writes and calls in the function's own body
+   */
+  private findDirectActions(context: DetectionContext, func: FunctionInfo, referencesSender: boolean): PrivilegedAction[] {
+    const actions: PrivilegedAction[] = [];
+
+    for (const variable of this.getStateVariables(context, func)) {
+      const category = PRIVILEGED_VARIABLES.find(c => c.pattern.test(variable.name));
+      if (!category || (category.selfService && referencesSender)) {
+        continue;
+      }
+
+      for (const offset of this.findWrites(func, variable.name)) {
+        if (PER_USER_KEY.test(func.body.substring(offset + variable.name.length))) {
+          continue;
+        }
+        actions.push({ offset, description: `writes ${category.label} variable '${variable.name}'` });
+      }
+    }
+
+    for (const { pattern, description } of PRIVILEGED_CALLS) {
+      const match = pattern.exec(func.body);
+      if (match) {
+        actions.push({ offset: match.index, description });
+      }
+    }
+
+    return actions;
+  }
+}
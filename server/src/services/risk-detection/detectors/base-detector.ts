@@ -3,40 +3,136 @@
  * All risk detectors extend this class
  */
 
-import { RiskFinding, RiskType, Severity, RISK_WEIGHTS } from '../../types/risk.types';
+import { RiskFinding, RiskType, RISK_WEIGHTS } from '../../../types/risk.types';
+import { InheritanceResolverService } from '../inheritance-resolver.service';
+import { PreprocessedSource, SourcePreprocessor } from '../source-preprocessor';
+import { escapeRegExp, identifierPattern } from '../../../utils/regexp';
 
 export interface DetectionContext {
+  // Combined source of every parsed file, for whole-project pattern checks.
+  // `code` has comments and string contents masked; `rawCode`/`lines` are the
+  // original text. Line lookups must go through `files` since line numbers are per file.
   code: string;
+  rawCode: string;
   lines: string[];
+  mainFile: string;
+  files: SourceFileInfo[];
+  contracts: ContractInfo[];
   functions: FunctionInfo[];
   modifiers: ModifierInfo[];
   variables: VariableInfo[];
+  events: EventInfo[];
+  structs: StructInfo[];
+}
+
+export interface SourceFileInfo {
+  path: string;
+  code: string;
+  lines: string[];
+  source: PreprocessedSource;
+  imports: string[];
+  unresolvedImports: string[];
+}
+
+export type ContractKind = 'contract' | 'abstract' | 'interface' | 'library';
+
+export type FunctionKind = 'function' | 'constructor' | 'fallback' | 'receive';
+
+export interface ContractInfo {
+  name: string;
+  kind: ContractKind;
+  filePath: string;
+  baseContracts: string[];
+  linearizedBaseContracts: string[];
+  usingLibraries: string[];
+  resolvedFunctions: FunctionInfo[];
+  // Every declared function, including bodiless interface and abstract declarations
+  functionDeclarations: FunctionDeclarationInfo[];
+  isMostDerived: boolean;
+  startLine: number;
+  endLine: number;
+}
+
+export interface FunctionDeclarationInfo {
+  name: string;
+  stateMutability: string | null;
 }
 
 export interface FunctionInfo {
   name: string;
+  kind: FunctionKind;
+  contractName?: string;
+  filePath: string;
   startLine: number;
+  bodyStartLine: number;
   endLine: number;
   visibility: string;
+  stateMutability: string | null;
   modifiers: string[];
+  modifierInvocations: ModifierInvocationInfo[];
+  parameters: string[];
+  // Comment- and string-masked body used for pattern matching
   body: string;
+  // Original body text, for display
+  rawBody: string;
+  // Offset of the first body character in the file
+  bodyOffset: number;
   fullSignature: string;
 }
 
+export interface ModifierInvocationInfo {
+  name: string;
+  arguments: string[];
+}
+
 export interface ModifierInfo {
   name: string;
+  contractName?: string;
+  filePath?: string;
   lineNumber: number;
   body: string;
 }
 
 export interface VariableInfo {
   name: string;
+  contractName?: string;
+  filePath?: string;
   type: string;
   visibility: string;
   lineNumber: number;
   isConstant: boolean;
+  isImmutable: boolean;
+  // Source of the declared initializer, if any
+  initialValue?: string;
+}
+
+export interface EventInfo {
+  name: string;
+  lineNumber: number;
+  parameters: string[];
+}
+
+export interface StructInfo {
+  name: string;
+  lineNumber: number;
+  members: string[];
+}
+
+export interface DetectorMetadata {
+  // Stable identifier used by the registry and configuration
+  id: string;
+  name: string;
+  description: string;
+  riskTypes: RiskType[];
+  // Number of patterns checked, used for confidence scoring
+  patternCount: number;
+  version: string;
+  enabledByDefault: boolean;
 }
 
+// Optional index/member access followed by an assignment or increment, e.g. `[a][b].x += `
+const ASSIGNMENT_SUFFIX = '(?:\\s*\\[(?:[^\\[\\]]|\\[[^\\[\\]]*\\])*\\])*(?:\\s*\\.\\s*\\w+)*\\s*(?:[-+*/%|&^]?=(?!=)|\\+\\+|--)';
+
 export abstract class BaseDetector {
   /**
    * Detect risks in the contract
@@ -45,10 +141,17 @@ export abstract class BaseDetector {
    */
   abstract detect(context: DetectionContext): RiskFinding[];
 
+  /**
+   * Describe the detector for the registry
+   */
+  abstract get metadata(): DetectorMetadata;
+
   /**
    * Get detector name
    */
-  abstract get name(): string;
+  get name(): string {
+    return this.metadata.name;
+  }
 
   /**
    * Create a risk finding
@@ -59,7 +162,9 @@ export abstract class BaseDetector {
     lineNumber: number,
     machineReason: string,
     functionName?: string,
-    modifierName?: string
+    modifierName?: string,
+    contractName?: string,
+    filePath?: string
   ): RiskFinding {
     const config = RISK_WEIGHTS[type];
     
@@ -67,11 +172,14 @@ export abstract class BaseDetector {
       type,
       severity: config.severity,
       weight: config.weight,
+      mitigations: [],
       code_snippet: this.cleanCodeSnippet(codeSnippet),
       line_number: lineNumber,
       machine_reason: machineReason,
       function_name: functionName,
       modifier_name: modifierName,
+      contract_name: contractName,
+      file_path: filePath,
     };
   }
 
@@ -100,6 +208,41 @@ export abstract class BaseDetector {
     return lines.slice(start, end).join('\n').trim();
   }
 
+  /**
+   * Get the source lines of a file (defaults to the main file)
+   */
+  protected getFileLines(context: DetectionContext, filePath: string = context.mainFile): string[] {
+    const file = context.files.find(f => f.path === filePath);
+    return file ? file.lines : context.lines;
+  }
+
+  /**
+   * Find the line (1-based) of the first match of a pattern in a function body
+   * Matching runs on the masked body; returns the function start line if nothing matches
+   */
+  protected findLineInFunction(context: DetectionContext, func: FunctionInfo, pattern: RegExp): number {
+    const match = new RegExp(pattern.source, pattern.flags.replace('g', '')).exec(func.body);
+    return match ? this.getLineOfBodyOffset(context, func, match.index) : func.startLine;
+  }
+
+  /**
+   * Map an offset within a function body back to its line in the original file
+   */
+  protected getLineOfBodyOffset(context: DetectionContext, func: FunctionInfo, offset: number): number {
+    return BaseDetector.lineOfBodyOffset(context, func, offset);
+  }
+
+  /**
+   * Shared by services outside the detector hierarchy, e.g. the mitigation analyzer
+   */
+  static lineOfBodyOffset(context: DetectionContext, func: FunctionInfo, offset: number): number {
+    const file = context.files.find(f => f.path === func.filePath);
+    if (!file) {
+      return func.startLine;
+    }
+    return SourcePreprocessor.offsetToLine(file.source, func.bodyOffset + offset);
+  }
+
   /**
    * Clean code snippet for display
    */
@@ -115,8 +258,12 @@ export abstract class BaseDetector {
   /**
    * Find function by name
    */
-  protected findFunction(context: DetectionContext, name: string): FunctionInfo | undefined {
-    return context.functions.find(f => 
+  protected findFunction(
+    context: DetectionContext,
+    name: string,
+    functions: FunctionInfo[] = context.functions
+  ): FunctionInfo | undefined {
+    return functions.find(f => 
       f.name.toLowerCase() === name.toLowerCase()
     );
   }
@@ -124,8 +271,60 @@ export abstract class BaseDetector {
   /**
    * Find functions matching a pattern
    */
-  protected findFunctionsMatching(context: DetectionContext, pattern: RegExp): FunctionInfo[] {
-    return context.functions.filter(f => pattern.test(f.name));
+  protected findFunctionsMatching(
+    context: DetectionContext,
+    pattern: RegExp,
+    functions: FunctionInfo[] = context.functions
+  ): FunctionInfo[] {
+    return functions.filter(f => pattern.test(f.name));
+  }
+
+  /**
+   * Functions of the most-derived contracts after inheritance resolution
+   * (interfaces and unused libraries excluded)
+   */
+  protected getTargetFunctions(context: DetectionContext): FunctionInfo[] {
+    return InheritanceResolverService.getTargetFunctions(context);
+  }
+
+  /**
+   * Get the most-derived contracts in the source
+   */
+  protected getTargetContracts(context: DetectionContext): ContractInfo[] {
+    return context.contracts.filter(c => c.isMostDerived);
+  }
+
+  /**
+   * Check if any most-derived contract inherits from a base matching the pattern
+   */
+  protected inheritsFrom(context: DetectionContext, pattern: RegExp): boolean {
+    return this.getTargetContracts(context).some(contract =>
+      contract.linearizedBaseContracts.some(name => pattern.test(name))
+    );
+  }
+
+  /**
+   * State variables visible to a function through its contract's inheritance chain
+   */
+  protected getStateVariables(context: DetectionContext, func: FunctionInfo): VariableInfo[] {
+    const contract = context.contracts.find(c => c.name === func.contractName);
+    const scope = contract ? contract.linearizedBaseContracts : [];
+    return context.variables.filter(v => v.contractName !== undefined && scope.includes(v.contractName));
+  }
+
+  /**
+   * Body offsets where a variable is assigned, incremented or deleted
+   */
+  protected findWrites(func: FunctionInfo, name: string): number[] {
+    const assignment = new RegExp(`^${escapeRegExp(name)}${ASSIGNMENT_SUFFIX}`);
+    const prefixed = /(?:\+\+|--|\bdelete\s+)\s*$/;
+
+    return Array.from(func.body.matchAll(new RegExp(identifierPattern(name), 'g')))
+      .map(match => match.index as number)
+      .filter(offset =>
+        assignment.test(func.body.substring(offset)) ||
+        prefixed.test(func.body.substring(Math.max(0, offset - 8), offset))
+      );
   }
 
   /**
@@ -3,12 +3,24 @@
  * Detects usage of dangerous Solidity functions
  */
 
-import { BaseDetector, DetectionContext } from './base-detector';
+import { BaseDetector, DetectionContext, DetectorMetadata } from './base-detector';
 import { RiskFinding, RiskType } from '../../../types/risk.types';
 
 export class DangerousFunctionsDetector extends BaseDetector {
-  get name(): string {
-    return 'DangerousFunctionsDetector';
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'dangerous-functions',
+      name: 'DangerousFunctionsDetector',
+      description: 'selfdestruct, tx.origin and unchecked low-level calls',
+      riskTypes: [
+        RiskType.SELFDESTRUCT,
+        RiskType.TX_ORIGIN,
+        RiskType.UNCHECKED_CALL,
+      ],
+      patternCount: 3,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
   }
 
   detect(context: DetectionContext): RiskFinding[] {
@@ -46,20 +58,19 @@ export class DangerousFunctionsDetector extends BaseDetector {
 
     if (functionWithSelfdestruct) {
       // Find exact line
-      const lineIndex = context.lines.findIndex(line => 
-        line.includes('selfdestruct') &&
-        context.lines.indexOf(line) >= functionWithSelfdestruct.startLine - 1 &&
-        context.lines.indexOf(line) <= functionWithSelfdestruct.endLine - 1
-      );
-
-      const snippet = this.extractCodeSnippet(context.lines, lineIndex, 1);
+      const line = this.findLineInFunction(context, functionWithSelfdestruct, /selfdestruct/);
+      const lines = this.getFileLines(context, functionWithSelfdestruct.filePath);
+      const snippet = this.extractCodeSnippet(lines, line - 1, 1);
 
       return this.createFinding(
         RiskType.SELFDESTRUCT,
         snippet,
-        lineIndex + 1,
+        line,
         'selfdestruct allows complete contract destruction, permanently removing code and sending all funds to arbitrary address.',
-        functionWithSelfdestruct.name
+        functionWithSelfdestruct.name,
+        undefined,
+        functionWithSelfdestruct.contractName,
+        functionWithSelfdestruct.filePath
       );
     }
 
@@ -83,21 +94,20 @@ export class DangerousFunctionsDetector extends BaseDetector {
 
     for (const func of functionsWithTxOrigin) {
       // Find exact line
-      const lineIndex = context.lines.findIndex(line => 
-        line.includes('tx.origin') &&
-        context.lines.indexOf(line) >= func.startLine - 1 &&
-        context.lines.indexOf(line) <= func.endLine - 1
-      );
-
-      const snippet = this.extractCodeSnippet(context.lines, lineIndex, 1);
+      const line = this.findLineInFunction(context, func, /tx\.origin/);
+      const lines = this.getFileLines(context, func.filePath);
+      const snippet = this.extractCodeSnippet(lines, line - 1, 1);
 
       findings.push(
         this.createFinding(
           RiskType.TX_ORIGIN,
           snippet,
-          lineIndex + 1,
+          line,
           'tx.origin usage detected. Vulnerable to phishing attacks where malicious contracts trick users into authorizing transactions.',
-          func.name
+          func.name,
+          undefined,
+          func.contractName,
+          func.filePath
         )
       );
     }
@@ -134,14 +144,15 @@ export class DangerousFunctionsDetector extends BaseDetector {
 
           if (!isChecked) {
             hasUncheckedCall = true;
-            uncheckedLine = func.startLine + i;
+            uncheckedLine = func.bodyStartLine + i;
             break;
           }
         }
       }
 
       if (hasUncheckedCall && uncheckedLine !== -1) {
-        const snippet = this.extractCodeSnippet(context.lines, uncheckedLine - 1, 1);
+        const lines = this.getFileLines(context, func.filePath);
+        const snippet = this.extractCodeSnippet(lines, uncheckedLine - 1, 1);
 
         findings.push(
           this.createFinding(
@@ -149,7 +160,10 @@ export class DangerousFunctionsDetector extends BaseDetector {
             snippet,
             uncheckedLine,
             'Low-level call without return value check. Silent failures can lead to unexpected behavior.',
-            func.name
+            func.name,
+            undefined,
+            func.contractName,
+            func.filePath
           )
         );
       }
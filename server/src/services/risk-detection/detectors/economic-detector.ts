@@ -3,12 +3,29 @@
  * Detects economic risks like fee manipulation, blacklists, etc.
  */
 
-import { BaseDetector, DetectionContext } from './base-detector';
+import { BaseDetector, DetectionContext, DetectorMetadata } from './base-detector';
 import { RiskFinding, RiskType } from '../../../types/risk.types';
 
+// Whole mapping names such as `blacklist`, `_isBlacklisted` or `whitelisted`
+const BLACKLIST_MAPPING = /^_?(is)?blacklist(ed|s)?$/i;
+const WHITELIST_MAPPING = /^_?(is)?whitelist(ed|s)?$/i;
+
 export class EconomicDetector extends BaseDetector {
-  get name(): string {
-    return 'EconomicDetector';
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'economic',
+      name: 'EconomicDetector',
+      description: 'Adjustable fees, blacklists, whitelists and transaction limits',
+      riskTypes: [
+        RiskType.ADJUSTABLE_FEES,
+        RiskType.BLACKLIST_MODIFICATION,
+        RiskType.WHITELIST_MODIFICATION,
+        RiskType.MAX_TX_LIMIT,
+      ],
+      patternCount: 4,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
   }
 
   detect(context: DetectionContext): RiskFinding[] {
@@ -67,7 +84,9 @@ export class EconomicDetector extends BaseDetector {
               func.startLine,
               'Owner can modify fees/taxes at any time. No caps or timelocks detected. Users may face unexpected costs.',
               func.name,
-              func.modifiers.join(', ')
+              func.modifiers.join(', '),
+              func.contractName,
+              func.filePath
             )
           );
         }
@@ -85,7 +104,7 @@ export class EconomicDetector extends BaseDetector {
     const hasBlacklist = this.hasVariable(context, 'blacklist') ||
                         this.hasVariable(context, 'blacklisted') ||
                         this.hasVariable(context, '_blacklist') ||
-                        context.code.includes('mapping') && context.code.includes('blacklist');
+                        this.hasMapping(context, BLACKLIST_MAPPING);
 
     if (!hasBlacklist) {
       return null;
@@ -104,7 +123,9 @@ export class EconomicDetector extends BaseDetector {
         addFunction.startLine,
         'Owner can blacklist addresses, preventing them from transferring tokens or interacting with contract.',
         addFunction.name,
-        addFunction.modifiers.join(', ')
+        addFunction.modifiers.join(', '),
+        addFunction.contractName,
+        addFunction.filePath
       );
     }
 
@@ -119,7 +140,7 @@ export class EconomicDetector extends BaseDetector {
     const hasWhitelist = this.hasVariable(context, 'whitelist') ||
                         this.hasVariable(context, 'whitelisted') ||
                         this.hasVariable(context, '_whitelist') ||
-                        context.code.includes('mapping') && context.code.includes('whitelist');
+                        this.hasMapping(context, WHITELIST_MAPPING);
 
     if (!hasWhitelist) {
       return null;
@@ -138,7 +159,9 @@ export class EconomicDetector extends BaseDetector {
         addFunction.startLine,
         'Owner controls whitelist access. Can restrict who can interact with contract.',
         addFunction.name,
-        addFunction.modifiers.join(', ')
+        addFunction.modifiers.join(', '),
+        addFunction.contractName,
+        addFunction.filePath
       );
     }
 
@@ -170,10 +193,19 @@ export class EconomicDetector extends BaseDetector {
         setterFunc.startLine,
         'Owner can modify maximum transaction amount, potentially restricting user transactions.',
         setterFunc.name,
-        setterFunc.modifiers.join(', ')
+        setterFunc.modifiers.join(', '),
+        setterFunc.contractName,
+        setterFunc.filePath
       );
     }
 
     return null;
   }
+
+  /**
+   * Check for a mapping state variable whose whole name matches
+   */
+  private hasMapping(context: DetectionContext, pattern: RegExp): boolean {
+    return context.variables.some(v => v.type.startsWith('mapping') && pattern.test(v.name));
+  }
 }
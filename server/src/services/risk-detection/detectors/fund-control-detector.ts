@@ -3,12 +3,24 @@
  * Detects risks related to fund withdrawal and balance manipulation
  */
 
-import { BaseDetector, DetectionContext } from './base-detector';
+import { BaseDetector, DetectionContext, DetectorMetadata } from './base-detector';
 import { RiskFinding, RiskType } from '../../../types/risk.types';
 
 export class FundControlDetector extends BaseDetector {
-  get name(): string {
-    return 'FundControlDetector';
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'fund-control',
+      name: 'FundControlDetector',
+      description: 'Withdrawal functions and direct balance manipulation',
+      riskTypes: [
+        RiskType.WITHDRAW_FUNCTION,
+        RiskType.EMERGENCY_WITHDRAWAL,
+        RiskType.BALANCE_MANIPULATION,
+      ],
+      patternCount: 6,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
   }
 
   detect(context: DetectionContext): RiskFinding[] {
@@ -66,7 +78,9 @@ export class FundControlDetector extends BaseDetector {
               func.startLine,
               'Owner-controlled withdrawal function detected. Owner can withdraw user funds at any time.',
               func.name,
-              func.modifiers.join(', ')
+              func.modifiers.join(', '),
+              func.contractName,
+              func.filePath
             )
           );
         }
@@ -97,7 +111,9 @@ export class FundControlDetector extends BaseDetector {
             func.startLine,
             'Emergency withdrawal function allows draining all funds without timelock or safeguards.',
             func.name,
-            func.modifiers.join(', ')
+            func.modifiers.join(', '),
+            func.contractName,
+            func.filePath
           )
         );
       }
@@ -134,7 +150,9 @@ export class FundControlDetector extends BaseDetector {
             func.startLine,
             'Direct balance manipulation detected. Privileged address can arbitrarily modify user balances.',
             func.name,
-            func.modifiers.join(', ')
+            func.modifiers.join(', '),
+            func.contractName,
+            func.filePath
           )
         );
       }
@@ -0,0 +1,270 @@
+/**
+ * Honeypot Detector
+ * Detects transfer-path conditions that can stop holders from selling
+ */
+
+import { BaseDetector, DetectionContext, DetectorMetadata, FunctionInfo, VariableInfo } from './base-detector';
+import { RiskFinding, RiskType } from '../../../types/risk.types';
+import { identifierPattern } from '../../../utils/regexp';
+
+interface Condition {
+  keyword: 'require' | 'if';
+  text: string;
+  // For `if`, the statement or block executed when the condition holds
+  branch: string;
+  offset: number;
+}
+
+interface SellRestriction {
+  key: string;
+  offset: number;
+  reason: string;
+}
+
+const TRANSFER_PATH = /^_?(transfer|transferFrom|_transfer|_update|_beforeTokenTransfer|_afterTokenTransfer|_tokenTransfer)$/i;
+const RECIPIENT = /\b(to|_to|recipient|receiver|dst)\b/;
+const PAIR_VARIABLE = /pair|amm/i;
+const TRADING_FLAG = /trading|launched|tradeable|swapenabled/i;
+const COOLDOWN_VARIABLE = /cooldown|last\w*(tx|trade|transfer|sell|buy)|holderlast/i;
+const SELL_LIMIT_VARIABLE = /sell|sniper|bot/i;
+const FEE_VARIABLE = /\b\w*(fee|tax)\w*\b/i;
+const OWNER_GUARD = /only|owner|admin|auth/i;
+
+export class HoneypotDetector extends BaseDetector {
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'honeypot',
+      name: 'HoneypotDetector',
+      description: 'Transfer logic that blocks or heavily restricts selling to the liquidity pair',
+      riskTypes: [
+        RiskType.HONEYPOT,
+      ],
+      patternCount: 5,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
+  }
+
+  detect(context: DetectionContext): RiskFinding[] {
+    const findings: RiskFinding[] = [];
+    const seen = new Set<string>();
+
+    for (const func of this.getTransferPath(context)) {
+      const variables = this.getStateVariables(context, func);
+
+      for (const restriction of this.findSellRestrictions(context, func, variables)) {
+        if (seen.has(restriction.key)) {
+          continue;
+        }
+        seen.add(restriction.key);
+
+        const line = this.getLineOfBodyOffset(context, func, restriction.offset);
+        const lines = this.getFileLines(context, func.filePath);
+
+        findings.push(
+          this.createFinding(
+            RiskType.HONEYPOT,
+            this.extractCodeSnippet(lines, line - 1, 1),
+            line,
+            `${restriction.reason} Holders may be unable to sell after buying.`,
+            func.name,
+            undefined,
+            func.contractName,
+            func.filePath
+          )
+        );
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Transfer functions plus the internal functions they call directly
+   */
+  private getTransferPath(context: DetectionContext): FunctionInfo[] {
+    const functions = this.getTargetFunctions(context).filter(f =>
+      f.kind === 'function' && f.stateMutability !== 'pure'
+    );
+    const roots = functions.filter(f => TRANSFER_PATH.test(f.name));
+    const callees = functions.filter(f =>
+      !roots.includes(f) &&
+      (f.visibility === 'internal' || f.visibility === 'private') &&
+      roots.some(root => new RegExp(`${identifierPattern(f.name)}\\s*\\(`).test(root.body))
+    );
+    return [...roots, ...callees];
+  }
+
+  /**
+   * Classify each require/if in a transfer-path function
+   */
+  private findSellRestrictions(
+    context: DetectionContext,
+    func: FunctionInfo,
+    variables: VariableInfo[]
+  ): SellRestriction[] {
+    const restrictions: SellRestriction[] = [];
+    const pairs = variables.filter(v => PAIR_VARIABLE.test(v.name)).map(v => v.name);
+    const mentions = (text: string, names: string[]) => names.find(name => new RegExp(identifierPattern(name)).test(text));
+
+    for (const condition of this.getConditions(func.body)) {
+      const pair = mentions(condition.text, pairs);
+      const isSell = pair !== undefined && RECIPIENT.test(condition.text);
+
+      // require(to != pair) or if (to == pair) revert
+      if (isSell && condition.keyword === 'require' && /!=/.test(condition.text)) {
+        restrictions.push({ key: `block:${pair}`, offset: condition.offset, reason: `Transfers to the pair '${pair}' (sells) are rejected.` });
+        continue;
+      }
+
+      if (isSell && condition.keyword === 'if' && /==|\[/.test(condition.text)) {
+        if (/\brevert\b/.test(condition.branch)) {
+          restrictions.push({ key: `block:${pair}`, offset: condition.offset, reason: `Transfers to the pair '${pair}' (sells) revert.` });
+          continue;
+        }
+
+        const inner = /\brequire\s*\(/.exec(condition.branch);
+        if (inner) {
+          const text = this.normalize(this.extractBalanced(condition.branch, inner.index + inner[0].length - 1));
+          restrictions.push({ key: `sell-require:${text}`, offset: condition.offset, reason: `Sells to '${pair}' must satisfy '${text}'.` });
+          continue;
+        }
+
+        const fee = FEE_VARIABLE.exec(condition.branch);
+        const feeVariable = fee ? variables.find(v => v.name === fee[0]) : undefined;
+        if (feeVariable && this.isUncappedOwnerSetting(context, feeVariable.name)) {
+          restrictions.push({
+            key: `tax:${feeVariable.name}`,
+            offset: condition.offset,
+            reason: `Sells to '${pair}' are taxed by '${feeVariable.name}', which the owner can raise without a cap.`,
+          });
+          continue;
+        }
+      }
+
+      const flag = variables.find(v => v.type === 'bool' && TRADING_FLAG.test(v.name) && mentions(condition.text, [v.name]));
+      if (flag) {
+        const writers = this.getWriters(context, flag.name);
+        if (writers.length === 0) {
+          if (this.startsFalse(context, flag)) {
+            restrictions.push({ key: `flag:${flag.name}`, offset: condition.offset, reason: `Transfers require '${flag.name}', which starts false and no function can change.` });
+          }
+        } else if (writers.every(w => this.isOwnerOnly(w))) {
+          restrictions.push({
+            key: `flag:${flag.name}`,
+            offset: condition.offset,
+            reason: `Transfers require '${flag.name}', which only the owner can toggle (${writers.map(w => w.name).join(', ')}).`,
+          });
+        }
+        continue;
+      }
+
+      const cooldown = variables.find(v => COOLDOWN_VARIABLE.test(v.name) && mentions(condition.text, [v.name]));
+      if (cooldown && /block\.timestamp|\bnow\b|block\.number/.test(condition.text + condition.branch)) {
+        restrictions.push({ key: `cooldown:${cooldown.name}`, offset: condition.offset, reason: `Transfers enforce a cooldown through '${cooldown.name}'.` });
+        continue;
+      }
+
+      const limit = variables.find(v =>
+        v.type.startsWith('mapping') && SELL_LIMIT_VARIABLE.test(v.name) && mentions(condition.text, [v.name])
+      );
+      if (limit) {
+        restrictions.push({ key: `limit:${limit.name}`, offset: condition.offset, reason: `Transfers are restricted per address by '${limit.name}'.` });
+      }
+    }
+
+    return restrictions;
+  }
+
+  /**
+   * Functions other than the constructor that write a state variable
+   */
+  private getWriters(context: DetectionContext, name: string): FunctionInfo[] {
+    return this.getTargetFunctions(context).filter(f =>
+      f.kind !== 'constructor' && this.findWrites(f, name).length > 0
+    );
+  }
+
+  /**
+   * Whether the initializer, then any constructor assignment, leaves a flag false or unset.
+   * Non-literal assignments (e.g. a constructor argument) are given the benefit of the doubt
+   */
+  private startsFalse(context: DetectionContext, flag: VariableInfo): boolean {
+    let value = flag.initialValue;
+
+    for (const constructor of this.getTargetFunctions(context).filter(f => f.kind === 'constructor')) {
+      for (const offset of this.findWrites(constructor, flag.name)) {
+        const assigned = /^\s*=\s*([^;]+);/.exec(constructor.body.substring(offset + flag.name.length));
+        value = assigned ? assigned[1].trim() : 'false';
+      }
+    }
+
+    return value === undefined || value === 'false';
+  }
+
+  private isOwnerOnly(func: FunctionInfo): boolean {
+    return func.visibility === 'internal' ||
+      func.visibility === 'private' ||
+      func.modifiers.some(mod => OWNER_GUARD.test(mod)) ||
+      /msg\.sender\s*==|==\s*msg\.sender/.test(func.body);
+  }
+
+  /**
+   * A fee the owner can set without a `require(... <= ...)` bound
+   */
+  private isUncappedOwnerSetting(context: DetectionContext, name: string): boolean {
+    const writers = this.getWriters(context, name).filter(w => w.visibility === 'public' || w.visibility === 'external');
+    return writers.some(w => this.isOwnerOnly(w) && !/\brequire\s*\([^;]*(<=|<)/.test(w.body));
+  }
+
+  /**
+   * All require(...) and if (...) conditions in a body
+   */
+  private getConditions(body: string): Condition[] {
+    const conditions: Condition[] = [];
+
+    for (const match of body.matchAll(/\b(require|if)\s*\(/g)) {
+      const offset = match.index as number;
+      const open = offset + match[0].length - 1;
+      const text = this.extractBalanced(body, open);
+      let branch = '';
+
+      if (match[1] === 'if') {
+        const rest = body.substring(open + text.length + 2);
+        const start = rest.search(/\S/);
+        branch = start !== -1 && rest[start] === '{'
+          ? this.extractBalanced(rest, start)
+          : rest.substring(0, rest.indexOf(';') + 1);
+      }
+
+      conditions.push({ keyword: match[1] as 'require' | 'if', text, branch, offset });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Text between a bracket at `open` and its matching closing bracket
+   */
+  private extractBalanced(code: string, open: number): string {
+    const opening = code[open];
+    const closing = opening === '(' ? ')' : '}';
+    let depth = 0;
+
+    for (let i = open; i < code.length; i++) {
+      if (code[i] === opening) depth++;
+      if (code[i] === closing) depth--;
+      if (depth === 0) {
+        return code.substring(open + 1, i);
+      }
+    }
+    return code.substring(open + 1);
+  }
+
+  /**
+   * Collapse whitespace and drop the (masked) revert message
+   */
+  private normalize(text: string): string {
+    return text.replace(/,\s*(["'])\s*\1\s*$/, '').replace(/\s+/g, ' ').trim();
+  }
+}
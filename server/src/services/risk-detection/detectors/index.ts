@@ -0,0 +1,27 @@
+/**
+ * Built-in Detectors
+ * Every detector listed here is registered with the DetectorRegistry on startup
+ */
+
+import { BaseDetector } from './base-detector';
+import { MintingDetector } from './minting-detector';
+import { FundControlDetector } from './fund-control-detector';
+import { OwnershipDetector } from './ownership-detector';
+import { UpgradeDetector } from './upgrade-detector';
+import { DangerousFunctionsDetector } from './dangerous-fn-detector';
+import { EconomicDetector } from './economic-detector';
+import { ReentrancyDetector } from './reentrancy-detector';
+import { AccessControlDetector } from './access-control-detector';
+import { HoneypotDetector } from './honeypot-detector';
+
+export const BUILTIN_DETECTORS: BaseDetector[] = [
+  new MintingDetector(),
+  new FundControlDetector(),
+  new OwnershipDetector(),
+  new UpgradeDetector(),
+  new DangerousFunctionsDetector(),
+  new EconomicDetector(),
+  new ReentrancyDetector(),
+  new AccessControlDetector(),
+  new HoneypotDetector(),
+];
@@ -3,19 +3,30 @@
  * Detects minting-related security risks
  */
 
-import { BaseDetector, DetectionContext } from './base-detector';
+import { BaseDetector, DetectionContext, DetectorMetadata, FunctionInfo } from './base-detector';
 import { RiskFinding, RiskType } from '../../../types/risk.types';
 
 export class MintingDetector extends BaseDetector {
-  get name(): string {
-    return 'MintingDetector';
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'minting',
+      name: 'MintingDetector',
+      description: 'Unlimited and owner-restricted token minting',
+      riskTypes: [
+        RiskType.UNLIMITED_MINTING,
+        RiskType.OWNER_RESTRICTED_MINTING,
+      ],
+      patternCount: 2,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
   }
 
   detect(context: DetectionContext): RiskFinding[] {
     const findings: RiskFinding[] = [];
 
-    // Find mint functions
-    const mintFunctions = this.findFunctionsMatching(context, /mint/i);
+    // Find mint functions reachable from the most-derived contracts
+    const mintFunctions = this.findFunctionsMatching(context, /mint/i, this.getTargetFunctions(context));
 
     for (const func of mintFunctions) {
       // Check for unlimited minting (no supply cap)
@@ -57,7 +68,10 @@ export class MintingDetector extends BaseDetector {
         func.fullSignature,
         func.startLine,
         'Mint function exists without MAX_SUPPLY constant or supply check. Owner can mint unlimited tokens.',
-        func.name
+        func.name,
+        undefined,
+        func.contractName,
+        func.filePath
       );
     }
 
@@ -85,7 +99,9 @@ export class MintingDetector extends BaseDetector {
         func.startLine,
         'Minting is restricted to owner/privileged address. Centralized control over token supply.',
         func.name,
-        func.modifiers.join(', ')
+        func.modifiers.join(', '),
+        func.contractName,
+        func.filePath
       );
     }
 
@@ -3,12 +3,24 @@
  * Detects centralized ownership and control risks
  */
 
-import { BaseDetector, DetectionContext } from './base-detector';
+import { BaseDetector, DetectionContext, DetectorMetadata } from './base-detector';
 import { RiskFinding, RiskType } from '../../../types/risk.types';
 
 export class OwnershipDetector extends BaseDetector {
-  get name(): string {
-    return 'OwnershipDetector';
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'ownership',
+      name: 'OwnershipDetector',
+      description: 'Centralized ownership, pausing and ownership transfer',
+      riskTypes: [
+        RiskType.CENTRALIZED_OWNERSHIP,
+        RiskType.PAUSABLE_CONTRACT,
+        RiskType.OWNERSHIP_TRANSFER,
+      ],
+      patternCount: 3,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
   }
 
   detect(context: DetectionContext): RiskFinding[] {
@@ -40,7 +52,7 @@ export class OwnershipDetector extends BaseDetector {
    * Detection: Multiple onlyOwner modifiers (>3) indicating centralized control
    */
   private detectCentralizedOwnership(context: DetectionContext): RiskFinding | null {
-    const onlyOwnerFunctions = context.functions.filter(func =>
+    const onlyOwnerFunctions = this.getTargetFunctions(context).filter(func =>
       this.hasModifier(func, 'onlyOwner') || 
       this.hasModifier(func, 'onlyRole') ||
       func.body.includes('require(msg.sender == owner')
@@ -56,7 +68,10 @@ export class OwnershipDetector extends BaseDetector {
         `${onlyOwnerFunctions.length} owner-controlled functions: ${functionNames}`,
         firstFunction.startLine,
         `Contract has ${onlyOwnerFunctions.length} owner-only functions, indicating high centralization. Single address controls critical operations.`,
-        functionNames
+        functionNames,
+        undefined,
+        firstFunction.contractName,
+        firstFunction.filePath
       );
     }
 
@@ -68,28 +83,33 @@ export class OwnershipDetector extends BaseDetector {
    * Detection: pause()/unpause() functions or Pausable inheritance
    */
   private detectPausableContract(context: DetectionContext): RiskFinding | null {
+    const functions = this.getTargetFunctions(context);
+
     // Check for pause function
-    const pauseFunction = this.findFunction(context, 'pause');
-    const unpauseFunction = this.findFunction(context, 'unpause');
+    const pauseFunction = this.findFunction(context, 'pause', functions);
+    const unpauseFunction = this.findFunction(context, 'unpause', functions);
 
-    // Check for Pausable inheritance
-    const hasPausableInheritance = context.code.includes('Pausable') ||
-                                  context.code.includes('is Pausable');
+    // Check for Pausable anywhere in the most-derived inheritance chain
+    const hasPausableInheritance = this.inheritsFrom(context, /Pausable/);
 
     // Check for whenNotPaused modifier
-    const hasWhenNotPaused = context.modifiers.some(m => m.name === 'whenNotPaused') ||
-                            context.functions.some(f => this.hasModifier(f, 'whenNotPaused'));
+    const hasWhenNotPaused = functions.some(f => this.hasModifier(f, 'whenNotPaused'));
 
     if (pauseFunction || unpauseFunction || hasPausableInheritance || hasWhenNotPaused) {
       const line = pauseFunction?.startLine || unpauseFunction?.startLine || 1;
       const funcName = pauseFunction?.name || unpauseFunction?.name || 'pause mechanism';
+      const pauseMechanism = pauseFunction || unpauseFunction;
+      const targetContract = this.getTargetContracts(context)[0];
 
       return this.createFinding(
         RiskType.PAUSABLE_CONTRACT,
         pauseFunction?.fullSignature || 'Pausable inheritance detected',
         line,
         'Contract can be paused by owner, freezing user operations. No timelock or safeguards detected.',
-        funcName
+        funcName,
+        undefined,
+        pauseMechanism?.contractName || targetContract?.name,
+        pauseMechanism?.filePath || targetContract?.filePath
       );
     }
 
@@ -101,13 +121,14 @@ export class OwnershipDetector extends BaseDetector {
    * Detection: transferOwnership function
    */
   private detectOwnershipTransfer(context: DetectionContext): RiskFinding | null {
-    const transferFunction = this.findFunction(context, 'transferOwnership') ||
-                            this.findFunctionsMatching(context, /transferOwnership/i)[0];
+    const functions = this.getTargetFunctions(context);
+    const transferFunction = this.findFunction(context, 'transferOwnership', functions) ||
+                            this.findFunctionsMatching(context, /transferOwnership/i, functions)[0];
 
     if (transferFunction) {
       // Check if it has 2-step transfer (safer)
-      const has2StepTransfer = context.code.includes('acceptOwnership') ||
-                              context.code.includes('claimOwnership');
+      const has2StepTransfer = this.findFunctionsMatching(context, /^(acceptOwnership|claimOwnership)$/, functions).length > 0 ||
+                              this.inheritsFrom(context, /Ownable2Step/);
 
       if (!has2StepTransfer) {
         return this.createFinding(
@@ -115,7 +136,10 @@ export class OwnershipDetector extends BaseDetector {
           transferFunction.fullSignature,
           transferFunction.startLine,
           'Single-step ownership transfer detected. No 2-step transfer protection against accidental transfers.',
-          transferFunction.name
+          transferFunction.name,
+          undefined,
+          transferFunction.contractName,
+          transferFunction.filePath
         );
       }
     }
@@ -0,0 +1,198 @@
+/**
+ * Reentrancy Detector
+ * Detects external calls made before state updates (checks-effects-interactions violations)
+ */
+
+import { BaseDetector, DetectionContext, DetectorMetadata, FunctionInfo } from './base-detector';
+import { RiskFinding, RiskType } from '../../../types/risk.types';
+import { escapeRegExp, identifierPattern } from '../../../utils/regexp';
+
+interface ExternalCall {
+  offset: number;
+  end: number;
+  description: string;
+}
+
+interface StateWrite {
+  offset: number;
+  variable: string;
+}
+
+// Modifiers that lock the contract for the duration of the call
+const REENTRANCY_GUARDS = ['nonreentrant', 'noreentrant', 'noreentrancy', 'reentrancyguard', 'lock'];
+
+// Value-transferring and token calls that hand control to another contract
+const EXTERNAL_CALL_PATTERNS: Array<{ pattern: RegExp; description: string }> = [
+  { pattern: /\.call\s*\{[^}]*\}\s*\(/g, description: 'low-level call with value' },
+  { pattern: /\.call\s*\(/g, description: 'low-level call' },
+  { pattern: /\bsendValue\s*\(/g, description: 'Address.sendValue' },
+  { pattern: /\.(safeTransferFrom|safeTransfer|transferFrom)\s*\(/g, description: 'token transfer' },
+  { pattern: /\.transfer\s*\([^(),]*,[^()]*\)/g, description: 'token transfer' },
+  { pattern: /\b_safeMint\s*\(/g, description: 'safe mint callback' },
+];
+
+// Calls through a contract or interface cast, e.g. `IVault(vault).deposit(...)`
+const INTERFACE_CALL = /\b([A-Z]\w*)\s*\([^()]*\)\s*\.\s*(\w+)\s*\(/g;
+
+// Read-only functions of common token, pair and oracle interfaces, for call targets
+// whose definition is not in the source. They compile to STATICCALL and cannot re-enter
+const KNOWN_VIEW_FUNCTIONS = new Set([
+  'balanceOf', 'allowance', 'totalSupply', 'decimals', 'symbol', 'name',
+  'ownerOf', 'getApproved', 'isApprovedForAll', 'tokenURI', 'supportsInterface', 'owner',
+  'getReserves', 'token0', 'token1', 'factory', 'getPair', 'price0CumulativeLast', 'price1CumulativeLast',
+  'getAmountsOut', 'getAmountsIn', 'getAmountOut', 'getAmountIn', 'quote', 'WETH',
+  'latestRoundData', 'latestAnswer', 'getRoundData',
+  'convertToAssets', 'convertToShares', 'previewDeposit', 'previewMint', 'previewWithdraw', 'previewRedeem',
+  'totalAssets', 'asset', 'maxDeposit', 'maxMint', 'maxWithdraw', 'maxRedeem',
+]);
+
+export class ReentrancyDetector extends BaseDetector {
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'reentrancy',
+      name: 'ReentrancyDetector',
+      description: 'External calls made before updating state read in the same function',
+      riskTypes: [
+        RiskType.REENTRANCY,
+      ],
+      patternCount: EXTERNAL_CALL_PATTERNS.length + 2,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
+  }
+
+  detect(context: DetectionContext): RiskFinding[] {
+    const findings: RiskFinding[] = [];
+
+    const candidates = this.getTargetFunctions(context).filter(func =>
+      func.stateMutability !== 'view' &&
+      func.stateMutability !== 'pure' &&
+      !func.modifiers.some(mod => REENTRANCY_GUARDS.includes(mod.toLowerCase()))
+    );
+
+    for (const func of candidates) {
+      const calls = this.findExternalCalls(context, func);
+      if (calls.length === 0) {
+        continue;
+      }
+
+      const writes = this.findStateWrites(context, func);
+
+      for (const call of calls) {
+        const write = writes.find(w => w.offset > call.end);
+        if (!write) {
+          continue;
+        }
+
+        const callLine = this.getLineOfBodyOffset(context, func, call.offset);
+        const writeLine = this.getLineOfBodyOffset(context, func, write.offset);
+        const lines = this.getFileLines(context, func.filePath);
+        const snippet = lines.slice(callLine - 1, Math.min(writeLine, callLine + 5)).join('\n');
+
+        findings.push({
+          ...this.createFinding(
+            RiskType.REENTRANCY,
+            snippet,
+            callLine,
+            `${func.name} makes an external call (${call.description}) at line ${callLine} before updating state variable '${write.variable}' at line ${writeLine}. A malicious callee can re-enter while state is stale. Apply checks-effects-interactions or a nonReentrant guard.`,
+            func.name,
+            undefined,
+            func.contractName,
+            func.filePath
+          ),
+          related_line_number: writeLine,
+        });
+        break;
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Locate calls that can transfer control to another contract, in body order
+   */
+  private findExternalCalls(context: DetectionContext, func: FunctionInfo): ExternalCall[] {
+    const calls: ExternalCall[] = [];
+
+    for (const { pattern, description } of EXTERNAL_CALL_PATTERNS) {
+      for (const match of func.body.matchAll(pattern)) {
+        calls.push({ offset: match.index as number, end: (match.index as number) + match[0].length, description });
+      }
+    }
+
+    // Calls through a cast, skipping view and pure targets
+    for (const match of func.body.matchAll(INTERFACE_CALL)) {
+      if (!this.isReadOnlyCall(context, match[1], match[2])) {
+        const offset = match.index as number;
+        calls.push({ offset, end: offset + match[0].length, description: 'interface call' });
+      }
+    }
+
+    // Calls on state variables typed as a contract or interface, e.g. `token.deposit(...)`
+    const contractTypes = new Set(context.contracts.map(c => c.name));
+    for (const variable of this.getStateVariables(context, func)) {
+      if (!contractTypes.has(variable.type) && !/^I[A-Z]\w*$/.test(variable.type)) {
+        continue;
+      }
+      const pattern = new RegExp(`${identifierPattern(variable.name)}\\s*\\.\\s*(\\w+)\\s*\\(`, 'g');
+      for (const match of func.body.matchAll(pattern)) {
+        if (!this.isReadOnlyCall(context, variable.type, match[1])) {
+          const offset = match.index as number;
+          calls.push({ offset, end: offset + match[0].length, description: 'interface call' });
+        }
+      }
+    }
+
+    return calls.sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * Whether a call on a contract type cannot transfer control: the target is declared
+   * view or pure (every overload), is a public state variable getter, or, for types
+   * not defined in the source, is a well-known read-only function
+   */
+  private isReadOnlyCall(context: DetectionContext, typeName: string, functionName: string): boolean {
+    const contract = context.contracts.find(c => c.name === typeName);
+    if (contract) {
+      const scope = contract.linearizedBaseContracts;
+      const declarations = context.contracts
+        .filter(c => scope.includes(c.name))
+        .flatMap(c => c.functionDeclarations)
+        .filter(declaration => declaration.name === functionName);
+      if (declarations.length > 0) {
+        return declarations.every(d => d.stateMutability === 'view' || d.stateMutability === 'pure');
+      }
+      if (context.variables.some(v =>
+        v.name === functionName && v.visibility === 'public' && v.contractName && scope.includes(v.contractName)
+      )) {
+        return true;
+      }
+    }
+    return KNOWN_VIEW_FUNCTIONS.has(functionName);
+  }
+
+  /**
+   * Locate writes to state variables that the function also reads
+   */
+  private findStateWrites(context: DetectionContext, func: FunctionInfo): StateWrite[] {
+    const writes: StateWrite[] = [];
+
+    const mutable = this.getStateVariables(context, func).filter(v => !v.isConstant && !v.isImmutable);
+
+    for (const { name } of mutable) {
+      const occurrences = Array.from(func.body.matchAll(new RegExp(identifierPattern(name), 'g')))
+        .map(match => match.index as number);
+
+      // A plain `x = ...` is the only occurrence that does not read the variable
+      const plainAssignment = new RegExp(`^${escapeRegExp(name)}(?:\\s*\\[(?:[^\\[\\]]|\\[[^\\[\\]]*\\])*\\])*(?:\\s*\\.\\s*\\w+)*\\s*=(?!=)`);
+      const isRead = occurrences.some(offset => !plainAssignment.test(func.body.substring(offset)));
+
+      if (isRead) {
+        writes.push(...this.findWrites(func, name).map(offset => ({ offset, variable: name })));
+      }
+    }
+
+    return writes.sort((a, b) => a.offset - b.offset);
+  }
+}
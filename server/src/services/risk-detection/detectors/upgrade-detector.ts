@@ -3,12 +3,24 @@
  * Detects proxy patterns and upgrade mechanisms
  */
 
-import { BaseDetector, DetectionContext } from './base-detector';
+import { BaseDetector, DetectionContext, DetectorMetadata } from './base-detector';
 import { RiskFinding, RiskType } from '../../../types/risk.types';
 
 export class UpgradeDetector extends BaseDetector {
-  get name(): string {
-    return 'UpgradeDetector';
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'upgrade',
+      name: 'UpgradeDetector',
+      description: 'Proxy patterns and delegatecall-based upgrades',
+      riskTypes: [
+        RiskType.DELEGATECALL_USAGE,
+        RiskType.UUPS_PROXY,
+        RiskType.TRANSPARENT_PROXY,
+      ],
+      patternCount: 3,
+      version: '1.0.0',
+      enabledByDefault: true,
+    };
   }
 
   detect(context: DetectionContext): RiskFinding[] {
@@ -46,19 +58,19 @@ export class UpgradeDetector extends BaseDetector {
 
     for (const func of functionsWithDelegatecall) {
       // Find exact line
-      const lineIndex = context.lines.findIndex(line => 
-        line.includes('delegatecall') && 
-        context.lines.indexOf(line) >= func.startLine - 1 &&
-        context.lines.indexOf(line) <= func.endLine - 1
-      );
+      const line = this.findLineInFunction(context, func, /delegatecall/);
+      const lines = this.getFileLines(context, func.filePath);
 
       findings.push(
         this.createFinding(
           RiskType.DELEGATECALL_USAGE,
-          this.extractCodeSnippet(context.lines, lineIndex, 1),
-          lineIndex + 1,
+          this.extractCodeSnippet(lines, line - 1, 1),
+          line,
           'delegatecall allows executing arbitrary code in contract context. Can be used for proxy upgrades or attacks.',
-          func.name
+          func.name,
+          undefined,
+          func.contractName,
+          func.filePath
         )
       );
     }
@@ -74,20 +86,23 @@ export class UpgradeDetector extends BaseDetector {
     const authorizeUpgrade = this.findFunction(context, '_authorizeUpgrade') ||
                             this.findFunctionsMatching(context, /_authorizeUpgrade/i)[0];
 
-    // Check for UUPSUpgradeable inheritance
-    const hasUUPSInheritance = context.code.includes('UUPSUpgradeable') ||
-                              context.code.includes('is UUPSUpgradeable');
+    // Check for UUPSUpgradeable anywhere in the most-derived inheritance chain
+    const hasUUPSInheritance = this.inheritsFrom(context, /UUPSUpgradeable/);
 
     if (authorizeUpgrade || hasUUPSInheritance) {
       const line = authorizeUpgrade?.startLine || 1;
       const snippet = authorizeUpgrade?.fullSignature || 'UUPSUpgradeable inheritance detected';
+      const targetContract = this.getTargetContracts(context)[0];
 
       return this.createFinding(
         RiskType.UUPS_PROXY,
         snippet,
         line,
         'UUPS (Universal Upgradeable Proxy Standard) pattern detected. Contract logic can be upgraded, changing behavior.',
-        authorizeUpgrade?.name || 'UUPS pattern'
+        authorizeUpgrade?.name || 'UUPS pattern',
+        undefined,
+        authorizeUpgrade?.contractName || targetContract?.name,
+        authorizeUpgrade?.filePath || targetContract?.filePath
       );
     }
 
@@ -98,17 +113,16 @@ export class UpgradeDetector extends BaseDetector {
    * Detect transparent proxy pattern (MEDIUM)
    */
   private detectTransparentProxy(context: DetectionContext): RiskFinding | null {
-    // Check for TransparentUpgradeableProxy inheritance
-    const hasTransparentInheritance = context.code.includes('TransparentUpgradeableProxy') ||
-                                     context.code.includes('is TransparentUpgradeableProxy');
+    // Check for TransparentUpgradeableProxy anywhere in the most-derived inheritance chain
+    const hasTransparentInheritance = this.inheritsFrom(context, /TransparentUpgradeableProxy/);
 
     // Check for upgradeTo function
     const upgradeToFunction = this.findFunction(context, 'upgradeTo') ||
                              this.findFunctionsMatching(context, /upgradeTo/i)[0];
 
     // Check for implementation variable/function
-    const hasImplementation = context.code.includes('_implementation') ||
-                             context.functions.some(f => f.name === 'implementation');
+    const hasImplementation = this.hasVariable(context, '_implementation') ||
+                             context.functions.some(f => f.name === 'implementation' || f.name === '_implementation');
 
     // Check for fallback with delegatecall
     const fallbackFunction = context.functions.find(f => f.name === 'fallback' || f.name === 'receive');
@@ -120,13 +134,17 @@ export class UpgradeDetector extends BaseDetector {
       
       const line = upgradeToFunction?.startLine || 1;
       const snippet = upgradeToFunction?.fullSignature || 'Transparent proxy pattern detected';
+      const targetContract = this.getTargetContracts(context)[0];
 
       return this.createFinding(
         RiskType.TRANSPARENT_PROXY,
         snippet,
         line,
         'Transparent proxy pattern detected. Implementation contract can be swapped, completely changing contract behavior.',
-        upgradeToFunction?.name || 'Transparent proxy'
+        upgradeToFunction?.name || 'Transparent proxy',
+        undefined,
+        upgradeToFunction?.contractName || targetContract?.name,
+        upgradeToFunction?.filePath || targetContract?.filePath
       );
     }
 
@@ -0,0 +1,204 @@
+/**
+ * Inheritance Resolver Service
+ * Computes C3 linearization and function resolution for parsed contracts
+ */
+
+import { ContractInfo, DetectionContext, FunctionInfo } from './detectors/base-detector';
+import { identifierPattern } from '../../utils/regexp';
+
+export class InheritanceResolverService {
+  /**
+   * Populate linearization, resolved functions and most-derived flags on every contract
+   */
+  static resolve(context: DetectionContext): void {
+    const contractsByName = new Map<string, ContractInfo>();
+    for (const contract of context.contracts) {
+      contractsByName.set(contract.name, contract);
+    }
+
+    const cache = new Map<string, string[]>();
+    for (const contract of context.contracts) {
+      contract.linearizedBaseContracts = this.linearize(contract.name, contractsByName, cache, new Set());
+    }
+
+    const inherited = new Set(context.contracts.flatMap(c => c.baseContracts));
+    for (const contract of context.contracts) {
+      contract.isMostDerived = contract.kind === 'contract' && !inherited.has(contract.name);
+    }
+
+    // Files containing only abstract contracts still need a target to analyze
+    if (!context.contracts.some(c => c.isMostDerived)) {
+      for (const contract of context.contracts) {
+        contract.isMostDerived = contract.kind === 'abstract' && !inherited.has(contract.name);
+      }
+    }
+
+    for (const contract of context.contracts) {
+      contract.resolvedFunctions = contract.kind === 'interface'
+        ? []
+        : this.resolveFunctions(contract, contractsByName, context.functions);
+    }
+  }
+
+  /**
+   * Functions reachable from the most-derived contracts: their resolved functions,
+   * functions of the libraries they use, and free functions
+   */
+  static getTargetFunctions(context: DetectionContext): FunctionInfo[] {
+    const targets = context.contracts.filter(c => c.isMostDerived);
+    if (targets.length === 0) {
+      return context.functions.filter(f => {
+        const owner = context.contracts.find(c => c.name === f.contractName);
+        return !owner || owner.kind !== 'library';
+      });
+    }
+
+    const result = new Set<FunctionInfo>();
+    for (const contract of targets) {
+      contract.resolvedFunctions.forEach(f => result.add(f));
+
+      for (const libraryName of this.getUsedLibraries(contract, context)) {
+        context.functions
+          .filter(f => f.contractName === libraryName)
+          .forEach(f => result.add(f));
+      }
+    }
+
+    context.functions
+      .filter(f => !f.contractName)
+      .forEach(f => result.add(f));
+
+    return Array.from(result);
+  }
+
+  /**
+   * C3 linearization, most-derived contract first (same order as solc)
+   */
+  private static linearize(
+    name: string,
+    contractsByName: Map<string, ContractInfo>,
+    cache: Map<string, string[]>,
+    visiting: Set<string>
+  ): string[] {
+    const cached = cache.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const contract = contractsByName.get(name);
+    if (!contract || contract.baseContracts.length === 0 || visiting.has(name)) {
+      // Unknown (e.g. imported but not provided) or cyclic bases resolve to themselves
+      return [name];
+    }
+
+    visiting.add(name);
+    // Solidity lists bases from "most base-like" to "most derived"
+    const bases = [...contract.baseContracts].reverse();
+    const sequences = [
+      ...bases.map(base => this.linearize(base, contractsByName, cache, visiting)),
+      bases,
+    ];
+    visiting.delete(name);
+
+    const result = [name, ...this.merge(sequences)];
+    cache.set(name, result);
+    return result;
+  }
+
+  /**
+   * C3 merge step; falls back to first-seen order when the hierarchy is inconsistent
+   */
+  private static merge(sequences: string[][]): string[] {
+    const result: string[] = [];
+    const remaining = sequences.map(seq => [...seq]).filter(seq => seq.length > 0);
+
+    while (remaining.length > 0) {
+      const candidate = remaining
+        .map(seq => seq[0])
+        .find(head => !remaining.some(seq => seq.indexOf(head) > 0));
+
+      if (!candidate) {
+        for (const name of remaining.flat()) {
+          if (!result.includes(name)) {
+            result.push(name);
+          }
+        }
+        break;
+      }
+
+      result.push(candidate);
+      for (const seq of remaining) {
+        if (seq[0] === candidate) {
+          seq.shift();
+        }
+      }
+      for (let i = remaining.length - 1; i >= 0; i--) {
+        if (remaining[i].length === 0) {
+          remaining.splice(i, 1);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Walk the linearization and keep the most-derived implementation of each function
+   */
+  private static resolveFunctions(
+    contract: ContractInfo,
+    contractsByName: Map<string, ContractInfo>,
+    functions: FunctionInfo[]
+  ): FunctionInfo[] {
+    const resolved = new Map<string, FunctionInfo>();
+
+    for (const name of contract.linearizedBaseContracts) {
+      const base = contractsByName.get(name);
+      if (!base || base.kind === 'interface' || base.kind === 'library') {
+        continue;
+      }
+
+      for (const func of functions.filter(f => f.contractName === name)) {
+        // Base constructors are not part of the deployed interface
+        if (func.kind === 'constructor' && name !== contract.name) {
+          continue;
+        }
+
+        const key = this.getFunctionKey(func);
+        if (!resolved.has(key)) {
+          resolved.set(key, func);
+        }
+      }
+    }
+
+    return Array.from(resolved.values());
+  }
+
+  /**
+   * Libraries attached via `using ... for` or referenced as `Library.fn(...)`
+   */
+  private static getUsedLibraries(contract: ContractInfo, context: DetectionContext): string[] {
+    const libraries = context.contracts.filter(c => c.kind === 'library');
+    const bodies = contract.resolvedFunctions.map(f => f.body).join('\n');
+    const attached = new Set(
+      context.contracts
+        .filter(c => contract.linearizedBaseContracts.includes(c.name))
+        .flatMap(c => c.usingLibraries)
+    );
+
+    return libraries
+      .filter(library =>
+        attached.has(library.name) ||
+        new RegExp(`${identifierPattern(library.name)}\\s*\\.`).test(bodies)
+      )
+      .map(library => library.name);
+  }
+
+  /**
+   * Overrides share name and parameter types
+   */
+  private static getFunctionKey(func: FunctionInfo): string {
+    return `${func.name}(${func.parameters.map(p => p.replace(/\s+/g, '')).join(',')})`;
+  }
+}
+
@@ -0,0 +1,210 @@
+/**
+ * Mitigation Analyzer Service
+ * Recognises timelock and multisig protections around privileged functions
+ */
+
+import { BaseDetector, DetectionContext, FunctionInfo } from './detectors/base-detector';
+import { InheritanceResolverService } from './inheritance-resolver.service';
+import { Mitigation, MitigationType, RiskFinding, RiskType } from '../../types/risk.types';
+
+// Risks that depend on a privileged account acting in bad faith
+export const MITIGABLE_RISK_TYPES = new Set<RiskType>([
+  RiskType.UNLIMITED_MINTING,
+  RiskType.OWNER_RESTRICTED_MINTING,
+  RiskType.WITHDRAW_FUNCTION,
+  RiskType.EMERGENCY_WITHDRAWAL,
+  RiskType.BALANCE_MANIPULATION,
+  RiskType.CENTRALIZED_OWNERSHIP,
+  RiskType.PAUSABLE_CONTRACT,
+  RiskType.OWNERSHIP_TRANSFER,
+  RiskType.UUPS_PROXY,
+  RiskType.TRANSPARENT_PROXY,
+  RiskType.SELFDESTRUCT,
+  RiskType.ADJUSTABLE_FEES,
+  RiskType.BLACKLIST_MODIFICATION,
+  RiskType.MAX_TX_LIMIT,
+  RiskType.WHITELIST_MODIFICATION,
+]);
+
+// Governance timelocks that queue calls; token vesting locks such as `TokenTimelock` do not count
+const TIMELOCK_BASE = /^(?:TimelockController\w*|GovernorTimelock\w*)$/;
+const TIMELOCK_TYPE = /^I?(?:TimelockController\w*|Governor\w*)$/;
+const TIMELOCK_MODIFIER = /timelock|afterdelay|delayed/i;
+// Whole identifiers holding an execution delay or a queued call's ready time. Anti-bot delays
+// and per-user cooldowns (`transferDelay`, `lastTrade[msg.sender]`) are not timelocks
+const DELAY_VARIABLE = /^_?(?:(?:min|execution|timelock|admin)_?)?delay$|^_?eta$|readyat|executeafter|queuedat|^_?timestamps$/i;
+const PER_USER_INDEX = /\[\s*(?:msg\.sender|_msgSender\(\s*\)|tx\.origin)\s*\]/;
+
+const MULTISIG_BASE = /gnosissafe|^safe$|multisig/i;
+const MULTISIG_MODIFIER = /multisig|onlysafe/i;
+const MULTISIG_TYPE = /^I?(GnosisSafe|Safe|MultiSig\w*)$/;
+const THRESHOLD_VARIABLE = /threshold|required|confirmationsrequired/i;
+
+export class MitigationAnalyzerService {
+  /**
+   * Attach mitigations to every finding
+   * Only risks that rely on a privileged account can be mitigated
+   */
+  static annotate(context: DetectionContext, findings: RiskFinding[]): RiskFinding[] {
+    const contractLevel = this.findContractMitigations(context);
+    const functions = InheritanceResolverService.getTargetFunctions(context);
+
+    return findings.map(finding => {
+      if (!MITIGABLE_RISK_TYPES.has(finding.type)) {
+        return { ...finding, mitigations: finding.mitigations || [] };
+      }
+
+      const func = functions.find(f =>
+        f.name === finding.function_name &&
+        (!finding.contract_name || f.contractName === finding.contract_name)
+      );
+      const functionLevel = func ? this.findFunctionMitigations(context, func) : [];
+
+      return {
+        ...finding,
+        // Kept on the finding so the guard is known after the source is gone, e.g. for on-chain owner state
+        modifier_name: finding.modifier_name ?? (func && func.modifiers.length > 0 ? func.modifiers.join(', ') : undefined),
+        mitigations: this.dedupe([...(finding.mitigations || []), ...functionLevel, ...contractLevel]),
+      };
+    });
+  }
+
+  /**
+   * Protections that cover every privileged function of the analyzed contracts
+   */
+  static findContractMitigations(context: DetectionContext): Mitigation[] {
+    const mitigations: Mitigation[] = [];
+    const targets = context.contracts.filter(c => c.isMostDerived);
+    const functions = InheritanceResolverService.getTargetFunctions(context);
+
+    for (const contract of targets) {
+      const timelockBase = contract.linearizedBaseContracts.find(name => name !== contract.name && TIMELOCK_BASE.test(name));
+      if (timelockBase) {
+        mitigations.push({ type: MitigationType.TIMELOCK, evidence: `inherits ${timelockBase}`, line_number: contract.startLine });
+      }
+
+      const multisigBase = contract.linearizedBaseContracts.find(name => name !== contract.name && MULTISIG_BASE.test(name));
+      if (multisigBase) {
+        mitigations.push({ type: MitigationType.MULTISIG, evidence: `inherits ${multisigBase}`, line_number: contract.startLine });
+      }
+    }
+
+    // Privileged address held by a governance timelock
+    const inScope = new Set(targets.flatMap(c => c.linearizedBaseContracts));
+    const timelockVariable = context.variables.find(v =>
+      v.contractName !== undefined && inScope.has(v.contractName) && TIMELOCK_TYPE.test(v.type)
+    );
+    if (timelockVariable) {
+      mitigations.push({
+        type: MitigationType.TIMELOCK,
+        evidence: `privileged address '${timelockVariable.name}' is a ${timelockVariable.type}`,
+        line_number: timelockVariable.lineNumber,
+      });
+    }
+
+    // Queue/execute pair where execution waits for a delay
+    const queue = functions.find(f => /^queue/i.test(f.name));
+    const execute = functions.find(f => /^execute/i.test(f.name) && this.findDelayCheck(f) !== null);
+    if (queue && execute) {
+      mitigations.push({
+        type: MitigationType.TIMELOCK,
+        evidence: `${queue.name}/${execute.name} enforce a delay before execution`,
+        line_number: execute.startLine,
+      });
+    }
+
+    // Privileged address held by a multisig wallet
+    const walletVariable = context.variables.find(v =>
+      v.contractName !== undefined && inScope.has(v.contractName) && MULTISIG_TYPE.test(v.type)
+    );
+    if (walletVariable) {
+      mitigations.push({
+        type: MitigationType.MULTISIG,
+        evidence: `privileged address '${walletVariable.name}' is a ${walletVariable.type}`,
+        line_number: walletVariable.lineNumber,
+      });
+    }
+
+    // Confirmation threshold with confirm/submit functions (built-in multisig)
+    const threshold = context.variables.find(v =>
+      v.contractName !== undefined && inScope.has(v.contractName) && THRESHOLD_VARIABLE.test(v.name)
+    );
+    const confirm = functions.find(f => /^confirm/i.test(f.name));
+    if (threshold && confirm) {
+      mitigations.push({
+        type: MitigationType.MULTISIG,
+        evidence: `${confirm.name} requires '${threshold.name}' confirmations`,
+        line_number: threshold.lineNumber,
+      });
+    }
+
+    return mitigations;
+  }
+
+  /**
+   * Protections applied directly to one function
+   */
+  static findFunctionMitigations(context: DetectionContext, func: FunctionInfo): Mitigation[] {
+    const mitigations: Mitigation[] = [];
+
+    for (const name of func.modifiers) {
+      if (TIMELOCK_MODIFIER.test(name)) {
+        mitigations.push({ type: MitigationType.TIMELOCK, evidence: `${name} modifier on ${func.name}`, line_number: func.startLine });
+        continue;
+      }
+      if (MULTISIG_MODIFIER.test(name)) {
+        mitigations.push({ type: MitigationType.MULTISIG, evidence: `${name} modifier on ${func.name}`, line_number: func.startLine });
+        continue;
+      }
+
+      // Custom modifiers that enforce a delay
+      const definition = context.modifiers.find(mod => mod.name === name);
+      if (definition && this.hasDelayCheck(definition.body)) {
+        mitigations.push({ type: MitigationType.TIMELOCK, evidence: `${name} modifier enforces a delay`, line_number: definition.lineNumber });
+      }
+    }
+
+    const delayCheck = this.findDelayCheck(func);
+    if (delayCheck !== null) {
+      mitigations.push({
+        type: MitigationType.TIMELOCK,
+        evidence: `${func.name} checks a delay against block.timestamp`,
+        line_number: BaseDetector.lineOfBodyOffset(context, func, delayCheck),
+      });
+    }
+
+    return mitigations;
+  }
+
+  /**
+   * Body offset of a require/if comparing block.timestamp with a delay variable
+   */
+  private static findDelayCheck(func: FunctionInfo): number | null {
+    for (const match of func.body.matchAll(/\b(?:require|if)\s*\(([^;{]*)/g)) {
+      if (this.hasDelayCheck(match[0])) {
+        return match.index as number;
+      }
+    }
+    return null;
+  }
+
+  private static hasDelayCheck(code: string): boolean {
+    if (!/\b(?:require|if)\s*\([^;{]*(?:block\.timestamp|\bnow\b)/.test(code) || PER_USER_INDEX.test(code)) {
+      return false;
+    }
+    const identifiers = code.replace(/block\.timestamp/g, '').match(/[A-Za-z_$][\w$]*/g) || [];
+    return identifiers.some(name => DELAY_VARIABLE.test(name));
+  }
+
+  private static dedupe(mitigations: Mitigation[]): Mitigation[] {
+    const seen = new Set<string>();
+    return mitigations.filter(m => {
+      const key = `${m.type}:${m.evidence}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+}
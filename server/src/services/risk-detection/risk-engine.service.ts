@@ -7,62 +7,66 @@
  */
 
 import { ASTParserService } from './ast-parser.service';
+import { VirtualFileSystem } from './virtual-file-system';
+import { SourcePreprocessor } from './source-preprocessor';
 import { ScoringAlgorithmService } from './scoring-algorithm.service';
+import { DetectorRegistry } from './detector-registry';
+import { MitigationAnalyzerService } from './mitigation-analyzer.service';
+import { DetectorMetadata } from './detectors/base-detector';
 import { RiskDetectionResult, RiskFinding } from '../../types/risk.types';
 
-// Import all detectors
-import { BaseDetector } from './detectors/base-detector';
-import { MintingDetector } from './detectors/minting-detector';
-import { FundControlDetector } from './detectors/fund-control-detector';
-import { OwnershipDetector } from './detectors/ownership-detector';
-import { UpgradeDetector } from './detectors/upgrade-detector';
-import { DangerousFunctionsDetector } from './detectors/dangerous-fn-detector';
-import { EconomicDetector } from './detectors/economic-detector';
+// Optional callbacks for reporting progress while an analysis runs
+export interface DetectionListener {
+  onParsed?(): void;
+  onDetectorFinished?(detector: DetectorMetadata, findings: RiskFinding[]): void;
+}
 
 export class RiskEngineService {
-  private static detectors: BaseDetector[] = [
-    new MintingDetector(),
-    new FundControlDetector(),
-    new OwnershipDetector(),
-    new UpgradeDetector(),
-    new DangerousFunctionsDetector(),
-    new EconomicDetector(),
-  ];
-
   /**
    * Analyze contract for security risks
    * This is a deterministic, rule-based analysis (NO AI)
    */
-  static async analyze(contractCode: string): Promise<RiskDetectionResult> {
+  static async analyze(source: string | VirtualFileSystem, listener: DetectionListener = {}): Promise<RiskDetectionResult> {
+    const vfs = VirtualFileSystem.from(source);
+
     // Validate input
-    if (!ASTParserService.isValidSolidity(contractCode)) {
+    if (!ASTParserService.isValidSolidity(vfs.combinedSource())) {
       throw new Error('Invalid Solidity code');
     }
 
-    // Parse contract into analyzable structure
-    const context = ASTParserService.parse(contractCode);
+    // Parse contract (and its imports) into analyzable structure
+    const context = ASTParserService.parse(vfs);
+    listener.onParsed?.();
 
     // Run all detectors
     const allFindings: RiskFinding[] = [];
     let patternsChecked = 0;
     let patternsMatched = 0;
 
-    for (const detector of this.detectors) {
+    for (const detector of DetectorRegistry.getEnabled()) {
       try {
-        const findings = detector.detect(context);
+        const findings = detector.detect(context).map(finding => ({
+          ...finding,
+          file_path: finding.file_path || context.mainFile,
+        }));
         allFindings.push(...findings);
         
         // Update pattern statistics
-        patternsChecked += this.getPatternCount(detector.name);
+        patternsChecked += detector.metadata.patternCount;
         patternsMatched += findings.length;
+
+        listener.onDetectorFinished?.(detector.metadata, findings);
       } catch (error) {
         console.error(`Error in detector ${detector.name}:`, error);
         // Continue with other detectors
       }
     }
 
+    // Credit timelock/multisig protections on privileged findings
+    const mitigatedFindings = MitigationAnalyzerService.annotate(context, allFindings);
+
     // Sort findings by severity
-    const sortedFindings = ScoringAlgorithmService.sortBySeverity(allFindings);
+    const sortedFindings = ScoringAlgorithmService.sortBySeverity(mitigatedFindings);
 
     // Build result with scoring
     const result = ScoringAlgorithmService.buildResult(sortedFindings, {
@@ -72,22 +76,10 @@ export class RiskEngineService {
       patterns_matched: patternsMatched,
     });
 
-    return result;
-  }
-
-  /**
-   * Get estimated pattern count for a detector
-   */
-  private static getPatternCount(detectorName: string): number {
-    const counts: Record<string, number> = {
-      MintingDetector: 2,
-      FundControlDetector: 6,
-      OwnershipDetector: 3,
-      UpgradeDetector: 3,
-      DangerousFunctionsDetector: 3,
-      EconomicDetector: 4,
+    return {
+      ...result,
+      metadata: { ...result.metadata, analysis_mode: 'SOURCE' },
     };
-    return counts[detectorName] || 1;
   }
 
   /**
@@ -103,16 +95,19 @@ export class RiskEngineService {
   /**
    * Get metadata about contract
    */
-  static getContractMetadata(code: string): {
+  static getContractMetadata(source: string | VirtualFileSystem): {
     compiler_version: string | null;
     lines_of_code: number;
     total_functions: number;
+    files: string[];
   } {
-    const context = ASTParserService.parse(code);
+    const context = ASTParserService.parse(source);
+    const mainFile = context.files.find(f => f.path === context.mainFile);
     return {
-      compiler_version: ASTParserService.extractCompilerVersion(code),
-      lines_of_code: ASTParserService.countLinesOfCode(code),
+      compiler_version: ASTParserService.extractCompilerVersion(mainFile ? mainFile.code : context.code),
+      lines_of_code: context.files.reduce((sum, f) => sum + ASTParserService.countLinesOfCode(f.code), 0),
       total_functions: context.functions.length,
+      files: context.files.map(f => f.path),
     };
   }
 
@@ -132,12 +127,13 @@ export class RiskEngineService {
         'tx.origin',
       ];
 
+      const sanitized = SourcePreprocessor.sanitize(code);
       const hasCritical = dangerousPatterns.some(pattern => 
-        code.includes(pattern)
+        sanitized.includes(pattern)
       );
 
-      const hasOwnerControl = /onlyOwner/.test(code);
-      const hasMinting = /function\s+mint/i.test(code);
+      const hasOwnerControl = /onlyOwner/.test(sanitized);
+      const hasMinting = /function\s+mint/i.test(sanitized);
 
       let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' = 'LOW';
       if (hasCritical) {
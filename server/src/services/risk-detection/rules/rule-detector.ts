@@ -0,0 +1,160 @@
+/**
+ * Rule Detector
+ * Runs a declarative custom rule against the parsed contract
+ */
+
+import { BaseDetector, DetectionContext, DetectorMetadata, FunctionInfo } from '../detectors/base-detector';
+import { RiskFinding } from '../../../types/risk.types';
+import { FUNCTION_CRITERIA, RuleDefinition, RuleMatch, STATE_CRITERIA } from './rule-schema';
+
+export class RuleDetector extends BaseDetector {
+  private rule: RuleDefinition;
+  private source?: string;
+
+  constructor(rule: RuleDefinition, source?: string) {
+    super();
+    this.rule = rule;
+    this.source = source;
+  }
+
+  get metadata(): DetectorMetadata {
+    const criteria = [...FUNCTION_CRITERIA, ...STATE_CRITERIA]
+      .filter(key => this.rule.match[key] !== undefined);
+
+    return {
+      id: this.rule.id,
+      name: this.rule.name || this.rule.id,
+      description: this.rule.description || (this.source ? `Custom rule from ${this.source}` : 'Custom rule'),
+      riskTypes: [this.rule.risk_type],
+      patternCount: criteria.length,
+      version: this.rule.version,
+      enabledByDefault: this.rule.enabled,
+    };
+  }
+
+  detect(context: DetectionContext): RiskFinding[] {
+    const { match } = this.rule;
+
+    if (!this.matchesStateVariables(context, match)) {
+      return [];
+    }
+
+    const hasFunctionCriteria = FUNCTION_CRITERIA.some(key => match[key] !== undefined);
+    if (!hasFunctionCriteria) {
+      return this.getTargetContracts(context).map(contract =>
+        this.buildFinding(
+          this.extractCodeSnippet(this.getFileLines(context, contract.filePath), contract.startLine - 1, 0),
+          contract.startLine,
+          undefined,
+          contract.name,
+          contract.filePath
+        )
+      );
+    }
+
+    return this.getTargetFunctions(context)
+      .filter(func => this.matchesFunction(func, match))
+      .map(func => {
+        const line = match.body_matches
+          ? this.findLineInFunction(context, func, new RegExp(match.body_matches[0], 'i'))
+          : func.startLine;
+        const lines = this.getFileLines(context, func.filePath);
+
+        return this.buildFinding(
+          this.extractCodeSnippet(lines, line - 1, 1),
+          line,
+          func.name,
+          func.contractName,
+          func.filePath
+        );
+      });
+  }
+
+  /**
+   * Check every function-level criterion
+   */
+  private matchesFunction(func: FunctionInfo, match: RuleMatch): boolean {
+    if (match.function_name && !new RegExp(match.function_name, 'i').test(func.name)) {
+      return false;
+    }
+
+    if (match.visibility && !match.visibility.includes(func.visibility)) {
+      return false;
+    }
+
+    if (match.modifiers_required && !match.modifiers_required.every(mod => this.hasModifier(func, mod))) {
+      return false;
+    }
+
+    if (match.modifiers_missing && match.modifiers_missing.some(mod => this.hasModifier(func, mod))) {
+      return false;
+    }
+
+    if (match.body_matches && !match.body_matches.every(pattern => new RegExp(pattern, 'i').test(func.body))) {
+      return false;
+    }
+
+    if (match.body_not_matches && match.body_not_matches.some(pattern => new RegExp(pattern, 'i').test(func.body))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Check state variable criteria against the variables of the analyzed contracts
+   */
+  private matchesStateVariables(context: DetectionContext, match: RuleMatch): boolean {
+    if (!match.state_variables_present && !match.state_variables_missing) {
+      return true;
+    }
+
+    const inScope = new Set(this.getTargetContracts(context).flatMap(c => c.linearizedBaseContracts));
+    const names = context.variables
+      .filter(v => inScope.size === 0 || (v.contractName !== undefined && inScope.has(v.contractName)))
+      .map(v => v.name);
+    const hasVariable = (pattern: string) => names.some(name => new RegExp(pattern, 'i').test(name));
+
+    if (match.state_variables_present && !match.state_variables_present.every(hasVariable)) {
+      return false;
+    }
+
+    if (match.state_variables_missing && match.state_variables_missing.some(hasVariable)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Create a finding, applying the rule's severity and weight overrides
+   */
+  private buildFinding(
+    snippet: string,
+    line: number,
+    functionName?: string,
+    contractName?: string,
+    filePath?: string
+  ): RiskFinding {
+    const reason = this.rule.machine_reason
+      .replace(/\{function\}/g, functionName || '')
+      .replace(/\{contract\}/g, contractName || '');
+
+    const finding = this.createFinding(
+      this.rule.risk_type,
+      snippet,
+      line,
+      reason,
+      functionName,
+      undefined,
+      contractName,
+      filePath
+    );
+
+    return {
+      ...finding,
+      severity: this.rule.severity || finding.severity,
+      weight: this.rule.weight !== undefined ? this.rule.weight : finding.weight,
+    };
+  }
+}
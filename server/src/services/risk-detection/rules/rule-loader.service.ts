@@ -0,0 +1,105 @@
+/**
+ * Rule Loader Service
+ * Loads, validates and compiles custom rule files into detectors
+ */
+
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { DetectorRegistry } from '../detector-registry';
+import { RuleDetector } from './rule-detector';
+import { RuleDefinition, ruleFileSchema } from './rule-schema';
+
+const RULE_FILE_EXTENSIONS = ['.yml', '.yaml', '.json'];
+
+/**
+ * Raised when a rule file cannot be read, parsed or validated
+ */
+export class RuleValidationError extends Error {
+  public filePath: string;
+  public details: string[];
+
+  constructor(filePath: string, details: string[]) {
+    super(`Invalid rule file ${filePath}:\n  - ${details.join('\n  - ')}`);
+    this.name = 'RuleValidationError';
+    this.filePath = filePath;
+    this.details = details;
+  }
+}
+
+export class RuleLoaderService {
+  /**
+   * Parse and validate rule file content
+   * A file contains either `{ rules: [...] }` or a bare list of rules
+   */
+  static parse(content: string, filePath: string): RuleDefinition[] {
+    let raw: unknown;
+    try {
+      raw = path.extname(filePath).toLowerCase() === '.json'
+        ? JSON.parse(content)
+        : YAML.parse(content);
+    } catch (error) {
+      throw new RuleValidationError(filePath, [
+        `Unable to parse: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      ]);
+    }
+
+    const document = Array.isArray(raw) ? { rules: raw } : raw;
+    const { error, value } = ruleFileSchema.validate(document, { abortEarly: false });
+
+    if (error) {
+      throw new RuleValidationError(filePath, error.details.map(detail => detail.message));
+    }
+
+    const rules = value.rules as RuleDefinition[];
+    const seen = new Set<string>();
+    const duplicates = rules.map(rule => rule.id).filter(id => seen.has(id) || !seen.add(id));
+    if (duplicates.length > 0) {
+      throw new RuleValidationError(filePath, duplicates.map(id => `Duplicate rule id "${id}"`));
+    }
+
+    return rules;
+  }
+
+  /**
+   * Compile every rule file at a path (a single file or a directory) into detectors
+   */
+  static load(rulesPath: string): RuleDetector[] {
+    if (!fs.existsSync(rulesPath)) {
+      throw new RuleValidationError(rulesPath, ['Path does not exist']);
+    }
+
+    const files = fs.statSync(rulesPath).isDirectory()
+      ? fs.readdirSync(rulesPath)
+        .filter(file => RULE_FILE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .sort()
+        .map(file => path.join(rulesPath, file))
+      : [rulesPath];
+
+    return files.flatMap(file =>
+      this.parse(fs.readFileSync(file, 'utf8'), file)
+        .map(rule => new RuleDetector(rule, path.basename(file)))
+    );
+  }
+
+  /**
+   * Load rules and add them to the detector registry
+   * @returns Number of registered rules
+   */
+  static register(rulesPath: string): number {
+    const detectors = this.load(rulesPath);
+
+    const ids = new Set<string>();
+    for (const { metadata } of detectors) {
+      if (DetectorRegistry.get(metadata.id) || ids.has(metadata.id)) {
+        throw new RuleValidationError(rulesPath, [
+          `Rule id "${metadata.id}" is already used by another detector`,
+        ]);
+      }
+      ids.add(metadata.id);
+    }
+
+    detectors.forEach(detector => DetectorRegistry.register(detector));
+    return detectors.length;
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Custom Rule Schema
+ * Shape and validation of declarative (YAML/JSON) risk rules
+ */
+
+import Joi from 'joi';
+import { RiskType, Severity } from '../../../types/risk.types';
+
+export interface RuleMatch {
+  // Regular expressions are matched case-insensitively
+  function_name?: string;
+  visibility?: string[];
+  modifiers_required?: string[];
+  modifiers_missing?: string[];
+  // Matched against the comment- and string-masked function body
+  body_matches?: string[];
+  body_not_matches?: string[];
+  // Matched against state variable names of the analyzed contracts
+  state_variables_present?: string[];
+  state_variables_missing?: string[];
+}
+
+export interface RuleDefinition {
+  id: string;
+  name?: string;
+  description?: string;
+  version: string;
+  enabled: boolean;
+  risk_type: RiskType;
+  // Defaults to the severity and weight of the risk type
+  severity?: Severity;
+  weight?: number;
+  // `{function}` and `{contract}` are replaced with the matched names
+  machine_reason: string;
+  match: RuleMatch;
+}
+
+export const FUNCTION_CRITERIA: Array<keyof RuleMatch> = [
+  'function_name',
+  'visibility',
+  'modifiers_required',
+  'modifiers_missing',
+  'body_matches',
+  'body_not_matches',
+];
+
+export const STATE_CRITERIA: Array<keyof RuleMatch> = [
+  'state_variables_present',
+  'state_variables_missing',
+];
+
+const regex = Joi.string().custom((value: string, helpers) => {
+  try {
+    new RegExp(value, 'i');
+    return value;
+  } catch (error) {
+    return helpers.message({ custom: `{{#label}} "${value}" is not a valid regular expression` });
+  }
+});
+
+const regexList = Joi.array().items(regex).min(1);
+const nameList = Joi.array().items(Joi.string()).min(1);
+
+const matchSchema = Joi.object({
+  function_name: regex,
+  visibility: Joi.array().items(Joi.string().valid('public', 'external', 'internal', 'private')).min(1),
+  modifiers_required: nameList,
+  modifiers_missing: nameList,
+  body_matches: regexList,
+  body_not_matches: regexList,
+  state_variables_present: regexList,
+  state_variables_missing: regexList,
+})
+  .or(...FUNCTION_CRITERIA, ...STATE_CRITERIA)
+  .messages({
+    'object.missing': '{{#label}} must contain at least one criterion',
+  });
+
+export const ruleSchema = Joi.object({
+  id: Joi.string()
+    .pattern(/^[a-z0-9][a-z0-9-]*$/)
+    .required()
+    .messages({
+      'string.pattern.base': '{{#label}} must be lowercase letters, digits and dashes',
+    }),
+  name: Joi.string(),
+  description: Joi.string(),
+  version: Joi.string().default('1.0.0'),
+  enabled: Joi.boolean().default(true),
+  risk_type: Joi.string()
+    .valid(...Object.values(RiskType))
+    .required(),
+  severity: Joi.string().valid(...Object.values(Severity)),
+  weight: Joi.number().min(0).max(10),
+  machine_reason: Joi.string().required(),
+  match: matchSchema.required(),
+});
+
+export const ruleFileSchema = Joi.object({
+  rules: Joi.array().items(ruleSchema).min(1).required(),
+});
@@ -3,18 +3,47 @@
  * Calculates deterministic risk scores from findings
  */
 
-import { RiskFinding, RiskDetectionResult, RiskClassification, classifyRiskScore } from '../../types/risk.types';
+import { RiskFinding, RiskDetectionResult, RiskClassification, classifyRiskScore, MITIGATION_DISCOUNTS } from '../../types/risk.types';
 
 export class ScoringAlgorithmService {
   /**
    * Calculate risk score from findings
-   * Formula: risk_score = min(10, Σ(weight_i))
+   * Formula: risk_score = min(10, Σ(adjusted_weight_i))
    */
   static calculateRiskScore(findings: RiskFinding[]): number {
-    const totalWeight = findings.reduce((sum, finding) => sum + finding.weight, 0);
+    const totalWeight = findings.reduce((sum, finding) => sum + this.getEffectiveWeight(finding), 0);
     return Math.min(10, Math.round(totalWeight * 10) / 10); // Round to 1 decimal
   }
 
+  /**
+   * Calculate risk score ignoring mitigations
+   */
+  static calculateUnmitigatedRiskScore(findings: RiskFinding[]): number {
+    const totalWeight = findings.reduce((sum, finding) => sum + finding.weight, 0);
+    return Math.min(10, Math.round(totalWeight * 10) / 10);
+  }
+
+  /**
+   * Discount a finding's weight by its mitigations
+   * Each mitigation type counts once; discounts combine multiplicatively
+   */
+  static applyMitigations(finding: RiskFinding): RiskFinding {
+    const types = new Set((finding.mitigations || []).map(m => m.type));
+    let factor = 1;
+    for (const type of types) {
+      factor *= 1 - MITIGATION_DISCOUNTS[type];
+    }
+
+    return {
+      ...finding,
+      adjusted_weight: Math.round(finding.weight * factor * 100) / 100,
+    };
+  }
+
+  private static getEffectiveWeight(finding: RiskFinding): number {
+    return finding.adjusted_weight !== undefined ? finding.adjusted_weight : finding.weight;
+  }
+
   /**
    * Calculate confidence score
    * Based on parsing success and pattern matching
@@ -55,7 +84,10 @@ export class ScoringAlgorithmService {
       patterns_matched: number;
     }
   ): RiskDetectionResult {
+    findings = findings.map(finding => this.applyMitigations(finding));
+
     const riskScore = this.calculateRiskScore(findings);
+    const unmitigatedScore = this.calculateUnmitigatedRiskScore(findings);
     const classification = classifyRiskScore(riskScore);
     const confidence = this.calculateConfidence(
       metadata.total_functions,
@@ -67,12 +99,42 @@ export class ScoringAlgorithmService {
     return {
       findings,
       risk_score: riskScore,
+      unmitigated_risk_score: unmitigatedScore,
+      mitigation_discount: Math.round((unmitigatedScore - riskScore) * 10) / 10,
       classification,
       confidence,
       metadata,
     };
   }
 
+  /**
+   * Combine the results of a proxy and its implementation
+   * Findings are tagged with the contract they came from and scored together
+   */
+  static combine(proxy: RiskDetectionResult, implementation: RiskDetectionResult): RiskDetectionResult {
+    const findings = this.sortBySeverity([
+      ...proxy.findings.map(finding => ({ ...finding, contract_role: 'PROXY' as const })),
+      ...implementation.findings.map(finding => ({ ...finding, contract_role: 'IMPLEMENTATION' as const })),
+    ]);
+
+    const result = this.buildResult(findings, {
+      total_functions: proxy.metadata.total_functions + implementation.metadata.total_functions,
+      successfully_parsed: proxy.metadata.successfully_parsed + implementation.metadata.successfully_parsed,
+      patterns_checked: Math.max(proxy.metadata.patterns_checked, implementation.metadata.patterns_checked),
+      patterns_matched: proxy.metadata.patterns_matched + implementation.metadata.patterns_matched,
+    });
+
+    return {
+      ...result,
+      // The weaker analysis bounds how much the combined result can be trusted
+      confidence: Math.min(proxy.confidence, implementation.confidence),
+      metadata: {
+        ...implementation.metadata,
+        ...result.metadata,
+      },
+    };
+  }
+
   /**
    * Sort findings by severity
    */
@@ -122,7 +184,7 @@ export class ScoringAlgorithmService {
       high: (grouped.HIGH || []).length,
       medium: (grouped.MEDIUM || []).length,
       low: (grouped.LOW || []).length,
-      total_weight: findings.reduce((sum, f) => sum + f.weight, 0),
+      total_weight: findings.reduce((sum, f) => sum + this.getEffectiveWeight(f), 0),
     };
   }
 }
@@ -0,0 +1,101 @@
+/**
+ * Source Preprocessor
+ * Produces a comment-stripped, string-literal-masked view of Solidity code
+ *
+ * Masking is length-preserving: comments and string contents are replaced by
+ * spaces and newlines are kept, so an offset in the sanitized text points at
+ * the same character (and line) in the original source.
+ */
+
+export interface PreprocessedSource {
+  original: string;
+  sanitized: string;
+  lineStarts: number[];
+}
+
+export class SourcePreprocessor {
+  /**
+   * Sanitize code and build the offset → line map
+   */
+  static process(code: string): PreprocessedSource {
+    return {
+      original: code,
+      sanitized: this.sanitize(code),
+      lineStarts: this.computeLineStarts(code),
+    };
+  }
+
+  /**
+   * Replace comments and string literal contents with whitespace
+   */
+  static sanitize(code: string): string {
+    const out = code.split('');
+    let i = 0;
+
+    const blank = (from: number, to: number) => {
+      for (let k = from; k < to; k++) {
+        if (out[k] !== '\n' && out[k] !== '\r') {
+          out[k] = ' ';
+        }
+      }
+    };
+
+    while (i < code.length) {
+      const char = code[i];
+      const next = code[i + 1];
+
+      if (char === '/' && next === '/') {
+        const end = code.indexOf('\n', i);
+        const stop = end === -1 ? code.length : end;
+        blank(i, stop);
+        i = stop;
+      } else if (char === '/' && next === '*') {
+        const end = code.indexOf('*/', i + 2);
+        const stop = end === -1 ? code.length : end + 2;
+        blank(i, stop);
+        i = stop;
+      } else if (char === '"' || char === '\'') {
+        // Keep the quotes so statements stay recognisable, mask the contents
+        let j = i + 1;
+        while (j < code.length && code[j] !== char && code[j] !== '\n') {
+          j += code[j] === '\\' ? 2 : 1;
+        }
+        blank(i + 1, Math.min(j, code.length));
+        i = j + 1;
+      } else {
+        i++;
+      }
+    }
+
+    return out.join('');
+  }
+
+  /**
+   * Map a character offset to its 1-based line number
+   */
+  static offsetToLine(source: PreprocessedSource, offset: number): number {
+    let low = 0;
+    let high = source.lineStarts.length - 1;
+
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (source.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return low + 1;
+  }
+
+  private static computeLineStarts(code: string): number[] {
+    const starts = [0];
+    for (let i = 0; i < code.length; i++) {
+      if (code[i] === '\n') {
+        starts.push(i + 1);
+      }
+    }
+    return starts;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Virtual File System
+ * In-memory view of a (possibly multi-file) Solidity project
+ */
+
+import path from 'path';
+import { SourcePreprocessor } from './source-preprocessor';
+
+const DECLARATION = /\b(abstract\s+contract|contract|interface|library)\s+(\w+)(?:\s+is\s+([^{]*))?\{/g;
+
+export class VirtualFileSystem {
+  /**
+   * Path used when a single source string is analyzed
+   */
+  static readonly DEFAULT_PATH = 'Contract.sol';
+
+  private files: Map<string, string>;
+  private remappings: Array<{ prefix: string; target: string }>;
+  readonly mainFile: string;
+
+  constructor(files: Record<string, string>, mainFile?: string, remappings: string[] = []) {
+    this.files = new Map(
+      Object.entries(files).map(([filePath, content]) => [this.normalize(filePath), content])
+    );
+
+    if (this.files.size === 0) {
+      throw new Error('Virtual file system requires at least one source file');
+    }
+
+    this.remappings = remappings
+      .map(remapping => remapping.replace(/^[^:]*:/, '')) // drop context prefix
+      .filter(remapping => remapping.includes('='))
+      .map(remapping => {
+        const [prefix, target] = remapping.split('=');
+        return { prefix, target };
+      });
+
+    const normalizedMain = mainFile ? this.normalize(mainFile) : undefined;
+    this.mainFile = normalizedMain && this.files.has(normalizedMain)
+      ? normalizedMain
+      : this.findMostDerivedFile();
+  }
+
+  /**
+   * Wrap a single source string
+   */
+  static fromSource(code: string, filePath: string = VirtualFileSystem.DEFAULT_PATH): VirtualFileSystem {
+    return new VirtualFileSystem({ [filePath]: code }, filePath);
+  }
+
+  /**
+   * Accept either a raw source string or an existing file system
+   */
+  static from(source: string | VirtualFileSystem): VirtualFileSystem {
+    return typeof source === 'string' ? this.fromSource(source) : source;
+  }
+
+  /**
+   * All file paths, in insertion order
+   */
+  paths(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  /**
+   * Read file content
+   */
+  read(filePath: string): string | undefined {
+    return this.files.get(this.normalize(filePath));
+  }
+
+  /**
+   * Check if a file exists
+   */
+  has(filePath: string): boolean {
+    return this.files.has(this.normalize(filePath));
+  }
+
+  /**
+   * Total size of all files in bytes
+   */
+  totalSize(): number {
+    let size = 0;
+    for (const content of this.files.values()) {
+      size += Buffer.byteLength(content, 'utf8');
+    }
+    return size;
+  }
+
+  /**
+   * All file contents joined, for whole-project pattern checks and hashing
+   */
+  combinedSource(): string {
+    return Array.from(this.files.values()).join('\n\n');
+  }
+
+  /**
+   * Resolve an import path relative to the importing file
+   * Returns null when the imported file is not part of the project
+   */
+  resolveImport(fromPath: string, importPath: string): string | null {
+    const candidates: string[] = [];
+
+    if (importPath.startsWith('./') || importPath.startsWith('../')) {
+      candidates.push(path.posix.join(path.posix.dirname(this.normalize(fromPath)), importPath));
+    } else {
+      for (const { prefix, target } of this.remappings) {
+        if (importPath.startsWith(prefix)) {
+          candidates.push(target + importPath.substring(prefix.length));
+        }
+      }
+      candidates.push(importPath);
+    }
+
+    for (const candidate of candidates) {
+      const normalized = this.normalize(candidate);
+      if (this.files.has(normalized)) {
+        return normalized;
+      }
+    }
+
+    // Explorers sometimes strip or prefix directories; fall back to a unique suffix match
+    const suffix = this.normalize(importPath).replace(/^(\.\.\/)+/, '');
+    const matches = this.paths().filter(p => p === suffix || p.endsWith(`/${suffix}`));
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  /**
+   * File defining the contract no other contract inherits from, preferring the one with the most bases.
+   * Used when the main file is unknown, so the parser starts from the deployed contract rather than a dependency
+   */
+  private findMostDerivedFile(): string {
+    const bases = new Set<string>();
+    const candidates: Array<{ filePath: string; name: string; baseCount: number }> = [];
+
+    for (const [filePath, content] of this.files) {
+      for (const match of SourcePreprocessor.sanitize(content).matchAll(DECLARATION)) {
+        const inherited = (match[3] || '').split(',').map(base => base.trim().split(/[\s(]/)[0]).filter(Boolean);
+        inherited.forEach(base => bases.add(base));
+        if (match[1] === 'contract') {
+          candidates.push({ filePath, name: match[2], baseCount: inherited.length });
+        }
+      }
+    }
+
+    const mostDerived = candidates
+      .filter(candidate => !bases.has(candidate.name))
+      .sort((a, b) => b.baseCount - a.baseCount);
+    return mostDerived.length > 0 ? mostDerived[0].filePath : this.paths()[0];
+  }
+
+  private normalize(filePath: string): string {
+    return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '');
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * RPC Service
+ * Minimal JSON-RPC client for reading code, storage and view calls from a chain's node
+ */
+
+import axios from 'axios';
+import { ChainRegistry } from './chain-registry';
+import { ApiError } from '../utils/ApiError';
+
+export class RpcService {
+  /**
+   * Check if a JSON-RPC endpoint is configured for the chain
+   */
+  static isConfigured(chain: string): boolean {
+    return !!ChainRegistry.getRpcUrl(chain);
+  }
+
+  /**
+   * Fetch deployed runtime bytecode (eth_getCode)
+   * Returns '0x' for externally owned accounts
+   */
+  static async getCode(address: string, chain: string = 'ethereum'): Promise<string> {
+    return this.call<string>(chain, 'eth_getCode', [address, 'latest']);
+  }
+
+  /**
+   * Latest block number (eth_blockNumber)
+   */
+  static async getBlockNumber(chain: string = 'ethereum'): Promise<number> {
+    return parseInt(await this.call<string>(chain, 'eth_blockNumber', []), 16);
+  }
+
+  /**
+   * Read a 32-byte storage slot (eth_getStorageAt)
+   */
+  static async getStorageAt(address: string, slot: string, chain: string = 'ethereum'): Promise<string> {
+    return this.call<string>(chain, 'eth_getStorageAt', [address, slot, 'latest']);
+  }
+
+  /**
+   * Execute a read-only call against the latest block (eth_call)
+   */
+  static async ethCall(to: string, data: string, chain: string = 'ethereum'): Promise<string> {
+    return this.call<string>(chain, 'eth_call', [{ to, data }, 'latest']);
+  }
+
+  /**
+   * Address held in the low 20 bytes of a 32-byte word; null when zero or empty
+   */
+  static decodeAddress(word: string | null | undefined): string | null {
+    const hex = (word || '').replace(/^0x/, '');
+    if (hex.length < 40 || /^0+$/.test(hex)) {
+      return null;
+    }
+    return `0x${hex.slice(-40).toLowerCase()}`;
+  }
+
+  /**
+   * Send a JSON-RPC request
+   */
+  private static async call<T>(chain: string, method: string, params: unknown[]): Promise<T> {
+    const url = ChainRegistry.getRpcUrl(chain);
+    if (!url) {
+      throw new ApiError(500, 'MISSING_RPC_URL', `RPC endpoint not configured for chain: ${chain}`);
+    }
+
+    try {
+      const response = await axios.post(
+        url,
+        { jsonrpc: '2.0', id: 1, method, params },
+        { timeout: 10000 }
+      );
+
+      if (response.data.error) {
+        throw new ApiError(502, 'RPC_ERROR', `${method} failed: ${response.data.error.message}`);
+      }
+
+      return response.data.result as T;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED') {
+          throw new ApiError(504, 'GATEWAY_TIMEOUT', 'Request to RPC endpoint timed out');
+        }
+        throw new ApiError(502, 'BAD_GATEWAY', `Failed to reach RPC endpoint: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
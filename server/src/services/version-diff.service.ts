@@ -0,0 +1,258 @@
+/**
+ * Version Diff Service
+ * Reports what changed between two versions of a contract and the risk the new version introduces
+ */
+
+import { ASTParserService, SolidityParseError } from './risk-detection/ast-parser.service';
+import { InheritanceResolverService } from './risk-detection/inheritance-resolver.service';
+import { RiskEngineService } from './risk-detection/risk-engine.service';
+import { ScoringAlgorithmService } from './risk-detection/scoring-algorithm.service';
+import { VirtualFileSystem } from './risk-detection/virtual-file-system';
+import { FunctionInfo } from './risk-detection/detectors/base-detector';
+import { ACCESS_MODIFIER_NAME } from './risk-detection/detectors/access-control-detector';
+import { ComparisonService } from './comparison.service';
+import { EtherscanService } from './etherscan.service';
+import { ApiError } from '../utils/ApiError';
+import { RiskDetectionResult } from '../types/risk.types';
+import {
+  FunctionChangeKind,
+  FunctionDiff,
+  RemovedAccessControl,
+  VersionDiffResult,
+} from '../types/comparison.types';
+
+const signatureOf = (func: FunctionInfo): string =>
+  `${func.name}(${func.parameters.map(param => param.replace(/\s+/g, '')).join(',')})`;
+
+// Masked body, so comment-only edits do not count as modifications
+const normalizedBody = (func: FunctionInfo): string => func.body.replace(/\s+/g, ' ').trim();
+
+export class VersionDiffService {
+  /**
+   * Diff two contract versions given as Solidity source or verified contract addresses
+   */
+  static async diff(oldInput: string, newInput: string, chain: string): Promise<VersionDiffResult> {
+    const oldSources = await this.loadSources(oldInput, chain);
+    const newSources = await this.loadSources(newInput, chain);
+
+    const oldResult = await this.analyze(oldSources);
+    const newResult = await this.analyze(newSources);
+
+    const oldFunctions = this.getFunctions(oldSources);
+    const newFunctions = this.getFunctions(newSources);
+    const functions = this.diffFunctions(oldFunctions, newFunctions);
+
+    const matched = ComparisonService.matchFindings(oldResult.findings, newResult.findings);
+    const introduced = matched.filter(match => match.change === 'ADDED').map(match => match.finding);
+    const resolved = matched.filter(match => match.change === 'REMOVED').map(({ finding }) => ({
+      type: finding.type,
+      severity: finding.severity,
+      function_name: finding.function_name,
+      contract_role: finding.contract_role,
+      change: 'REMOVED' as const,
+    }));
+
+    const result: VersionDiffResult = {
+      old_risk_score: oldResult.risk_score,
+      new_risk_score: newResult.risk_score,
+      score_delta: Math.round((newResult.risk_score - oldResult.risk_score) * 10) / 10,
+      introduced_risk_score: ScoringAlgorithmService.calculateRiskScore(introduced),
+      functions: functions.diffs,
+      function_counts: {
+        added: functions.diffs.filter(diff => diff.change === 'ADDED').length,
+        removed: functions.diffs.filter(diff => diff.change === 'REMOVED').length,
+        modified: functions.diffs.filter(diff => diff.change === 'MODIFIED').length,
+        unchanged: functions.unchanged,
+      },
+      access_control_removed: this.findRemovedAccessControl(oldFunctions, newFunctions),
+      introduced_findings: introduced,
+      resolved_findings: resolved,
+      summary: '',
+    };
+    result.summary = this.summarize(result);
+
+    return result;
+  }
+
+  /**
+   * Source as given, or verified source fetched from the explorer
+   */
+  private static async loadSources(input: string, chain: string): Promise<VirtualFileSystem> {
+    let sources: VirtualFileSystem;
+    if (EtherscanService.isValidAddress(input)) {
+      const contractData = await EtherscanService.fetchContractSource(input.toLowerCase(), chain);
+      sources = new VirtualFileSystem(
+        contractData.sources.files,
+        contractData.sources.mainFile,
+        contractData.sources.remappings
+      );
+    } else {
+      sources = VirtualFileSystem.fromSource(input);
+    }
+
+    if (!ASTParserService.isValidSolidity(sources.combinedSource())) {
+      throw new ApiError(400, 'INVALID_CONTRACT', 'Version diff requires Solidity source or a verified contract address');
+    }
+    RiskEngineService.validateSize(sources.combinedSource());
+    return sources;
+  }
+
+  private static async analyze(sources: VirtualFileSystem): Promise<RiskDetectionResult> {
+    try {
+      return await RiskEngineService.analyze(sources);
+    } catch (error) {
+      if (error instanceof SolidityParseError) {
+        throw new ApiError(400, 'INVALID_CONTRACT', error.message, {
+          file_path: error.filePath,
+          line: error.line,
+          column: error.column,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deployed functions (including inherited ones), keyed by signature
+   */
+  private static getFunctions(sources: VirtualFileSystem): Map<string, FunctionInfo> {
+    const context = ASTParserService.parse(sources);
+    const functions = new Map<string, FunctionInfo>();
+    for (const func of InheritanceResolverService.getTargetFunctions(context)) {
+      const signature = signatureOf(func);
+      if (func.kind !== 'constructor' && !functions.has(signature)) {
+        functions.set(signature, func);
+      }
+    }
+    return functions;
+  }
+
+  /**
+   * Align functions by signature, then pair leftovers whose name is unique on both sides
+   */
+  private static diffFunctions(
+    oldFunctions: Map<string, FunctionInfo>,
+    newFunctions: Map<string, FunctionInfo>
+  ): { diffs: FunctionDiff[]; unchanged: number } {
+    const pairs: Array<[FunctionInfo, FunctionInfo]> = [];
+    const oldOnly = new Map(oldFunctions);
+    const newOnly = new Map(newFunctions);
+
+    for (const [signature, func] of newFunctions) {
+      const previous = oldOnly.get(signature);
+      if (previous) {
+        pairs.push([previous, func]);
+        oldOnly.delete(signature);
+        newOnly.delete(signature);
+      }
+    }
+
+    const byName = (functions: Map<string, FunctionInfo>, name: string): FunctionInfo[] =>
+      Array.from(functions.values()).filter(func => func.name === name);
+
+    for (const [signature, func] of Array.from(newOnly)) {
+      const oldCandidates = byName(oldOnly, func.name);
+      if (oldCandidates.length === 1 && byName(newOnly, func.name).length === 1) {
+        pairs.push([oldCandidates[0], func]);
+        oldOnly.delete(signatureOf(oldCandidates[0]));
+        newOnly.delete(signature);
+      }
+    }
+
+    const diffs: FunctionDiff[] = [];
+    let unchanged = 0;
+
+    for (const [previous, current] of pairs) {
+      const changes: FunctionChangeKind[] = [];
+      if (signatureOf(previous) !== signatureOf(current)) changes.push('signature');
+      if (normalizedBody(previous) !== normalizedBody(current)) changes.push('body');
+      const addedModifiers = current.modifiers.filter(name => !previous.modifiers.includes(name));
+      const removedModifiers = previous.modifiers.filter(name => !current.modifiers.includes(name));
+      if (addedModifiers.length > 0 || removedModifiers.length > 0) changes.push('modifiers');
+      if (previous.visibility !== current.visibility) changes.push('visibility');
+      if (previous.stateMutability !== current.stateMutability) changes.push('state_mutability');
+
+      if (changes.length === 0) {
+        unchanged++;
+        continue;
+      }
+
+      diffs.push({
+        name: current.name,
+        signature: signatureOf(current),
+        old_signature: changes.includes('signature') ? signatureOf(previous) : undefined,
+        contract_name: current.contractName,
+        change: 'MODIFIED',
+        changes,
+        added_modifiers: addedModifiers.length > 0 ? addedModifiers : undefined,
+        removed_modifiers: removedModifiers.length > 0 ? removedModifiers : undefined,
+      });
+    }
+
+    for (const func of newOnly.values()) {
+      diffs.push({ name: func.name, signature: signatureOf(func), contract_name: func.contractName, change: 'ADDED' });
+    }
+    for (const func of oldOnly.values()) {
+      diffs.push({ name: func.name, signature: signatureOf(func), contract_name: func.contractName, change: 'REMOVED' });
+    }
+
+    return { diffs, unchanged };
+  }
+
+  /**
+   * Functions that kept their signature but lost an access-control modifier
+   */
+  private static findRemovedAccessControl(
+    oldFunctions: Map<string, FunctionInfo>,
+    newFunctions: Map<string, FunctionInfo>
+  ): RemovedAccessControl[] {
+    const removed: RemovedAccessControl[] = [];
+
+    for (const [signature, current] of newFunctions) {
+      const previous = oldFunctions.get(signature);
+      if (!previous) {
+        continue;
+      }
+
+      const removedModifiers = previous.modifiers.filter(name =>
+        ACCESS_MODIFIER_NAME.test(name) && !current.modifiers.includes(name)
+      );
+      if (removedModifiers.length > 0) {
+        removed.push({
+          function_name: current.name,
+          signature,
+          removed_modifiers: removedModifiers,
+          file_path: current.filePath,
+          line_number: current.startLine,
+        });
+      }
+    }
+
+    return removed;
+  }
+
+  private static summarize(result: VersionDiffResult): string {
+    const parts: string[] = [];
+
+    if (result.introduced_findings.length === 0) {
+      parts.push('No new risk was introduced by this upgrade.');
+    } else {
+      const findings = result.introduced_findings
+        .map(finding => (finding.function_name ? `${finding.type} in ${finding.function_name}` : finding.type))
+        .join('; ');
+      parts.push(`This upgrade introduces ${result.introduced_risk_score}/10 of new risk: ${findings}.`);
+    }
+
+    for (const entry of result.access_control_removed) {
+      parts.push(`${entry.signature} lost ${entry.removed_modifiers.join(', ')}.`);
+    }
+
+    const counts = result.function_counts;
+    parts.push(
+      `${counts.added} function(s) added, ${counts.removed} removed, ${counts.modified} modified; ` +
+      `overall score ${result.old_risk_score} → ${result.new_risk_score}.`
+    );
+
+    return parts.join(' ');
+  }
+}
@@ -0,0 +1,116 @@
+import { AbiAnalyzerService, AbiItem, ABI_CONFIDENCE_FACTOR } from '../services/risk-detection/abi/abi-analyzer.service';
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { ScoringAlgorithmService } from '../services/risk-detection/scoring-algorithm.service';
+import { RiskType } from '../types/risk.types';
+import { ADJUSTABLE_FEES, SAFE_ERC20 } from './fixtures/sample-contracts';
+
+const fn = (name: string, inputs: string[] = [], stateMutability: AbiItem['stateMutability'] = 'nonpayable'): AbiItem => ({
+  type: 'function',
+  name,
+  inputs: inputs.map((type, index) => ({ name: `arg${index}`, type })),
+  stateMutability,
+});
+
+const TOKEN_ABI: AbiItem[] = [
+  fn('owner', [], 'view'),
+  fn('transfer', ['address', 'uint256']),
+  fn('mint', ['address', 'uint256']),
+  fn('setFee', ['uint256']),
+  fn('setMaxTxAmount', ['uint256']),
+  fn('pause'),
+  fn('unpause'),
+  { type: 'event', name: 'Transfer' },
+];
+
+describe('AbiAnalyzerService', () => {
+  it('recognises JSON ABIs and nothing else', () => {
+    expect(AbiAnalyzerService.isAbi(JSON.stringify(TOKEN_ABI))).toBe(true);
+    expect(AbiAnalyzerService.isAbi('[]')).toBe(false);
+    expect(AbiAnalyzerService.isAbi('[{"name":"owner"}]')).toBe(false);
+    expect(AbiAnalyzerService.isAbi('[not json')).toBe(false);
+    expect(AbiAnalyzerService.isAbi('contract Token {}')).toBe(false);
+  });
+
+  it('builds canonical signatures, expanding tuples', () => {
+    const swap: AbiItem = {
+      type: 'function',
+      name: 'swap',
+      inputs: [
+        { type: 'tuple[]', components: [{ type: 'address' }, { type: 'uint256' }] },
+        { type: 'bytes' },
+      ],
+    };
+
+    expect(AbiAnalyzerService.signatureOf(swap)).toBe('swap((address,uint256)[],bytes)');
+  });
+
+  it('reports one finding per privileged risk type plus centralized ownership', () => {
+    const findings = AbiAnalyzerService.detect(TOKEN_ABI);
+
+    expect(findings.map(f => f.type).sort()).toEqual([
+      RiskType.ADJUSTABLE_FEES,
+      RiskType.CENTRALIZED_OWNERSHIP,
+      RiskType.MAX_TX_LIMIT,
+      RiskType.OWNER_RESTRICTED_MINTING,
+      RiskType.PAUSABLE_CONTRACT,
+    ].sort());
+    expect(findings.find(f => f.type === RiskType.PAUSABLE_CONTRACT)).toMatchObject({
+      source: 'ABI',
+      line_number: 0,
+      function_name: 'pause',
+      code_snippet: 'function pause() external\nfunction unpause() external',
+    });
+    expect(findings.find(f => f.type === RiskType.CENTRALIZED_OWNERSHIP)?.machine_reason).toContain('owner()');
+  });
+
+  it('ignores view functions and ownership without privileged functions', () => {
+    const findings = AbiAnalyzerService.detect([fn('owner', [], 'view'), fn('setFee', ['uint256'], 'view'), fn('transfer', ['address', 'uint256'])]);
+
+    expect(findings).toEqual([]);
+  });
+
+  it('treats a payable fallback as a likely proxy unless upgradeTo is already reported', () => {
+    const fallback: AbiItem = { type: 'fallback', stateMutability: 'payable' };
+
+    const proxy = AbiAnalyzerService.detect([fallback, fn('implementation', [], 'view')]);
+    const uups = AbiAnalyzerService.detect([fallback, fn('upgradeTo', ['address'])]);
+
+    expect(proxy.map(f => f.type)).toEqual([RiskType.DELEGATECALL_USAGE]);
+    expect(proxy[0].machine_reason).toContain('proxy functions (implementation)');
+    expect(uups.map(f => f.type)).toEqual([RiskType.UUPS_PROXY]);
+  });
+
+  it('analyzes an ABI with resolved selectors and reduced confidence', () => {
+    const result = AbiAnalyzerService.analyze(TOKEN_ABI);
+
+    expect(result.metadata).toMatchObject({
+      analysis_mode: 'ABI',
+      total_functions: 7,
+    });
+    expect(result.metadata.function_signatures?.['0x40c10f19']).toEqual(['mint(address,uint256)']);
+    expect(result.confidence).toBe(
+      Math.round(ScoringAlgorithmService.calculateConfidence(7, 7, 3, result.findings.length) * ABI_CONFIDENCE_FACTOR * 100) / 100
+    );
+    expect(result.risk_score).toBeGreaterThan(0);
+  });
+
+  describe('supplement', () => {
+    it('adds ABI findings for risk types the source analysis missed', async () => {
+      const source = await RiskEngineService.analyze(SAFE_ERC20);
+      const supplemented = AbiAnalyzerService.supplement(source, [fn('owner', [], 'view'), fn('pause')]);
+      const added = supplemented.findings.filter(f => f.source === 'ABI');
+
+      expect(added.map(f => f.type)).toEqual(expect.arrayContaining([RiskType.PAUSABLE_CONTRACT]));
+      expect(supplemented.findings).toHaveLength(source.findings.length + added.length);
+      expect(supplemented.risk_score).toBeGreaterThan(source.risk_score);
+      expect(supplemented.confidence).toBe(source.confidence);
+      expect(supplemented.metadata).toBe(source.metadata);
+    });
+
+    it('returns the source result unchanged when every ABI risk is already covered', async () => {
+      const source = await RiskEngineService.analyze(ADJUSTABLE_FEES);
+
+      expect(AbiAnalyzerService.supplement(source, [fn('addToBlacklist', ['address'])])).toBe(source);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { ASTParserService } from '../services/risk-detection/ast-parser.service';
+import { AccessControlDetector } from '../services/risk-detection/detectors/access-control-detector';
+import { RiskType } from '../types/risk.types';
+import { ADJUSTABLE_FEES, RISKY_UNLIMITED_MINTING, UNPROTECTED_ADMIN, UNPROTECTED_DELEGATION } from './fixtures/sample-contracts';
+
+describe('AccessControlDetector', () => {
+  const detector = new AccessControlDetector();
+
+  it('flags public functions writing privileged state without a caller check', () => {
+    const findings = detector.detect(ASTParserService.parse(UNPROTECTED_ADMIN));
+
+    expect(findings.map(f => f.function_name).sort()).toEqual(['initialize', 'setOwner']);
+    findings.forEach(finding => {
+      expect(finding.type).toBe(RiskType.UNPROTECTED_PRIVILEGED_FUNCTION);
+      expect(finding.machine_reason).toContain("writes ownership variable 'owner'");
+    });
+  });
+
+  it('accepts access-control modifiers and inline msg.sender checks', () => {
+    const names = detector.detect(ASTParserService.parse(UNPROTECTED_ADMIN)).map(f => f.function_name);
+
+    expect(names).not.toContain('setTaxFee');
+    expect(names).not.toContain('changeOwner');
+  });
+
+  it('ignores per-user writes keyed by the caller or a token id', () => {
+    const names = detector.detect(ASTParserService.parse(UNPROTECTED_ADMIN)).map(f => f.function_name);
+
+    expect(names).not.toContain('deposit');
+    expect(names).not.toContain('claim');
+  });
+
+  it('follows unguarded calls into internal functions, transitively', () => {
+    const findings = detector.detect(ASTParserService.parse(UNPROTECTED_DELEGATION));
+    const byName = new Map(findings.map(f => [f.function_name, f]));
+
+    expect(Array.from(byName.keys()).sort()).toEqual(['mint', 'transferOwnership']);
+    expect(byName.get('mint')?.machine_reason).toContain("writes supply variable '_totalSupply' through _update");
+    expect(byName.get('mint')?.line_number).toBe(24);
+    expect(byName.get('transferOwnership')?.machine_reason).toContain(
+      "writes ownership variable '_owner' through _transferOwnership"
+    );
+  });
+
+  it('reports nothing for owner-guarded contracts', () => {
+    expect(detector.detect(ASTParserService.parse(RISKY_UNLIMITED_MINTING))).toEqual([]);
+    expect(detector.detect(ASTParserService.parse(ADJUSTABLE_FEES))).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { NextFunction, Response } from 'express';
+import { AnalysesController } from '../controllers/analyses.controller';
+import { AuthRequest } from '../middleware/auth';
+import { ValidatorMiddleware } from '../middleware/validator';
+import { InMemoryAnalysisRepository, setAnalysisRepository } from '../repositories';
+import { ApiError } from '../utils/ApiError';
+import { analysisHistorySchema } from '../utils/validation-schemas';
+import { CompleteAnalysisResult, RiskClassification } from '../types/risk.types';
+
+const CONTRACT = '0x00000000000000000000000000000000000000ab';
+
+const result = (id: string, riskScore: number, classification: RiskClassification, chain: string): CompleteAnalysisResult => ({
+  id,
+  risk_score: riskScore,
+  unmitigated_risk_score: riskScore,
+  mitigation_discount: 0,
+  classification,
+  confidence: 0.8,
+  risks: [],
+  beginner_summary: '',
+  developer_summary: '',
+  metadata: { chain, is_verified: true, lines_of_code: 10, total_functions: 1, processing_time_ms: 5 },
+  cached: false,
+  analyzed_at: new Date().toISOString(),
+});
+
+/**
+ * Run GET /analyses for user-1: query validation, then the controller
+ */
+const listAnalyses = async (query: Record<string, string>) => {
+  const req = { query, user: { id: 'user-1' } } as unknown as AuthRequest;
+  const res = { json: jest.fn() } as unknown as Response;
+  const next = jest.fn() as NextFunction;
+
+  ValidatorMiddleware.query(analysisHistorySchema)(req, res, next);
+  const validationError = (next as jest.Mock).mock.calls[0]?.[0];
+  if (validationError) {
+    return { error: validationError as ApiError };
+  }
+
+  await AnalysesController.list(req, res, next);
+  return { body: (res.json as jest.Mock).mock.calls[0][0] };
+};
+
+describe('AnalysesController.list', () => {
+  beforeAll(async () => {
+    jest.useFakeTimers();
+    const repository = new InMemoryAnalysisRepository();
+    setAnalysisRepository(repository);
+
+    const seeds: Array<[string, string, number, RiskClassification, string?]> = [
+      ['a', 'ethereum', 2, RiskClassification.LOW],
+      ['b', 'polygon', 8, RiskClassification.HIGH],
+      ['c', 'ethereum', 5, RiskClassification.MODERATE, CONTRACT],
+      ['d', 'base', 6, RiskClassification.MODERATE],
+    ];
+    for (const [day, [id, chain, riskScore, classification, contractAddress]] of seeds.entries()) {
+      jest.setSystemTime(new Date(Date.UTC(2024, 0, day + 1)));
+      await repository.create({
+        id,
+        userId: 'user-1',
+        chain,
+        contractAddress,
+        sourceHash: `hash-${id}`,
+        mode: 'BEGINNER',
+        result: result(id, riskScore, classification, chain),
+      });
+    }
+    await repository.create({
+      id: 'other',
+      userId: 'user-2',
+      chain: 'ethereum',
+      sourceHash: 'hash-other',
+      mode: 'BEGINNER',
+      result: result('other', 9, RiskClassification.VERY_HIGH, 'ethereum'),
+    });
+    jest.useRealTimers();
+  });
+
+  it("returns the user's analyses newest first with pagination defaults", async () => {
+    const { body } = await listAnalyses({});
+
+    expect(body.data.items.map((item: { id: string }) => item.id)).toEqual(['d', 'c', 'b', 'a']);
+    expect(body.data.items[1]).toEqual({
+      id: 'c',
+      contract_address: CONTRACT,
+      chain: 'ethereum',
+      risk_score: 5,
+      classification: RiskClassification.MODERATE,
+      confidence: 0.8,
+      total_risks: 0,
+      analysis_mode: undefined,
+      created_at: '2024-01-03T00:00:00.000Z',
+    });
+    expect(body.data.pagination).toEqual({
+      currentPage: 1,
+      totalPages: 1,
+      totalItems: 4,
+      itemsPerPage: 20,
+      hasNextPage: false,
+      hasPreviousPage: false,
+    });
+  });
+
+  it('pages through the results', async () => {
+    const first = await listAnalyses({ limit: '3' });
+    const second = await listAnalyses({ limit: '3', page: '2' });
+
+    expect(first.body.data.items).toHaveLength(3);
+    expect(first.body.data.pagination).toMatchObject({ totalPages: 2, hasNextPage: true, hasPreviousPage: false });
+    expect(second.body.data.items.map((item: { id: string }) => item.id)).toEqual(['a']);
+    expect(second.body.data.pagination).toMatchObject({ currentPage: 2, hasNextPage: false, hasPreviousPage: true });
+  });
+
+  it('sorts by risk score and filters by chain, classification, address and date', async () => {
+    const ids = async (query: Record<string, string>) =>
+      (await listAnalyses(query)).body.data.items.map((item: { id: string }) => item.id);
+
+    expect(await ids({ sortBy: 'riskScore', sortOrder: 'asc' })).toEqual(['a', 'c', 'd', 'b']);
+    expect(await ids({ chain: 'ethereum' })).toEqual(['c', 'a']);
+    expect(await ids({ classification: 'MODERATE' })).toEqual(['d', 'c']);
+    expect(await ids({ contractAddress: '0x00000000000000000000000000000000000000AB' })).toEqual(['c']);
+    expect(await ids({ from: '2024-01-02', to: '2024-01-03' })).toEqual(['c', 'b']);
+  });
+
+  it('rejects invalid query parameters with every problem listed', async () => {
+    const { error } = await listAnalyses({
+      limit: '500',
+      sortBy: 'name',
+      classification: 'SCARY',
+      contractAddress: '0x123',
+      from: '2024-02-01',
+      to: '2024-01-01',
+    });
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error?.statusCode).toBe(400);
+    expect(error?.details?.map((detail: { field: string }) => detail.field)).toEqual(['limit', 'sortBy', 'classification', 'contractAddress', 'to']);
+  });
+});
@@ -0,0 +1,101 @@
+import { AnalysisWorkerService } from '../services/jobs/analysis-worker.service';
+import { InMemoryJobQueue, setJobQueue } from '../services/jobs';
+import { AnalysisJob } from '../types/job.types';
+import { SAFE_ERC20 } from './fixtures/sample-contracts';
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+const job = (id: string, changes: Partial<AnalysisJob> = {}): AnalysisJob => ({
+  id,
+  status: 'PENDING',
+  stage: 'QUEUED',
+  progress: 0,
+  input: SAFE_ERC20,
+  chain: 'ethereum',
+  mode: 'BEGINNER',
+  created_at: minutesAgo(0),
+  updated_at: minutesAgo(0),
+  ...changes,
+});
+
+describe('AnalysisWorkerService', () => {
+  let queue: InMemoryJobQueue;
+
+  beforeEach(() => {
+    queue = new InMemoryJobQueue();
+    setJobQueue(queue);
+  });
+
+  /**
+   * Enqueue and claim jobs as a worker that then stopped would have
+   */
+  const claim = async (...jobs: AnalysisJob[]) => {
+    for (const claimed of jobs) {
+      await queue.enqueue(claimed);
+      await queue.dequeue();
+    }
+  };
+
+  describe('recover', () => {
+    it('queues stale pending jobs again', async () => {
+      await claim(job('stale', { updated_at: minutesAgo(10) }));
+
+      await AnalysisWorkerService.recover();
+
+      expect(await queue.claimed()).toEqual([]);
+      expect(await queue.dequeue()).toBe('stale');
+    });
+
+    it('fails stale processing jobs with WORKER_LOST and records the failure', async () => {
+      await claim(job('lost', { status: 'PROCESSING', stage: 'DETECTING', updated_at: minutesAgo(10) }));
+
+      await AnalysisWorkerService.recover();
+
+      const failure = { code: 'WORKER_LOST', message: 'The worker running this analysis stopped, please resubmit' };
+      expect(await queue.get('lost')).toMatchObject({ status: 'FAILED', error: failure });
+      expect(await queue.getEvents('lost')).toEqual([{ type: 'failed', error: failure, seq: 1 }]);
+      expect(await queue.claimed()).toEqual([]);
+      expect(await queue.dequeue()).toBeNull();
+    });
+
+    it('leaves recently updated jobs claimed and releases finished ones', async () => {
+      await claim(
+        job('running', { status: 'PROCESSING', updated_at: minutesAgo(1) }),
+        job('done', { status: 'COMPLETED', updated_at: minutesAgo(1) })
+      );
+
+      await AnalysisWorkerService.recover();
+
+      expect(await queue.claimed()).toEqual(['running']);
+      expect((await queue.get('running'))?.status).toBe('PROCESSING');
+    });
+  });
+
+  describe('process', () => {
+    it('runs the analysis, recording stage events and the result', async () => {
+      await queue.enqueue(job('ok'));
+
+      await AnalysisWorkerService.process('ok');
+
+      const finished = await queue.get('ok');
+      const events = await queue.getEvents('ok');
+      expect(finished).toMatchObject({ status: 'COMPLETED', stage: 'DONE', progress: 100 });
+      expect(finished?.result?.id).toBe('ok');
+      expect(events.filter(event => event.type === 'stage').length).toBeGreaterThan(0);
+      expect(events.map(event => event.seq)).toEqual(events.map((_, index) => index + 1));
+      expect(events[events.length - 1].type).toBe('completed');
+    });
+
+    it('records the error code when the analysis fails', async () => {
+      await queue.enqueue(job('bad', { input: 'pragma solidity ^0.8.0;\ncontract A {\n    function f( }\n}' }));
+
+      await AnalysisWorkerService.process('bad');
+
+      const failed = await queue.get('bad');
+      const events = await queue.getEvents('bad');
+      expect(failed?.status).toBe('FAILED');
+      expect(failed?.error?.code).toBe('INVALID_CONTRACT');
+      expect(events[events.length - 1]).toMatchObject({ type: 'failed', error: failed?.error });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { EventEmitter } from 'events';
+import { NextFunction, Request, Response } from 'express';
+import { AnalyzeController } from '../controllers/analyze.controller';
+import { InMemoryJobQueue, setJobQueue } from '../services/jobs';
+import { InMemoryAnalysisRepository, setAnalysisRepository } from '../repositories';
+import { ApiError } from '../utils/ApiError';
+import { AnalysisJob } from '../types/job.types';
+import { CompleteAnalysisResult, RiskClassification } from '../types/risk.types';
+
+const result: CompleteAnalysisResult = {
+  id: 'done',
+  risk_score: 1,
+  unmitigated_risk_score: 1,
+  mitigation_discount: 0,
+  classification: RiskClassification.VERY_LOW,
+  confidence: 0.9,
+  risks: [],
+  beginner_summary: '',
+  developer_summary: '',
+  metadata: { chain: 'ethereum', is_verified: true, lines_of_code: 10, total_functions: 1, processing_time_ms: 5 },
+  cached: false,
+  analyzed_at: new Date().toISOString(),
+};
+
+const job = (id: string, userId?: string): AnalysisJob => ({
+  id,
+  status: 'PROCESSING',
+  stage: 'PARSING',
+  progress: 20,
+  input: 'contract A {}',
+  chain: 'ethereum',
+  mode: 'BEGINNER',
+  user_id: userId,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+});
+
+/**
+ * GET /analyze/:id/events with an in-process request and a response that records what was written
+ */
+const openStream = async (id: string, options: { lastEventId?: string; userId?: string } = {}) => {
+  const req = Object.assign(new EventEmitter(), {
+    params: { id },
+    user: options.userId ? { id: options.userId } : undefined,
+    header: (name: string) => (name === 'Last-Event-ID' ? options.lastEventId : undefined),
+  }) as unknown as Request;
+
+  const chunks: string[] = [];
+  const res = {
+    headersSent: false,
+    status: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    flushHeaders: jest.fn(function (this: { headersSent: boolean }) { this.headersSent = true; }),
+    write: jest.fn((chunk: string) => chunks.push(chunk)),
+    end: jest.fn(),
+  };
+  const next = jest.fn() as NextFunction;
+
+  await AnalyzeController.streamEvents(req, res as unknown as Response, next);
+
+  return {
+    req,
+    res,
+    next: next as jest.Mock,
+    // Parsed SSE messages written so far
+    messages: () => chunks.map(chunk => {
+      const fields = Object.fromEntries(
+        chunk.trim().split('\n').map(line => [line.slice(0, line.indexOf(':')), line.slice(line.indexOf(':') + 2)])
+      );
+      return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+    }),
+  };
+};
+
+describe('AnalyzeController.streamEvents', () => {
+  let queue: InMemoryJobQueue;
+  let repository: InMemoryAnalysisRepository;
+
+  beforeEach(async () => {
+    queue = new InMemoryJobQueue();
+    setJobQueue(queue);
+    repository = new InMemoryAnalysisRepository();
+    setAnalysisRepository(repository);
+
+    await queue.enqueue(job('running'));
+    await queue.appendEvent('running', { type: 'stage', stage: 'FETCHING_SOURCE', progress: 10 });
+    await queue.appendEvent('running', { type: 'stage', stage: 'PARSING', progress: 20 });
+  });
+
+  it('replays recorded events with their sequence number as the event id', async () => {
+    const stream = await openStream('running');
+
+    expect(stream.res.set).toHaveBeenCalledWith(expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+    expect(stream.messages()).toEqual([
+      { id: '1', event: 'stage', data: { type: 'stage', stage: 'FETCHING_SOURCE', progress: 10 } },
+      { id: '2', event: 'stage', data: { type: 'stage', stage: 'PARSING', progress: 20 } },
+    ]);
+    expect(stream.res.end).not.toHaveBeenCalled();
+
+    stream.req.emit('close');
+  });
+
+  it('resumes after Last-Event-ID', async () => {
+    const stream = await openStream('running', { lastEventId: '1' });
+
+    expect(stream.messages().map(message => message.id)).toEqual(['2']);
+
+    stream.req.emit('close');
+  });
+
+  it('streams live events and ends after the final one', async () => {
+    const stream = await openStream('running', { lastEventId: '2' });
+
+    await queue.appendEvent('running', { type: 'stage', stage: 'DETECTING', progress: 30 });
+    await queue.appendEvent('running', { type: 'completed', result });
+    await queue.appendEvent('running', { type: 'stage', stage: 'DONE', progress: 100 });
+
+    expect(stream.messages().map(message => [message.id, message.event])).toEqual([
+      ['3', 'stage'],
+      ['4', 'completed'],
+    ]);
+    expect(stream.res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops writing once the client disconnects', async () => {
+    const stream = await openStream('running');
+
+    stream.req.emit('close');
+    await queue.appendEvent('running', { type: 'stage', stage: 'DETECTING', progress: 30 });
+
+    expect(stream.messages()).toHaveLength(2);
+    expect(stream.res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it('ends with a stream_error without an id when live events cannot be subscribed to', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(queue, 'subscribe').mockRejectedValue(new Error('Redis is not connected'));
+
+    const stream = await openStream('running');
+
+    expect(stream.messages()).toEqual([{
+      id: undefined,
+      event: 'stream_error',
+      data: {
+        error: {
+          code: 'EVENTS_UNAVAILABLE',
+          message: 'Live progress is temporarily unavailable, reconnect to resume',
+        },
+      },
+    }]);
+    expect(stream.res.end).toHaveBeenCalledTimes(1);
+    error.mockRestore();
+  });
+
+  it('sends a stored result as a single completed event when there is no job', async () => {
+    await repository.create({ id: 'done', chain: 'ethereum', sourceHash: 'hash', mode: 'BEGINNER', result });
+
+    const stream = await openStream('done');
+
+    expect(stream.messages()).toEqual([{ id: '1', event: 'completed', data: { type: 'completed', result } }]);
+    expect(stream.res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns 404 for unknown analyses and other users' jobs", async () => {
+    await queue.enqueue(job('private', 'user-1'));
+
+    const unknown = await openStream('missing');
+    const foreign = await openStream('private', { userId: 'user-2' });
+
+    for (const stream of [unknown, foreign]) {
+      expect(stream.next).toHaveBeenCalledWith(expect.any(ApiError));
+      expect(stream.next.mock.calls[0][0].statusCode).toBe(404);
+      expect(stream.res.write).not.toHaveBeenCalled();
+    }
+  });
+});
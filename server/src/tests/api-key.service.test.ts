@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { NextFunction, Response } from 'express';
+import { ApiKeyService } from '../services/api-key.service';
+import { authenticate, AuthRequest, requireScope } from '../middleware/auth';
+import {
+  InMemoryApiKeyRepository,
+  InMemoryUserRepository,
+  setApiKeyRepository,
+  setUserRepository,
+} from '../repositories';
+import { ApiError } from '../utils/ApiError';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('ApiKeyService', () => {
+  const keys = new InMemoryApiKeyRepository();
+  const users = new InMemoryUserRepository();
+  let userId: string;
+
+  beforeAll(() => {
+    setApiKeyRepository(keys);
+    setUserRepository(users);
+  });
+
+  beforeEach(async () => {
+    keys.clear();
+    users.clear();
+    userId = (await users.create({ email: 'ada@example.com', passwordHash: 'x' })).id;
+  });
+
+  it('shows the key once and stores only its SHA-256 hash and display prefix', async () => {
+    const created = await ApiKeyService.create(userId, 'CI', ['analyze']);
+    const stored = await keys.findById(created.id);
+
+    expect(created.key).toMatch(/^sk_live_[0-9a-f]{48}$/);
+    expect(created.prefix).toBe(created.key.slice(0, 12));
+    expect(stored?.keyHash).toBe(sha256(created.key));
+    expect(JSON.stringify(stored)).not.toContain(created.key);
+    expect(await ApiKeyService.list(userId)).toEqual([{
+      id: created.id,
+      name: 'CI',
+      prefix: created.prefix,
+      scopes: ['analyze'],
+      lastUsedAt: null,
+      expiresAt: null,
+      createdAt: created.createdAt,
+    }]);
+  });
+
+  it('authenticates a presented key as its owner and records its use', async () => {
+    const created = await ApiKeyService.create(userId, 'CI', ['analyze', 'history']);
+
+    const { user, apiKey } = await ApiKeyService.authenticate(created.key);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(user).toEqual({ id: userId, email: 'ada@example.com', tier: 'FREE' });
+    expect(apiKey.scopes).toEqual(['analyze', 'history']);
+    expect((await keys.findById(created.id))?.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects unknown and expired keys', async () => {
+    const expired = await ApiKeyService.create(userId, 'old', ['analyze'], new Date(Date.now() - 1000));
+
+    await expect(ApiKeyService.authenticate('sk_live_unknown')).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_API_KEY' });
+    await expect(ApiKeyService.authenticate(expired.key)).rejects.toMatchObject({ statusCode: 401, code: 'API_KEY_EXPIRED' });
+  });
+
+  it('invalidates the old secret on rotation and keeps name, scopes and expiry', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    const created = await ApiKeyService.create(userId, 'CI', ['batch'], expiresAt);
+
+    const rotated = await ApiKeyService.rotate(userId, created.id);
+
+    expect(rotated).toMatchObject({ id: created.id, name: 'CI', scopes: ['batch'], expiresAt: expiresAt.toISOString() });
+    expect(rotated.key).not.toBe(created.key);
+    await expect(ApiKeyService.authenticate(created.key)).rejects.toMatchObject({ code: 'INVALID_API_KEY' });
+    expect((await ApiKeyService.authenticate(rotated.key)).apiKey.id).toBe(created.id);
+  });
+
+  it("revokes keys and reports other users' keys as missing", async () => {
+    const created = await ApiKeyService.create(userId, 'CI', ['analyze']);
+    const notFound = { statusCode: 404, code: 'API_KEY_NOT_FOUND' };
+
+    await expect(ApiKeyService.rotate('someone-else', created.id)).rejects.toMatchObject(notFound);
+    await expect(ApiKeyService.revoke('someone-else', created.id)).rejects.toMatchObject(notFound);
+
+    await ApiKeyService.revoke(userId, created.id);
+    await expect(ApiKeyService.authenticate(created.key)).rejects.toMatchObject({ code: 'INVALID_API_KEY' });
+  });
+
+  describe('scope enforcement', () => {
+    /**
+     * Run authenticate and then requireScope(scope) for a request with the given headers
+     */
+    const authorize = async (headers: Record<string, string>, scope: Parameters<typeof requireScope>[0]) => {
+      const req = { headers } as AuthRequest;
+      const next = jest.fn() as NextFunction;
+
+      await authenticate(req, {} as Response, next);
+      const authError = (next as jest.Mock).mock.calls[0][0];
+      if (authError) {
+        return { req, error: authError as ApiError };
+      }
+
+      try {
+        requireScope(scope)(req, {} as Response, jest.fn());
+        return { req };
+      } catch (error) {
+        return { req, error: error as ApiError };
+      }
+    };
+
+    it('lets a key through for its own scopes only', async () => {
+      const created = await ApiKeyService.create(userId, 'CI', ['analyze']);
+
+      const allowed = await authorize({ 'x-api-key': created.key }, 'analyze');
+      const denied = await authorize({ 'x-api-key': created.key }, 'admin');
+
+      expect(allowed.error).toBeUndefined();
+      expect(allowed.req.apiKey).toEqual({ id: created.id, scopes: ['analyze'] });
+      expect(denied.error).toMatchObject({
+        statusCode: 403,
+        code: 'INSUFFICIENT_SCOPE',
+        message: "This API key lacks the 'admin' scope",
+      });
+    });
+
+    it('does not limit requests authenticated without an API key', () => {
+      const req = { headers: {}, user: { id: userId, email: 'ada@example.com', tier: 'FREE' } } as AuthRequest;
+      const next = jest.fn();
+
+      requireScope('admin')(req, {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+
+    it('rejects an invalid key before checking scopes', async () => {
+      const { error } = await authorize({ 'x-api-key': 'sk_live_unknown' }, 'analyze');
+
+      expect(error).toMatchObject({ statusCode: 401, code: 'INVALID_API_KEY' });
+    });
+  });
+});
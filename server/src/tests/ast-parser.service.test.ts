@@ -0,0 +1,89 @@
+import { ASTParserService, SolidityParseError } from '../services/risk-detection/ast-parser.service';
+
+describe('ASTParserService', () => {
+  const source = `
+    pragma solidity ^0.8.20;
+
+    contract Vault {
+        bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+        address public owner;
+        mapping(address => uint256) public balances;
+
+        event Deposited(address indexed from, uint256 amount);
+
+        modifier onlyRole(bytes32 role) { _; }
+        modifier limited(uint256 max, address who) { _; }
+
+        constructor(address _owner) payable {
+            owner = _owner;
+        }
+
+        receive() external payable {
+            balances[msg.sender] += msg.value;
+        }
+
+        fallback() external {
+            revert("no fallback");
+        }
+
+        function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) limited(1e18, to) {
+            balances[to] += amount;
+        }
+    }
+  `;
+
+  it('classifies constructors, receive and fallback functions', () => {
+    const context = ASTParserService.parse(source);
+
+    expect(context.functions.map(f => [f.name, f.kind, f.startLine])).toEqual([
+      ['constructor', 'constructor', 14],
+      ['receive', 'receive', 18],
+      ['fallback', 'fallback', 22],
+      ['mint', 'function', 26],
+    ]);
+    expect(context.functions.find(f => f.kind === 'constructor')?.stateMutability).toBe('payable');
+    // Only named functions are declarations of the contract's interface
+    expect(context.contracts[0].functionDeclarations.map(d => d.name)).toEqual(['mint']);
+  });
+
+  it('records modifier invocations with their argument source', () => {
+    const mint = ASTParserService.parse(source).functions.find(f => f.name === 'mint');
+
+    expect(mint?.modifiers).toEqual(['onlyRole', 'limited']);
+    expect(mint?.modifierInvocations).toEqual([
+      { name: 'onlyRole', arguments: ['MINTER_ROLE'] },
+      { name: 'limited', arguments: ['1e18', 'to'] },
+    ]);
+    expect(mint?.parameters).toEqual(['address', 'uint256']);
+  });
+
+  it('collects state variables, modifiers and events of the contract', () => {
+    const context = ASTParserService.parse(source);
+
+    expect(context.variables.map(v => [v.name, v.type, v.isConstant])).toEqual([
+      ['MINTER_ROLE', 'bytes32', true],
+      ['owner', 'address', false],
+      ['balances', 'mapping(address => uint256)', false],
+    ]);
+    expect(context.modifiers.map(m => m.name)).toEqual(['onlyRole', 'limited']);
+    expect(context.events.map(e => [e.name, e.parameters])).toEqual([['Deposited', ['address', 'uint256']]]);
+  });
+
+  it('masks comments and strings in bodies but keeps the raw text', () => {
+    const fallback = ASTParserService.parse(source).functions.find(f => f.kind === 'fallback');
+
+    expect(fallback?.rawBody).toContain('"no fallback"');
+    expect(fallback?.body).not.toContain('no fallback');
+  });
+
+  it('reports syntax errors with their position', () => {
+    const broken = 'pragma solidity ^0.8.0;\ncontract Broken {\n    function f() public {\n        address a = address(0)));\n    }\n}\n';
+
+    expect(() => ASTParserService.parse(broken)).toThrow(SolidityParseError);
+    expect(() => ASTParserService.parse(broken)).toThrow(expect.objectContaining({
+      line: 4,
+      column: 30,
+      filePath: 'Contract.sol',
+    }));
+  });
+});
@@ -0,0 +1,99 @@
+import jwt from 'jsonwebtoken';
+import config from '../config';
+import { AuthService } from '../services/auth.service';
+import { InMemoryUserRepository, setUserRepository } from '../repositories';
+
+describe('AuthService', () => {
+  const users = new InMemoryUserRepository();
+
+  beforeAll(() => {
+    // Keep bcrypt fast in tests
+    config.bcryptRounds = 4;
+    setUserRepository(users);
+  });
+
+  beforeEach(() => {
+    users.clear();
+  });
+
+  const claimsOf = (token: string) => jwt.decode(token) as { id: string; type: string; tier: string };
+
+  it('registers FREE-tier users with an access and a refresh token', async () => {
+    const result = await AuthService.register('ada@example.com', 'correct horse', 'Ada');
+
+    expect(result.user).toEqual({ id: expect.any(String), email: 'ada@example.com', name: 'Ada', tier: 'FREE' });
+    expect(claimsOf(result.token)).toMatchObject({ id: result.user.id, type: 'access', tier: 'FREE' });
+    expect(claimsOf(result.refreshToken)).toMatchObject({ id: result.user.id, type: 'refresh' });
+    expect((await users.findById(result.user.id))?.passwordHash).not.toBe('correct horse');
+  });
+
+  it('refuses a second account for the same email', async () => {
+    await AuthService.register('ada@example.com', 'correct horse');
+
+    await expect(AuthService.register('ada@example.com', 'other')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'EMAIL_TAKEN',
+    });
+  });
+
+  it('logs in with the right password and records the login time', async () => {
+    const { user } = await AuthService.register('ada@example.com', 'correct horse');
+
+    const result = await AuthService.login('ada@example.com', 'correct horse');
+
+    expect(result.user.id).toBe(user.id);
+    expect((await users.findById(user.id))?.lastLoginAt).toBeInstanceOf(Date);
+  });
+
+  it('gives the same error for a wrong password and an unknown email', async () => {
+    await AuthService.register('ada@example.com', 'correct horse');
+    const invalid = { statusCode: 401, code: 'INVALID_CREDENTIALS', message: 'Invalid email or password' };
+
+    await expect(AuthService.login('ada@example.com', 'wrong')).rejects.toMatchObject(invalid);
+    await expect(AuthService.login('bob@example.com', 'correct horse')).rejects.toMatchObject(invalid);
+  });
+
+  describe('token types', () => {
+    it('authenticates access tokens but not refresh tokens', async () => {
+      const { user, token, refreshToken } = await AuthService.register('ada@example.com', 'correct horse');
+
+      expect(await AuthService.authenticateToken(token)).toEqual({ id: user.id, email: 'ada@example.com', tier: 'FREE' });
+      await expect(AuthService.authenticateToken(refreshToken)).rejects.toMatchObject({
+        code: 'INVALID_TOKEN',
+        message: 'Expected access token',
+      });
+    });
+
+    it('exchanges refresh tokens but not access tokens for a new pair', async () => {
+      const { user, token, refreshToken } = await AuthService.register('ada@example.com', 'correct horse');
+
+      const renewed = await AuthService.refresh(refreshToken);
+
+      expect(claimsOf(renewed.token)).toMatchObject({ id: user.id, type: 'access' });
+      expect(claimsOf(renewed.refreshToken)).toMatchObject({ id: user.id, type: 'refresh' });
+      await expect(AuthService.refresh(token)).rejects.toMatchObject({
+        code: 'INVALID_TOKEN',
+        message: 'Expected refresh token',
+      });
+    });
+
+    it('treats tokens issued without a type as access tokens', async () => {
+      const { user } = await AuthService.register('ada@example.com', 'correct horse');
+      const legacy = jwt.sign({ id: user.id, email: user.email, tier: user.tier }, config.jwtSecret);
+
+      expect((await AuthService.authenticateToken(legacy)).id).toBe(user.id);
+      await expect(AuthService.refresh(legacy)).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+    });
+
+    it('rejects expired, forged and orphaned tokens', async () => {
+      const { user } = await AuthService.register('ada@example.com', 'correct horse');
+      const expired = jwt.sign({ id: user.id, type: 'access' }, config.jwtSecret, { expiresIn: -10 });
+      const forged = jwt.sign({ id: user.id, type: 'access' }, 'another-secret');
+      const orphaned = jwt.sign({ id: 'deleted-user', type: 'access' }, config.jwtSecret);
+
+      await expect(AuthService.authenticateToken(expired)).rejects.toMatchObject({ statusCode: 401, code: 'TOKEN_EXPIRED' });
+      await expect(AuthService.authenticateToken(forged)).rejects.toMatchObject({ statusCode: 401, code: 'INVALID_TOKEN' });
+      await expect(AuthService.authenticateToken(orphaned)).rejects.toMatchObject({ statusCode: 401, code: 'UNAUTHORIZED' });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { BatchAnalysisService } from '../services/batch-analysis.service';
+import { AnalysisPipelineService } from '../services/analysis-pipeline.service';
+import { ApiError } from '../utils/ApiError';
+import { RiskClassification } from '../types/risk.types';
+import { RISKY_UNLIMITED_MINTING, SAFE_ERC20 } from './fixtures/sample-contracts';
+
+const TOKEN = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+describe('BatchAnalysisService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('analyzes each distinct source once and marks the repeats as duplicates', async () => {
+    const run = jest.spyOn(AnalysisPipelineService, 'run');
+
+    const batch = await BatchAnalysisService.run([
+      { input: SAFE_ERC20, chain: 'ethereum' },
+      { input: RISKY_UNLIMITED_MINTING, chain: 'ethereum' },
+      { input: SAFE_ERC20, chain: 'ethereum' },
+    ], 'BEGINNER');
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(batch.items.map(item => [item.index, item.status, item.duplicate_of])).toEqual([
+      [0, 'SUCCESS', undefined],
+      [1, 'SUCCESS', undefined],
+      [2, 'SUCCESS', 0],
+    ]);
+    expect(batch.items[2].result).toBe(batch.items[0].result);
+    expect(batch.summary).toMatchObject({ total: 3, succeeded: 3, failed: 0, duplicates: 1, highest_risk_index: 1 });
+  });
+
+  it('uses template explanations instead of calling the AI', async () => {
+    const run = jest.spyOn(AnalysisPipelineService, 'run');
+
+    await BatchAnalysisService.run([{ input: SAFE_ERC20, chain: 'ethereum' }], 'DEVELOPER', 'user-1');
+
+    expect(run).toHaveBeenCalledWith(
+      expect.objectContaining({ mode: 'DEVELOPER', userId: 'user-1', skipExplanations: true })
+    );
+  });
+
+  it('treats the same address in any case on the same chain as one contract', async () => {
+    const run = jest.spyOn(AnalysisPipelineService, 'run').mockImplementation(async request => ({
+      id: request.chain,
+      risk_score: request.chain === 'base' ? 6 : 2,
+      unmitigated_risk_score: 2,
+      mitigation_discount: 0,
+      classification: request.chain === 'base' ? RiskClassification.MODERATE : RiskClassification.LOW,
+      confidence: 0.9,
+      risks: [],
+      beginner_summary: '',
+      developer_summary: '',
+      metadata: { chain: request.chain, is_verified: true, lines_of_code: 1, total_functions: 1, processing_time_ms: 1 },
+      cached: true,
+      analyzed_at: new Date().toISOString(),
+    }));
+
+    const batch = await BatchAnalysisService.run([
+      { input: TOKEN, chain: 'ethereum' },
+      { input: '0xABCDEFabcdefABCDEFabcdefABCDEFabcdefABCD', chain: 'ethereum' },
+      { input: TOKEN, chain: 'base' },
+    ], 'BEGINNER');
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(batch.items.map(item => item.duplicate_of)).toEqual([undefined, 0, undefined]);
+    expect(batch.items[1].contract_address).toBe(TOKEN);
+    expect(batch.summary).toMatchObject({
+      cached: 3,
+      duplicates: 1,
+      by_classification: { LOW: 2, MODERATE: 1 },
+      average_risk_score: 3.3,
+      highest_risk_index: 2,
+    });
+  });
+
+  it('reports failures per item without failing the batch', async () => {
+    jest.spyOn(AnalysisPipelineService, 'run')
+      .mockRejectedValueOnce(new ApiError(404, 'CONTRACT_NOT_VERIFIED', 'Contract source not verified'))
+      .mockRejectedValueOnce(new Error('socket hang up'));
+
+    const batch = await BatchAnalysisService.run([
+      { input: TOKEN, chain: 'ethereum' },
+      { input: TOKEN, chain: 'polygon' },
+    ], 'BEGINNER', undefined, 1);
+
+    expect(batch.items.map(item => item.error)).toEqual([
+      { code: 'CONTRACT_NOT_VERIFIED', message: 'Contract source not verified' },
+      { code: 'ANALYSIS_FAILED', message: 'socket hang up' },
+    ]);
+    expect(batch.summary).toMatchObject({
+      succeeded: 0,
+      failed: 2,
+      average_risk_score: null,
+      highest_risk_index: null,
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { EvmDisassembler } from '../services/risk-detection/bytecode/evm-disassembler';
+import {
+  BytecodeAnalyzerService,
+  EIP1967_SLOTS,
+} from '../services/risk-detection/bytecode/bytecode-analyzer.service';
+import { RiskType } from '../types/risk.types';
+
+// Selector dispatcher for mint(address,uint256) and owner(), then ORIGIN and SELFDESTRUCT
+const DISPATCHER = [
+  '60003560e01c', // 0x00 PUSH1 0x00 CALLDATALOAD PUSH1 0xe0 SHR
+  '806340c10f191461002057', // 0x06 DUP1 PUSH4 mint EQ PUSH2 JUMPI
+  '80638da5cb5b1461003057', // 0x11 DUP1 PUSH4 owner EQ PUSH2 JUMPI
+  '00', // 0x1c STOP
+  '5b32ff', // 0x1d JUMPDEST ORIGIN SELFDESTRUCT
+].join('');
+
+// CBOR map header followed by the two-byte metadata length
+const METADATA = 'a1000000' + '0004';
+
+describe('EvmDisassembler', () => {
+  it('decodes opcodes and PUSH immediates with their offsets', () => {
+    const instructions = EvmDisassembler.disassemble(`0x${DISPATCHER}`);
+
+    expect(instructions.slice(0, 4)).toEqual([
+      { offset: 0, opcode: 0x60, name: 'PUSH1', pushData: '00' },
+      { offset: 2, opcode: 0x35, name: 'CALLDATALOAD' },
+      { offset: 3, opcode: 0x60, name: 'PUSH1', pushData: 'e0' },
+      { offset: 5, opcode: 0x1c, name: 'SHR' },
+    ]);
+    expect(instructions.find(i => i.name === 'SELFDESTRUCT')?.offset).toBe(0x1f);
+  });
+
+  it('drops trailing CBOR metadata but keeps bytes without a map header', () => {
+    const stripped = EvmDisassembler.disassemble(`0x${DISPATCHER}${METADATA}`);
+    const kept = EvmDisassembler.normalize(`${DISPATCHER}00000004`);
+
+    expect(stripped.map(i => i.name)).toEqual(EvmDisassembler.disassemble(DISPATCHER).map(i => i.name));
+    expect(kept).toBe(`${DISPATCHER}00000004`);
+  });
+
+  it('names unassigned opcodes and tolerates a truncated PUSH', () => {
+    expect(EvmDisassembler.disassemble('0x0c63aabb')).toEqual([
+      { offset: 0, opcode: 0x0c, name: 'UNKNOWN_0x0c' },
+      { offset: 1, opcode: 0x63, name: 'PUSH4', pushData: 'aabb' },
+    ]);
+  });
+
+  it('rejects input that is not even-length hex', () => {
+    expect(() => EvmDisassembler.disassemble('0x6000zz')).toThrow('Bytecode must be an even-length hex string');
+    expect(() => EvmDisassembler.disassemble('0x600')).toThrow('Bytecode must be an even-length hex string');
+  });
+
+  it('formats instructions with a padded hex offset', () => {
+    expect(EvmDisassembler.format({ offset: 0x1a4, opcode: 0x63, name: 'PUSH4', pushData: '8da5cb5b' }))
+      .toBe('0x01a4: PUSH4 0x8da5cb5b');
+    expect(EvmDisassembler.format({ offset: 7, opcode: 0xff, name: 'SELFDESTRUCT' })).toBe('0x0007: SELFDESTRUCT');
+  });
+});
+
+describe('BytecodeAnalyzerService', () => {
+  it('tells runtime bytecode apart from addresses and source', () => {
+    expect(BytecodeAnalyzerService.isBytecode(`0x${DISPATCHER}`)).toBe(true);
+    expect(BytecodeAnalyzerService.isBytecode(`0x${'1'.repeat(40)}`)).toBe(false);
+    expect(BytecodeAnalyzerService.isBytecode('contract Token {}')).toBe(false);
+  });
+
+  it('extracts only PUSH4 values that the dispatcher compares', () => {
+    const instructions = EvmDisassembler.disassemble(`0x${DISPATCHER}63deadbeef50`);
+
+    expect(BytecodeAnalyzerService.extractSelectors(instructions)).toEqual(['0x40c10f19', '0x8da5cb5b']);
+  });
+
+  it('reports dangerous opcodes and privileged selectors at their bytecode offsets', () => {
+    const result = BytecodeAnalyzerService.analyze(`0x${DISPATCHER}${METADATA}`);
+    const byType = (type: RiskType) => result.findings.find(f => f.type === type);
+
+    expect(byType(RiskType.SELFDESTRUCT)).toMatchObject({ bytecode_offset: 0x1f, line_number: 0, source: 'BYTECODE' });
+    expect(byType(RiskType.TX_ORIGIN)?.bytecode_offset).toBe(0x1e);
+    expect(byType(RiskType.OWNER_RESTRICTED_MINTING)).toMatchObject({
+      bytecode_offset: 0x07,
+      function_name: 'mint',
+      code_snippet: expect.stringContaining('0x0007: PUSH4 0x40c10f19'),
+    });
+    expect(result.findings).toHaveLength(3);
+  });
+
+  it('marks the analysis as bytecode-only with resolved signatures and reduced confidence', () => {
+    const result = BytecodeAnalyzerService.analyze(`0x${DISPATCHER}`);
+
+    expect(result.metadata).toMatchObject({
+      analysis_mode: 'BYTECODE',
+      function_selectors: ['0x40c10f19', '0x8da5cb5b'],
+      function_signatures: {
+        '0x40c10f19': ['mint(address,uint256)'],
+        '0x8da5cb5b': ['owner()'],
+      },
+    });
+    expect(result.confidence).toBeLessThanOrEqual(0.6);
+  });
+
+  it('classifies EIP-1967 slots as transparent or upgradeable proxies', () => {
+    const sload = (slot: string) => `0x7f${slot}5400`;
+
+    const transparent = BytecodeAnalyzerService.analyze(sload(EIP1967_SLOTS.admin));
+    const uups = BytecodeAnalyzerService.analyze(sload(EIP1967_SLOTS.implementation));
+    const beacon = BytecodeAnalyzerService.analyze(sload(EIP1967_SLOTS.beacon));
+
+    expect(transparent.findings.map(f => f.type)).toEqual([RiskType.TRANSPARENT_PROXY]);
+    expect(uups.findings.map(f => f.type)).toEqual([RiskType.UUPS_PROXY]);
+    expect(beacon.findings[0].machine_reason).toContain('beacon slot');
+  });
+
+  it('refuses empty bytecode', () => {
+    expect(() => BytecodeAnalyzerService.analyze('0x')).toThrow('No runtime bytecode to analyze');
+  });
+});
@@ -0,0 +1,130 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from '../config';
+import { ChainConfigError, ChainRegistry } from '../services/chain-registry';
+
+const EXAMPLE = path.join(__dirname, '..', '..', 'chains.example.yml');
+
+const NEW_CHAIN = {
+  id: 'scroll',
+  name: 'Scroll',
+  chainId: 534352,
+  nativeSymbol: 'ETH',
+  explorerName: 'Scrollscan',
+  explorerUrl: 'https://scrollscan.com',
+  explorerApiUrl: 'https://api.scrollscan.com/api',
+  apiKeyEnv: 'SCROLLSCAN_API_KEY',
+  rpcUrlEnv: 'SCROLL_RPC_URL',
+};
+
+describe('ChainRegistry', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'chains-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    config.allowedChains = [];
+    delete process.env.LINEA_RPC_URL;
+  });
+
+  const write = (name: string, content: string) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const loadErrors = (filePath: string): string[] => {
+    try {
+      ChainRegistry.load(filePath);
+    } catch (error) {
+      if (error instanceof ChainConfigError) {
+        return error.details;
+      }
+      throw error;
+    }
+    throw new Error('expected ChainConfigError');
+  };
+
+  it('starts with the built-in chains', () => {
+    expect(ChainRegistry.get('ethereum')).toMatchObject({ chainId: 1, rpcUrlEnv: 'ETHEREUM_RPC_URL' });
+    expect(ChainRegistry.isSupported('sepolia')).toBe(true);
+    expect(ChainRegistry.isSupported('linea')).toBe(false);
+  });
+
+  it('loads the example file, overriding a built-in chain and adding a new one', () => {
+    expect(ChainRegistry.load(EXAMPLE)).toBe(2);
+
+    expect(ChainRegistry.get('ethereum')).toMatchObject({
+      name: 'Ethereum Mainnet',
+      rpcUrl: 'https://ethereum-rpc.publicnode.com',
+      explorerRateLimit: 5,
+    });
+    expect(ChainRegistry.get('linea')).toMatchObject({ chainId: 59144, testnet: false });
+    expect(ChainRegistry.getExplorerRateLimit('ethereum')).toBe(5);
+    expect(ChainRegistry.getExplorerRateLimit('linea')).toBe(config.explorerRateLimit);
+  });
+
+  it("prefers the chain's RPC environment variable over its configured URL", () => {
+    ChainRegistry.load(write('chains.json', JSON.stringify({ chains: [{ ...NEW_CHAIN, rpcUrl: 'https://rpc.scroll.io' }] })));
+
+    expect(ChainRegistry.getRpcUrl('scroll')).toBe('https://rpc.scroll.io');
+    process.env.SCROLL_RPC_URL = 'http://localhost:8545';
+    expect(ChainRegistry.getRpcUrl('scroll')).toBe('http://localhost:8545');
+    delete process.env.SCROLL_RPC_URL;
+    expect(ChainRegistry.getRpcUrl('unknown')).toBe('');
+  });
+
+  it('limits supported chains to ALLOWED_CHAINS when set', () => {
+    config.allowedChains = ['ethereum', 'base'];
+
+    expect(ChainRegistry.getSupported().map(chain => chain.id)).toEqual(['ethereum', 'base']);
+    expect(ChainRegistry.isSupported('polygon')).toBe(false);
+    expect(ChainRegistry.describe().map(chain => chain.id)).toEqual(['ethereum', 'base']);
+  });
+
+  it('describes chains with whether an API key and RPC endpoint are configured', () => {
+    process.env.LINEA_RPC_URL = 'http://localhost:8545';
+    ChainRegistry.load(EXAMPLE);
+
+    expect(ChainRegistry.describe().find(chain => chain.id === 'linea')).toEqual({
+      id: 'linea',
+      name: 'Linea',
+      chainId: 59144,
+      nativeSymbol: 'ETH',
+      testnet: false,
+      explorerName: 'Lineascan',
+      explorerUrl: 'https://lineascan.build',
+      enabled: false,
+      rpcConfigured: true,
+    });
+  });
+
+  it('requires every field for new chains and reports all of them', () => {
+    const partial = { ...NEW_CHAIN, id: 'zksync', name: undefined, chainId: undefined };
+
+    expect(loadErrors(write('chains.yml', `chains:\n  - ${JSON.stringify(partial)}\n`))).toEqual([
+      'zksync: "name" is required',
+      'zksync: "chainId" is required',
+    ]);
+    expect(ChainRegistry.get('zksync')).toBeUndefined();
+  });
+
+  it('rejects unknown fields, malformed values and files without a chains list', () => {
+    expect(loadErrors(write('a.yml', 'chains:\n  - id: Ethereum\n    explorerUrl: not-a-url\n    color: blue\n'))).toEqual([
+      '"chains[0].id" with value "Ethereum" fails to match the required pattern: /^[a-z0-9-]+$/',
+      '"chains[0].explorerUrl" must be a valid uri',
+      '"chains[0].color" is not allowed',
+    ]);
+    expect(loadErrors(write('b.yml', 'networks: []\n'))).toEqual(['"chains" is required', '"networks" is not allowed']);
+  });
+
+  it('rejects unreadable and unparsable files without changing the registry', () => {
+    expect(loadErrors(path.join(dir, 'missing.yml'))[0]).toMatch(/^Unable to read: /);
+    expect(loadErrors(write('broken.json', '{ "chains": ['))[0]).toMatch(/^Unable to read: /);
+    expect(ChainRegistry.get('ethereum')?.chainId).toBe(1);
+  });
+});
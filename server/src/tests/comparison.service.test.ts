@@ -0,0 +1,119 @@
+import { ComparisonService } from '../services/comparison.service';
+import {
+  AnalyzedRisk,
+  CompleteAnalysisResult,
+  RiskClassification,
+  RiskType,
+  RISK_WEIGHTS,
+} from '../types/risk.types';
+
+const risk = (type: RiskType, functionName?: string, lineNumber = 1): AnalyzedRisk => ({
+  type,
+  severity: RISK_WEIGHTS[type].severity,
+  weight: RISK_WEIGHTS[type].weight,
+  mitigations: [],
+  code_snippet: '',
+  line_number: lineNumber,
+  machine_reason: '',
+  function_name: functionName,
+  beginner_explanation: '',
+  developer_explanation: '',
+  why_it_matters: '',
+  mitigation: '',
+});
+
+const analysis = (riskScore: number, classification: RiskClassification, risks: AnalyzedRisk[]): CompleteAnalysisResult => ({
+  id: `analysis-${riskScore}`,
+  risk_score: riskScore,
+  unmitigated_risk_score: riskScore,
+  mitigation_discount: 0,
+  classification,
+  confidence: 0.9,
+  risks,
+  beginner_summary: '',
+  developer_summary: '',
+  metadata: { chain: 'ethereum', is_verified: true, lines_of_code: 50, total_functions: 5, processing_time_ms: 10 },
+  cached: false,
+  analyzed_at: new Date().toISOString(),
+});
+
+describe('ComparisonService', () => {
+  const original = analysis(3.5, RiskClassification.LOW, [
+    risk(RiskType.ADJUSTABLE_FEES, 'setFee', 10),
+    risk(RiskType.PAUSABLE_CONTRACT, 'pause'),
+    risk(RiskType.CENTRALIZED_OWNERSHIP),
+  ]);
+  const fork = analysis(6.2, RiskClassification.HIGH, [
+    risk(RiskType.ADJUSTABLE_FEES, 'setFee', 42),
+    risk(RiskType.UNLIMITED_MINTING, 'mint'),
+    risk(RiskType.BLACKLIST_MODIFICATION, 'setBots, addBot'),
+    risk(RiskType.CENTRALIZED_OWNERSHIP),
+  ]);
+
+  it('matches findings by risk type and function regardless of line number', () => {
+    const { findings } = ComparisonService.compare(original, fork);
+
+    expect(findings.map(f => [f.type, f.function_name, f.change])).toEqual([
+      [RiskType.ADJUSTABLE_FEES, 'setFee', 'UNCHANGED'],
+      [RiskType.UNLIMITED_MINTING, 'mint', 'ADDED'],
+      [RiskType.BLACKLIST_MODIFICATION, 'setBots, addBot', 'ADDED'],
+      [RiskType.CENTRALIZED_OWNERSHIP, undefined, 'UNCHANGED'],
+      [RiskType.PAUSABLE_CONTRACT, 'pause', 'REMOVED'],
+    ]);
+  });
+
+  it('pairs repeated findings one to one', () => {
+    const matched = ComparisonService.matchFindings(
+      [risk(RiskType.TX_ORIGIN, 'f')],
+      [risk(RiskType.TX_ORIGIN, 'f'), risk(RiskType.TX_ORIGIN, 'f')]
+    );
+
+    expect(matched.map(m => m.change)).toEqual(['UNCHANGED', 'ADDED']);
+  });
+
+  it('treats the same finding in a proxy and its implementation as different', () => {
+    const proxyLevel: AnalyzedRisk = { ...risk(RiskType.UUPS_PROXY, 'upgradeTo'), contract_role: 'PROXY' };
+    const implementationLevel: AnalyzedRisk = { ...proxyLevel, contract_role: 'IMPLEMENTATION' };
+
+    const matched = ComparisonService.matchFindings([proxyLevel], [implementationLevel]);
+
+    expect(matched.map(m => m.change)).toEqual(['ADDED', 'REMOVED']);
+  });
+
+  it('reports the score delta, classifications and counts per risk type', () => {
+    const differences = ComparisonService.compare(original, fork);
+
+    expect(differences.score_delta).toBe(2.7);
+    expect(differences.classification_a).toBe(RiskClassification.LOW);
+    expect(differences.classification_b).toBe(RiskClassification.HIGH);
+    expect(differences.by_risk_type).toContainEqual({
+      risk_type: RiskType.ADJUSTABLE_FEES, count_a: 1, count_b: 1, added: 0, removed: 0, unchanged: 1,
+    });
+    expect(differences.by_risk_type).toContainEqual({
+      risk_type: RiskType.PAUSABLE_CONTRACT, count_a: 1, count_b: 0, added: 0, removed: 1, unchanged: 0,
+    });
+  });
+
+  it('groups findings per function, splitting multi-function findings and leaving out contract-level ones', () => {
+    const { by_function } = ComparisonService.compare(original, fork);
+
+    expect(by_function).toEqual([
+      { function_name: 'addBot', added: [RiskType.BLACKLIST_MODIFICATION], removed: [], unchanged: [] },
+      { function_name: 'mint', added: [RiskType.UNLIMITED_MINTING], removed: [], unchanged: [] },
+      { function_name: 'pause', added: [], removed: [RiskType.PAUSABLE_CONTRACT], unchanged: [] },
+      { function_name: 'setBots', added: [RiskType.BLACKLIST_MODIFICATION], removed: [], unchanged: [] },
+      { function_name: 'setFee', added: [], removed: [], unchanged: [RiskType.ADJUSTABLE_FEES] },
+    ]);
+  });
+
+  it('summarizes which contract is riskier and what changed', () => {
+    expect(ComparisonService.compare(original, fork).summary).toBe(
+      'Contract B scores 2.7 higher (riskier) than contract A (3.5 → 6.2). ' +
+        'B adds: UNLIMITED_MINTING in mint; BLACKLIST_MODIFICATION in setBots, addBot. ' +
+        'B no longer has: PAUSABLE_CONTRACT in pause.'
+    );
+    expect(ComparisonService.compare(fork, fork).summary).toBe(
+      'Both contracts score 6.2/10. Both contracts have the same findings.'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import config from '../config';
+import { DetectorRegistry } from '../services/risk-detection/detector-registry';
+import { BaseDetector, DetectionContext, DetectorMetadata } from '../services/risk-detection/detectors/base-detector';
+import { DetectorsController } from '../controllers/detectors.controller';
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { RiskFinding, RiskType } from '../types/risk.types';
+
+class MarkerDetector extends BaseDetector {
+  get metadata(): DetectorMetadata {
+    return {
+      id: 'marker',
+      name: 'MarkerDetector',
+      description: 'Flags every contract',
+      riskTypes: [RiskType.TX_ORIGIN],
+      patternCount: 1,
+      version: '0.1.0',
+      enabledByDefault: false,
+    };
+  }
+
+  detect(context: DetectionContext): RiskFinding[] {
+    return [this.createFinding(RiskType.TX_ORIGIN, '', 1, `Marked ${context.contracts[0]?.name}`)];
+  }
+}
+
+describe('DetectorRegistry', () => {
+  const source = 'pragma solidity ^0.8.0; contract Plain { uint256 public x; }';
+  const { enabledDetectors, disabledDetectors } = config;
+
+  beforeEach(() => DetectorRegistry.register(new MarkerDetector()));
+
+  afterEach(() => {
+    DetectorRegistry.unregister('marker');
+    config.enabledDetectors = enabledDetectors;
+    config.disabledDetectors = disabledDetectors;
+  });
+
+  it('registers detectors under unique ids', () => {
+    expect(DetectorRegistry.get('marker')).toBeInstanceOf(MarkerDetector);
+    expect(() => DetectorRegistry.register(new MarkerDetector())).toThrow('Detector already registered: marker');
+    expect(DetectorRegistry.getAll().map(d => d.metadata.id)).toEqual([
+      'minting', 'fund-control', 'ownership', 'upgrade', 'dangerous-functions',
+      'economic', 'reentrancy', 'access-control', 'honeypot', 'marker',
+    ]);
+  });
+
+  it('runs a detector disabled by default only when configured', async () => {
+    expect((await RiskEngineService.analyze(source)).findings).toEqual([]);
+
+    config.enabledDetectors = ['marker'];
+    const result = await RiskEngineService.analyze(source);
+
+    expect(result.findings.map(f => [f.type, f.machine_reason])).toEqual([[RiskType.TX_ORIGIN, 'Marked Plain']]);
+  });
+
+  it('lets configuration disable a built-in detector', () => {
+    config.disabledDetectors = ['reentrancy'];
+
+    expect(DetectorRegistry.getEnabled().map(d => d.metadata.id)).not.toContain('reentrancy');
+    expect(DetectorRegistry.describe().find(d => d.id === 'reentrancy')?.enabled).toBe(false);
+  });
+
+  it('lists every detector with its metadata on GET /detectors', async () => {
+    config.disabledDetectors = ['honeypot'];
+    const res = { json: jest.fn() } as unknown as Response;
+    const next = jest.fn();
+
+    await DetectorsController.list({} as Request, res, next);
+
+    const body = (res.json as jest.Mock).mock.calls[0][0];
+    expect(next).not.toHaveBeenCalled();
+    expect(body.data).toMatchObject({ total: 10, enabled: 8 });
+    expect(body.data.detectors.find((d: { id: string }) => d.id === 'marker')).toEqual({
+      id: 'marker',
+      name: 'MarkerDetector',
+      description: 'Flags every contract',
+      risk_types: [RiskType.TX_ORIGIN],
+      pattern_count: 1,
+      version: '0.1.0',
+      enabled_by_default: false,
+      enabled: false,
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Left-pad a hex value or number to a 32-byte word
+ */
+export const word = (value: string | bigint) =>
+  `0x${(typeof value === 'bigint' ? value.toString(16) : value.replace(/^0x/, '')).padStart(64, '0')}`;
+
+/**
+ * Local JSON-RPC stub answering eth_call by `${to}:${selector}`, eth_getCode by address
+ * and eth_getStorageAt by slot; unknown calls revert
+ */
+export class JsonRpcStub {
+  calls: Record<string, string> = {};
+  code: Record<string, string> = {};
+  storage: Record<string, string> = {};
+  private server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, ...this.respond(method, params) }));
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  reset(): void {
+    this.calls = {};
+    this.code = {};
+    this.storage = {};
+  }
+
+  private respond(method: string, params: unknown[]): { result?: string; error?: { code: number; message: string } } {
+    switch (method) {
+      case 'eth_blockNumber':
+        return { result: '0x12d687' };
+      case 'eth_getCode':
+        return { result: this.code[(params[0] as string).toLowerCase()] || '0x' };
+      case 'eth_getStorageAt':
+        return { result: this.storage[(params[1] as string).replace(/^0x/, '')] || word('0') };
+      case 'eth_call': {
+        const { to, data } = params[0] as { to: string; data: string };
+        const result = this.calls[`${to.toLowerCase()}:${data}`];
+        return result ? { result } : { error: { code: -32000, message: 'execution reverted' } };
+      }
+      default:
+        return { error: { code: -32601, message: `method ${method} not found` } };
+    }
+  }
+}
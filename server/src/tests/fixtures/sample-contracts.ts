@@ -238,3 +238,354 @@ contract TokenWithFees {
     }
 }
 `;
+
+export const REENTRANT_VAULT = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract ReentrantVault {
+    mapping(address => uint256) public balances;
+    
+    function deposit() external payable {
+        balances[msg.sender] += msg.value;
+    }
+    
+    // RISK: Sends ETH before zeroing the balance
+    function withdraw() external {
+        uint256 amount = balances[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+        
+        (bool success, ) = msg.sender.call{value: amount}("");
+        require(success, "Transfer failed");
+        
+        balances[msg.sender] = 0;
+    }
+}
+`;
+
+export const GUARDED_VAULT = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+interface IPriceOracle {
+    function price() external view returns (uint256);
+}
+
+contract GuardedVault {
+    mapping(address => uint256) public balances;
+    IPriceOracle public oracle;
+    uint256 public lastPrice;
+    bool private locked;
+    
+    modifier nonReentrant() {
+        require(!locked, "Reentrant call");
+        locked = true;
+        _;
+        locked = false;
+    }
+    
+    // Checks-effects-interactions: balance is cleared before the call
+    function withdraw() external {
+        uint256 amount = balances[msg.sender];
+        balances[msg.sender] = 0;
+        
+        (bool success, ) = msg.sender.call{value: amount}("");
+        require(success, "Transfer failed");
+    }
+    
+    function withdrawTo(address payable _to) external nonReentrant {
+        uint256 amount = balances[msg.sender];
+        (bool success, ) = _to.call{value: amount}("");
+        require(success, "Transfer failed");
+        balances[msg.sender] = 0;
+    }
+    
+    // View calls cannot re-enter
+    function updatePrice() external {
+        uint256 current = oracle.price();
+        require(current != lastPrice, "Unchanged");
+        lastPrice = current;
+    }
+}
+`;
+
+export const UNPROTECTED_ADMIN = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract UnprotectedAdmin {
+    address public owner;
+    uint256 public taxFee;
+    bool private initialized;
+    mapping(address => uint256) public balances;
+    mapping(uint256 => address) private _owners;
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    modifier initializer() {
+        require(!initialized, "Already initialized");
+        _;
+        initialized = true;
+    }
+    
+    // RISK: Anyone can take ownership
+    function setOwner(address _owner) external {
+        owner = _owner;
+    }
+    
+    // RISK: initializer only limits how often this runs, not who calls it
+    function initialize(address _owner) external initializer {
+        owner = _owner;
+    }
+    
+    function setTaxFee(uint256 _fee) external onlyOwner {
+        taxFee = _fee;
+    }
+    
+    function changeOwner(address _owner) external {
+        require(msg.sender == owner, "Not owner");
+        owner = _owner;
+    }
+    
+    // Per-user state is not privileged
+    function deposit() external payable {
+        balances[msg.sender] += msg.value;
+    }
+    
+    function claim(uint256 tokenId) external {
+        require(_owners[tokenId] == address(0), "Claimed");
+        _owners[tokenId] = msg.sender;
+    }
+}
+`;
+
+export const TIMELOCKED_TREASURY = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract TimelockController {
+    uint256 public minDelay = 2 days;
+}
+
+contract TimelockedTreasury is TimelockController {
+    address public owner;
+    uint256 public protocolFee;
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    // Mitigated: changes go through the inherited timelock
+    function setFee(uint256 _fee) external onlyOwner {
+        protocolFee = _fee;
+    }
+}
+`;
+
+export const DELAYED_FEES = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract DelayedFees {
+    address public owner;
+    uint256 public protocolFee;
+    uint256 public pendingFee;
+    uint256 public minDelay = 2 days;
+    uint256 public queuedAt;
+    uint256 public transferDelay = 30;
+    mapping(address => uint256) public lastTrade;
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    function proposeFee(uint256 _fee) external onlyOwner {
+        pendingFee = _fee;
+        queuedAt = block.timestamp;
+    }
+    
+    // Mitigated: the proposed fee applies only after minDelay
+    function setFee() external onlyOwner {
+        require(block.timestamp >= queuedAt + minDelay, "Too early");
+        protocolFee = pendingFee;
+    }
+    
+    // RISK: an anti-bot cooldown is not a timelock
+    function setTaxFee(uint256 _fee) external onlyOwner {
+        require(block.timestamp > lastTrade[msg.sender] + transferDelay, "Cooldown");
+        protocolFee = _fee;
+    }
+}
+`;
+
+export const VESTING_TOKEN = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract TokenTimelock {
+    uint256 public releaseTime;
+}
+
+contract VestingToken is TokenTimelock {
+    address public owner;
+    uint256 public taxFee;
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    // RISK: a token vesting lock does not delay owner actions
+    function setTaxFee(uint256 _fee) external onlyOwner {
+        taxFee = _fee;
+    }
+}
+`;
+
+export const HONEYPOT_TOKEN = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract HoneypotToken {
+    address public owner;
+    address public uniswapPair;
+    bool public tradingOpen;
+    uint256 public sellTax = 5;
+    mapping(address => uint256) public balanceOf;
+    mapping(address => bool) public isExcluded;
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    // RISK: Only the owner can open trading
+    function openTrading() external onlyOwner {
+        tradingOpen = true;
+    }
+    
+    // RISK: No cap on the sell tax
+    function setSellTax(uint256 _tax) external onlyOwner {
+        sellTax = _tax;
+    }
+    
+    function transfer(address to, uint256 amount) external returns (bool) {
+        _transfer(msg.sender, to, amount);
+        return true;
+    }
+    
+    function _transfer(address from, address to, uint256 amount) internal {
+        require(tradingOpen || isExcluded[from], "Trading closed");
+        
+        // RISK: Only excluded addresses may sell
+        if (to == uniswapPair) {
+            require(isExcluded[from], "Sell blocked");
+        }
+        
+        balanceOf[from] -= amount;
+        if (to == uniswapPair) {
+            amount -= (amount * sellTax) / 100;
+        }
+        balanceOf[to] += amount;
+    }
+}
+`;
+
+export const FAIR_LAUNCH_TOKEN = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract FairLaunchToken {
+    address public owner;
+    address public uniswapPair;
+    uint256 public sellTax = 2;
+    mapping(address => uint256) public balanceOf;
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Not owner");
+        _;
+    }
+    
+    // Capped: the tax can never exceed 5%
+    function setSellTax(uint256 _tax) external onlyOwner {
+        require(_tax <= 5, "Tax too high");
+        sellTax = _tax;
+    }
+    
+    function transfer(address to, uint256 amount) external returns (bool) {
+        balanceOf[msg.sender] -= amount;
+        if (to == uniswapPair) {
+            amount -= (amount * sellTax) / 100;
+        }
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+`;
+
+export const UNPROTECTED_DELEGATION = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract Ownable {
+    address private _owner;
+    
+    modifier onlyOwner() {
+        require(msg.sender == _owner, "Not owner");
+        _;
+    }
+    
+    function _transferOwnership(address newOwner) internal {
+        _owner = newOwner;
+    }
+}
+
+contract DelegatingToken is Ownable {
+    uint256 private _totalSupply;
+    mapping(address => uint256) private _balances;
+    
+    // RISK: Anyone can mint through the internal helper
+    function mint(address to, uint256 amount) public {
+        _mint(to, amount);
+    }
+    
+    // RISK: Anyone can take ownership through the internal helper
+    function transferOwnership(address newOwner) public {
+        _transferOwnership(newOwner);
+    }
+    
+    function ownerMint(address to, uint256 amount) public onlyOwner {
+        _mint(to, amount);
+    }
+    
+    function burn(uint256 amount) public {
+        _burn(msg.sender, amount);
+    }
+    
+    function _mint(address account, uint256 amount) internal {
+        _update(address(0), account, amount);
+    }
+    
+    function _burn(address account, uint256 amount) internal {
+        _update(account, address(0), amount);
+    }
+    
+    function _update(address from, address to, uint256 amount) internal {
+        if (from == address(0)) {
+            _totalSupply += amount;
+        } else {
+            _balances[from] -= amount;
+        }
+        if (to == address(0)) {
+            _totalSupply -= amount;
+        } else {
+            _balances[to] += amount;
+        }
+    }
+}
+`;
@@ -0,0 +1,64 @@
+import { ASTParserService } from '../services/risk-detection/ast-parser.service';
+import { HoneypotDetector } from '../services/risk-detection/detectors/honeypot-detector';
+import { RiskType } from '../types/risk.types';
+import { ADJUSTABLE_FEES, FAIR_LAUNCH_TOKEN, HONEYPOT_TOKEN, SAFE_ERC20 } from './fixtures/sample-contracts';
+
+describe('HoneypotDetector', () => {
+  const detector = new HoneypotDetector();
+
+  it('explains each condition on the transfer path that blocks selling', () => {
+    const findings = detector.detect(ASTParserService.parse(HONEYPOT_TOKEN));
+
+    expect(findings.map(f => [f.line_number, f.machine_reason])).toEqual([
+      [34, "Transfers require 'tradingOpen', which only the owner can toggle (openTrading). Holders may be unable to sell after buying."],
+      [37, "Sells to 'uniswapPair' must satisfy 'isExcluded[from]'. Holders may be unable to sell after buying."],
+      [42, "Sells to 'uniswapPair' are taxed by 'sellTax', which the owner can raise without a cap. Holders may be unable to sell after buying."],
+    ]);
+    findings.forEach(finding => {
+      expect(finding.type).toBe(RiskType.HONEYPOT);
+      expect(finding.function_name).toBe('_transfer');
+    });
+  });
+
+  it('accepts a capped sell tax', () => {
+    expect(detector.detect(ASTParserService.parse(FAIR_LAUNCH_TOKEN))).toEqual([]);
+  });
+
+  describe('flags no function can change', () => {
+    const token = (declaration: string, constructorBody = '') => `
+      pragma solidity ^0.8.0;
+      contract Token {
+          mapping(address => uint256) public balanceOf;
+          address public pair;
+          ${declaration}
+
+          constructor(address _pair) { pair = _pair; ${constructorBody} }
+
+          function transfer(address to, uint256 amount) external returns (bool) {
+              require(tradingEnabled, "Trading closed");
+              balanceOf[msg.sender] -= amount;
+              balanceOf[to] += amount;
+              return true;
+          }
+      }
+    `;
+    const reasons = (source: string) => detector.detect(ASTParserService.parse(source)).map(f => f.machine_reason);
+
+    it('reports a flag that is never set', () => {
+      expect(reasons(token('bool public tradingEnabled;'))).toEqual([
+        "Transfers require 'tradingEnabled', which starts false and no function can change. Holders may be unable to sell after buying.",
+      ]);
+      expect(reasons(token('bool public tradingEnabled = true;', 'tradingEnabled = false;'))).toHaveLength(1);
+    });
+
+    it('ignores a flag that is always true', () => {
+      expect(reasons(token('bool public tradingEnabled = true;'))).toEqual([]);
+      expect(reasons(token('bool public tradingEnabled;', 'tradingEnabled = true;'))).toEqual([]);
+    });
+  });
+
+  it('reports nothing for tokens without a liquidity pair', () => {
+    expect(detector.detect(ASTParserService.parse(SAFE_ERC20))).toEqual([]);
+    expect(detector.detect(ASTParserService.parse(ADJUSTABLE_FEES))).toEqual([]);
+  });
+});
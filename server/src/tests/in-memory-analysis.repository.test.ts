@@ -0,0 +1,126 @@
+import { InMemoryAnalysisRepository } from '../repositories/in-memory-analysis.repository';
+import { AnalysisListQuery, NewAnalysisRecord } from '../repositories/analysis.repository';
+import { CompleteAnalysisResult, RiskClassification } from '../types/risk.types';
+
+const result = (id: string, riskScore: number, classification: RiskClassification, chain: string): CompleteAnalysisResult => ({
+  id,
+  risk_score: riskScore,
+  unmitigated_risk_score: riskScore,
+  mitigation_discount: 0,
+  classification,
+  confidence: 0.9,
+  risks: [],
+  beginner_summary: '',
+  developer_summary: '',
+  metadata: { chain, is_verified: false, lines_of_code: 10, total_functions: 1, processing_time_ms: 5 },
+  cached: false,
+  analyzed_at: new Date().toISOString(),
+});
+
+const record = (
+  id: string,
+  overrides: Partial<NewAnalysisRecord> & { riskScore?: number; classification?: RiskClassification } = {}
+): NewAnalysisRecord => {
+  const { riskScore = 1, classification = RiskClassification.LOW, ...fields } = overrides;
+  const chain = fields.chain || 'ethereum';
+  return {
+    id,
+    userId: 'user-1',
+    chain,
+    sourceHash: `hash-${id}`,
+    mode: 'BEGINNER',
+    result: result(id, riskScore, classification, chain),
+    ...fields,
+  };
+};
+
+const query = (overrides: Partial<AnalysisListQuery> = {}): AnalysisListQuery => ({
+  userId: 'user-1',
+  page: 1,
+  limit: 20,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  ...overrides,
+});
+
+describe('InMemoryAnalysisRepository', () => {
+  let repository: InMemoryAnalysisRepository;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    repository = new InMemoryAnalysisRepository();
+
+    // One analysis per day, starting 2024-01-01
+    const seeds: NewAnalysisRecord[] = [
+      record('a', { riskScore: 2, classification: RiskClassification.LOW }),
+      record('b', { riskScore: 8, classification: RiskClassification.HIGH, chain: 'polygon' }),
+      record('c', { riskScore: 5, classification: RiskClassification.MODERATE, contractAddress: '0xabc' }),
+      record('d', { riskScore: 9, classification: RiskClassification.VERY_HIGH, userId: 'user-2' }),
+      record('e', { riskScore: 1, classification: RiskClassification.VERY_LOW, userId: undefined }),
+    ];
+    for (const [day, seed] of seeds.entries()) {
+      jest.setSystemTime(new Date(Date.UTC(2024, 0, day + 1)));
+      await repository.create(seed);
+    }
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores records with a creation time and finds them by id', async () => {
+    const found = await repository.findById('b');
+
+    expect(found?.chain).toBe('polygon');
+    expect(found?.createdAt).toEqual(new Date('2024-01-02T00:00:00Z'));
+    expect(await repository.findById('missing')).toBeNull();
+  });
+
+  it("lists only the user's own analyses, newest first", async () => {
+    const page = await repository.list(query());
+
+    expect(page.items.map(item => item.id)).toEqual(['c', 'b', 'a']);
+    expect(page.total).toBe(3);
+  });
+
+  it('filters by chain, classification and contract address', async () => {
+    expect((await repository.list(query({ chain: 'polygon' }))).items.map(item => item.id)).toEqual(['b']);
+    expect((await repository.list(query({ classification: RiskClassification.LOW }))).items.map(item => item.id)).toEqual(['a']);
+    expect((await repository.list(query({ contractAddress: '0xabc' }))).items.map(item => item.id)).toEqual(['c']);
+  });
+
+  it('filters by an inclusive date range', async () => {
+    const page = await repository.list(query({
+      from: new Date('2024-01-02T00:00:00Z'),
+      to: new Date('2024-01-03T00:00:00Z'),
+    }));
+
+    expect(page.items.map(item => item.id)).toEqual(['c', 'b']);
+  });
+
+  it('sorts by risk score and chain', async () => {
+    const byScore = await repository.list(query({ sortBy: 'riskScore', sortOrder: 'asc' }));
+    const byChain = await repository.list(query({ sortBy: 'chain', sortOrder: 'desc' }));
+
+    expect(byScore.items.map(item => item.id)).toEqual(['a', 'c', 'b']);
+    expect(byChain.items[0].id).toBe('b');
+  });
+
+  it('paginates while reporting the total match count', async () => {
+    const first = await repository.list(query({ limit: 2 }));
+    const second = await repository.list(query({ limit: 2, page: 2 }));
+    const beyond = await repository.list(query({ limit: 2, page: 3 }));
+
+    expect(first.items.map(item => item.id)).toEqual(['c', 'b']);
+    expect(second.items.map(item => item.id)).toEqual(['a']);
+    expect(beyond.items).toEqual([]);
+    expect([first.total, second.total, beyond.total]).toEqual([3, 3, 3]);
+  });
+
+  it('removes every record on clear', async () => {
+    repository.clear();
+
+    expect(await repository.findById('a')).toBeNull();
+    expect((await repository.list(query())).total).toBe(0);
+  });
+});
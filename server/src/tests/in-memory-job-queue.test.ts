@@ -0,0 +1,89 @@
+import { InMemoryJobQueue } from '../services/jobs';
+import { AnalysisJob, JobEvent } from '../types/job.types';
+
+const job = (id: string): AnalysisJob => ({
+  id,
+  status: 'PENDING',
+  stage: 'QUEUED',
+  progress: 0,
+  input: 'contract A {}',
+  chain: 'ethereum',
+  mode: 'BEGINNER',
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+});
+
+describe('InMemoryJobQueue', () => {
+  let queue: InMemoryJobQueue;
+
+  beforeEach(() => {
+    queue = new InMemoryJobQueue(60);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('hands out job ids in FIFO order and keeps them claimed until released', async () => {
+    await queue.enqueue(job('a'));
+    await queue.enqueue(job('b'));
+
+    expect(await queue.dequeue()).toBe('a');
+    expect(await queue.dequeue()).toBe('b');
+    expect(await queue.dequeue()).toBeNull();
+    expect(await queue.claimed()).toEqual(['a', 'b']);
+
+    await queue.release('a');
+    expect(await queue.claimed()).toEqual(['b']);
+  });
+
+  it('updates jobs and refreshes updated_at', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await queue.enqueue(job('a'));
+
+    jest.setSystemTime(new Date('2024-01-01T00:00:30Z'));
+    const updated = await queue.update('a', { status: 'PROCESSING' });
+
+    expect(updated).toMatchObject({ status: 'PROCESSING', updated_at: '2024-01-01T00:00:30.000Z' });
+    expect(await queue.get('a')).toEqual(updated);
+    expect(await queue.update('missing', { status: 'FAILED' })).toBeNull();
+  });
+
+  it('numbers events per job and replays those after a sequence number', async () => {
+    await queue.enqueue(job('a'));
+    await queue.appendEvent('a', { type: 'stage', stage: 'PARSING', progress: 20 });
+    await queue.appendEvent('a', { type: 'stage', stage: 'DETECTING', progress: 30 });
+    const last = await queue.appendEvent('a', { type: 'failed', error: { code: 'X', message: 'x' } });
+
+    expect(last.seq).toBe(3);
+    expect((await queue.getEvents('a')).map(event => event.seq)).toEqual([1, 2, 3]);
+    expect((await queue.getEvents('a', 2)).map(event => event.type)).toEqual(['failed']);
+    expect(await queue.getEvents('other')).toEqual([]);
+  });
+
+  it('notifies subscribers of new events until they unsubscribe', async () => {
+    await queue.enqueue(job('a'));
+    const received: JobEvent[] = [];
+
+    const unsubscribe = await queue.subscribe('a', event => received.push(event));
+    await queue.appendEvent('a', { type: 'stage', stage: 'PARSING', progress: 20 });
+    await queue.appendEvent('b', { type: 'stage', stage: 'PARSING', progress: 20 });
+    await unsubscribe();
+    await queue.appendEvent('a', { type: 'stage', stage: 'DETECTING', progress: 30 });
+
+    expect(received).toEqual([{ type: 'stage', stage: 'PARSING', progress: 20, seq: 1 }]);
+  });
+
+  it('expires jobs and their events after the TTL and drops expired ids from the queue', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    await queue.enqueue(job('a'));
+    await queue.appendEvent('a', { type: 'stage', stage: 'PARSING', progress: 20 });
+
+    jest.setSystemTime(new Date('2024-01-01T00:01:01Z'));
+    await queue.enqueue(job('b'));
+
+    expect(await queue.get('a')).toBeNull();
+    expect(await queue.getEvents('a')).toEqual([]);
+    expect(await queue.dequeue()).toBe('b');
+  });
+});
@@ -0,0 +1,83 @@
+import { ASTParserService } from '../services/risk-detection/ast-parser.service';
+import { InheritanceResolverService } from '../services/risk-detection/inheritance-resolver.service';
+
+describe('InheritanceResolverService', () => {
+  const diamond = `
+    pragma solidity ^0.8.0;
+
+    interface IToken { function name() external view returns (string memory); }
+
+    library SafeMath {
+        function add(uint256 a, uint256 b) internal pure returns (uint256) { return a + b; }
+    }
+
+    contract A {
+        constructor() {}
+        function name() public view virtual returns (string memory) { return "A"; }
+        function f() public virtual {}
+    }
+    contract B is A {
+        function f() public virtual override {}
+    }
+    contract C is A {
+        function f() public virtual override {}
+        function g(uint256 x) public {}
+    }
+    contract D is IToken, B, C {
+        using SafeMath for uint256;
+        function name() public view override(A, IToken) returns (string memory) { return "D"; }
+        function f() public override(B, C) {}
+        function g(address x) public {}
+    }
+  `;
+  const contract = (name: string) => ASTParserService.parse(diamond).contracts.find(c => c.name === name);
+
+  it('linearizes bases in C3 order, most-derived first', () => {
+    expect(contract('A')?.linearizedBaseContracts).toEqual(['A']);
+    expect(contract('B')?.linearizedBaseContracts).toEqual(['B', 'A']);
+    expect(contract('D')?.linearizedBaseContracts).toEqual(['D', 'C', 'B', 'A', 'IToken']);
+  });
+
+  it('marks only concrete contracts nothing inherits from as most-derived', () => {
+    const context = ASTParserService.parse(diamond);
+
+    expect(context.contracts.filter(c => c.isMostDerived).map(c => c.name)).toEqual(['D']);
+  });
+
+  it('keeps the most-derived implementation of each function and overload', () => {
+    const d = contract('D');
+    const resolved = (d?.resolvedFunctions || []).map(f => `${f.contractName}.${f.name}(${f.parameters.join(',')})`);
+
+    expect(resolved).toEqual([
+      'D.name()',
+      'D.f()',
+      'D.g(address)',
+      'C.g(uint256)',
+    ]);
+  });
+
+  it('limits target functions to the most-derived contracts and the libraries they use', () => {
+    const context = ASTParserService.parse(diamond);
+    const targets = InheritanceResolverService.getTargetFunctions(context);
+
+    expect(targets.map(f => `${f.contractName}.${f.name}`)).toEqual([
+      'D.name',
+      'D.f',
+      'D.g',
+      'C.g',
+      'SafeMath.add',
+    ]);
+  });
+
+  it('falls back to abstract contracts and resolves unknown bases to themselves', () => {
+    const context = ASTParserService.parse(`
+      pragma solidity ^0.8.0;
+      import "@openzeppelin/contracts/access/Ownable.sol";
+      abstract contract Base is Ownable { function f() public virtual; }
+      abstract contract Module is Base { function f() public override {} }
+    `);
+
+    expect(context.contracts.filter(c => c.isMostDerived).map(c => c.name)).toEqual(['Module']);
+    expect(context.contracts.find(c => c.name === 'Module')?.linearizedBaseContracts).toEqual(['Module', 'Base', 'Ownable']);
+  });
+});
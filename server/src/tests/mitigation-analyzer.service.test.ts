@@ -0,0 +1,45 @@
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { MitigationType, RiskFinding, RiskType } from '../types/risk.types';
+import { DELAYED_FEES, TIMELOCKED_TREASURY, VESTING_TOKEN } from './fixtures/sample-contracts';
+
+const feeFinding = (findings: RiskFinding[], functionName: string) =>
+  findings.find(f => f.type === RiskType.ADJUSTABLE_FEES && f.function_name === functionName);
+
+describe('MitigationAnalyzerService', () => {
+  it('credits a TimelockController base on privileged findings', async () => {
+    const result = await RiskEngineService.analyze(TIMELOCKED_TREASURY);
+    const finding = feeFinding(result.findings, 'setFee');
+
+    expect(finding?.mitigations).toEqual([
+      { type: MitigationType.TIMELOCK, evidence: 'inherits TimelockController', line_number: 9 },
+    ]);
+    expect(finding?.adjusted_weight).toBeLessThan(finding!.weight);
+    expect(result.mitigation_discount).toBeGreaterThan(0);
+  });
+
+  it('does not treat a token vesting lock as a timelock', async () => {
+    const result = await RiskEngineService.analyze(VESTING_TOKEN);
+
+    expect(feeFinding(result.findings, 'setTaxFee')?.mitigations).toEqual([]);
+    expect(result.mitigation_discount).toBe(0);
+  });
+
+  it('credits a delay check only when it compares against an execution delay', async () => {
+    const result = await RiskEngineService.analyze(DELAYED_FEES);
+
+    expect(feeFinding(result.findings, 'setFee')?.mitigations).toEqual([
+      { type: MitigationType.TIMELOCK, evidence: 'setFee checks a delay against block.timestamp', line_number: 26 },
+    ]);
+    expect(feeFinding(result.findings, 'setTaxFee')?.mitigations).toEqual([]);
+  });
+
+  it('leaves risks that do not depend on a privileged account unmitigated', async () => {
+    const result = await RiskEngineService.analyze(TIMELOCKED_TREASURY.replace(
+      'protocolFee = _fee;',
+      'protocolFee = _fee; (bool ok, ) = msg.sender.call{value: 1}(""); require(ok); protocolFee += 1;'
+    ));
+    const reentrancy = result.findings.find(f => f.type === RiskType.REENTRANCY);
+
+    expect(reentrancy?.mitigations).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { OnChainStateService } from '../services/onchain-state.service';
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { EIP1967_SLOTS } from '../services/risk-detection/bytecode/bytecode-analyzer.service';
+import { MitigationType, RiskType } from '../types/risk.types';
+import { JsonRpcStub, word } from './fixtures/json-rpc-stub';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const IMPLEMENTATION = '0x3333333333333333333333333333333333333333';
+
+describe('OnChainStateService', () => {
+  const stub = new JsonRpcStub();
+
+  beforeAll(async () => {
+    process.env.ETHEREUM_RPC_URL = await stub.start();
+  });
+
+  afterAll(async () => {
+    delete process.env.ETHEREUM_RPC_URL;
+    await stub.stop();
+  });
+
+  beforeEach(() => stub.reset());
+
+  describe('read', () => {
+    it('reads owner, paused, totalSupply and the EIP-1967 slots', async () => {
+      stub.calls[`${TOKEN}:0x8da5cb5b`] = word(OWNER);
+      stub.calls[`${TOKEN}:0x5c975abb`] = word('1');
+      stub.calls[`${TOKEN}:0x18160ddd`] = word(10n ** 27n);
+      stub.storage[EIP1967_SLOTS.implementation] = word(IMPLEMENTATION);
+
+      const state = await OnChainStateService.read(TOKEN, 'ethereum');
+
+      expect(state).toEqual({
+        block_number: 1234567,
+        owner: OWNER,
+        owner_type: 'EOA',
+        paused: true,
+        total_supply: (10n ** 27n).toString(),
+        implementation_address: IMPLEMENTATION,
+        admin_address: undefined,
+      });
+    });
+
+    it('reports an address(0) owner as renounced', async () => {
+      stub.calls[`${TOKEN}:0x8da5cb5b`] = word('0');
+
+      const state = await OnChainStateService.read(TOKEN, 'ethereum');
+
+      expect(state.owner).toBe(`0x${'0'.repeat(40)}`);
+      expect(state.owner_type).toBe('RENOUNCED');
+    });
+
+    it('classifies Safe and timelock owners', async () => {
+      stub.calls[`${TOKEN}:0x8da5cb5b`] = word(OWNER);
+      stub.code[OWNER] = '0x6080604052';
+      stub.calls[`${OWNER}:0xe75235b8`] = word(3n);
+
+      expect(await OnChainStateService.read(TOKEN, 'ethereum')).toMatchObject({
+        owner_type: 'MULTISIG',
+        multisig_threshold: 3,
+      });
+
+      delete stub.calls[`${OWNER}:0xe75235b8`];
+      stub.calls[`${OWNER}:0xf27a0c92`] = word(172800n);
+
+      expect(await OnChainStateService.read(TOKEN, 'ethereum')).toMatchObject({
+        owner_type: 'TIMELOCK',
+        timelock_delay_seconds: 172800,
+      });
+    });
+
+    it('leaves out functions the contract does not implement', async () => {
+      const state = await OnChainStateService.read(TOKEN, 'ethereum');
+
+      expect(state).toEqual({ block_number: 1234567, implementation_address: undefined, admin_address: undefined });
+    });
+  });
+
+  describe('apply', () => {
+    const source = `
+      pragma solidity ^0.8.0;
+      contract Token {
+          address public owner;
+          uint256 public fee;
+          mapping(address => uint256) public balanceOf;
+          mapping(bytes32 => mapping(address => bool)) private roles;
+
+          modifier onlyOwner() { require(msg.sender == owner, "not owner"); _; }
+          modifier onlyRole(bytes32 role) { require(roles[role][msg.sender], "missing role"); _; }
+
+          function setFee(uint256 newFee) external onlyOwner { fee = newFee; }
+          function mint(address to, uint256 amount) external onlyRole(0x00) { balanceOf[to] += amount; }
+      }
+    `;
+
+    it('mitigates only owner-guarded findings when ownership is renounced', async () => {
+      const result = await RiskEngineService.analyze(source);
+      const applied = OnChainStateService.apply(result, {
+        block_number: 1,
+        owner: `0x${'0'.repeat(40)}`,
+        owner_type: 'RENOUNCED',
+      });
+
+      const fees = applied.findings.find(f => f.type === RiskType.ADJUSTABLE_FEES);
+      const minting = applied.findings.filter(f => f.function_name === 'mint');
+
+      expect(fees?.mitigations.map(m => m.type)).toContain(MitigationType.RENOUNCED_OWNERSHIP);
+      expect(minting.length).toBeGreaterThan(0);
+      minting.forEach(finding => expect(finding.mitigations).toEqual([]));
+      expect(applied.risk_score).toBeLessThan(result.risk_score);
+    });
+
+    it('leaves findings untouched for an EOA owner', async () => {
+      const result = await RiskEngineService.analyze(source);
+      const applied = OnChainStateService.apply(result, { block_number: 1, owner: OWNER, owner_type: 'EOA' });
+
+      expect(applied.risk_score).toBe(result.risk_score);
+      expect(applied.findings.map(f => f.mitigations)).toEqual(result.findings.map(f => f.mitigations));
+    });
+  });
+});
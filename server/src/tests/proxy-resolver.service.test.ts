@@ -0,0 +1,126 @@
+import config from '../config';
+import { ProxyResolverService } from '../services/proxy-resolver.service';
+import { RpcService } from '../services/rpc.service';
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { ScoringAlgorithmService } from '../services/risk-detection/scoring-algorithm.service';
+import { EIP1967_SLOTS } from '../services/risk-detection/bytecode/bytecode-analyzer.service';
+import { RiskType } from '../types/risk.types';
+import { JsonRpcStub, word } from './fixtures/json-rpc-stub';
+import { RISKY_UNLIMITED_MINTING, UPGRADEABLE_PROXY } from './fixtures/sample-contracts';
+
+const PROXY = '0x1111111111111111111111111111111111111111';
+const IMPLEMENTATION = '0x3333333333333333333333333333333333333333';
+const ADMIN = '0x4444444444444444444444444444444444444444';
+const BEACON = '0x5555555555555555555555555555555555555555';
+const EXPLORER_IMPLEMENTATION = '0x6666666666666666666666666666666666666666';
+
+describe('ProxyResolverService', () => {
+  const stub = new JsonRpcStub();
+  let rpcUrl: string;
+
+  beforeAll(async () => {
+    rpcUrl = await stub.start();
+  });
+
+  afterAll(async () => {
+    await stub.stop();
+  });
+
+  beforeEach(() => {
+    stub.reset();
+    process.env.ETHEREUM_RPC_URL = rpcUrl;
+  });
+
+  afterEach(() => {
+    delete process.env.ETHEREUM_RPC_URL;
+    config.resolveProxySlots = true;
+  });
+
+  it('reads the implementation and admin from the EIP-1967 slots', async () => {
+    stub.storage[EIP1967_SLOTS.implementation] = word(IMPLEMENTATION);
+    stub.storage[EIP1967_SLOTS.admin] = word(ADMIN);
+
+    expect(await ProxyResolverService.resolve(PROXY, 'ethereum', EXPLORER_IMPLEMENTATION)).toEqual({
+      implementation_address: IMPLEMENTATION,
+      admin_address: ADMIN,
+      resolved_via: 'EIP1967_SLOT',
+    });
+  });
+
+  it('asks the beacon for the implementation of a beacon proxy', async () => {
+    stub.storage[EIP1967_SLOTS.beacon] = word(BEACON);
+    stub.calls[`${BEACON}:0x5c60da1b`] = word(IMPLEMENTATION);
+
+    expect(await ProxyResolverService.resolve(PROXY, 'ethereum')).toEqual({
+      implementation_address: IMPLEMENTATION,
+      admin_address: undefined,
+      beacon_address: BEACON,
+      resolved_via: 'BEACON',
+    });
+  });
+
+  it("falls back to the explorer's implementation when the slots are empty", async () => {
+    expect(await ProxyResolverService.resolve(PROXY, 'ethereum', EXPLORER_IMPLEMENTATION)).toEqual({
+      implementation_address: EXPLORER_IMPLEMENTATION,
+      resolved_via: 'EXPLORER',
+    });
+    expect(await ProxyResolverService.resolve(PROXY, 'ethereum')).toBeNull();
+  });
+
+  it('falls back to the explorer when the RPC endpoint fails', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    process.env.ETHEREUM_RPC_URL = 'http://127.0.0.1:1';
+
+    const resolved = await ProxyResolverService.resolve(PROXY, 'ethereum', EXPLORER_IMPLEMENTATION);
+
+    expect(resolved?.resolved_via).toBe('EXPLORER');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('EIP-1967 slot lookup failed'), expect.anything());
+    warn.mockRestore();
+  });
+
+  it('skips the slots when slot resolution is disabled or no RPC is configured', async () => {
+    stub.storage[EIP1967_SLOTS.implementation] = word(IMPLEMENTATION);
+
+    config.resolveProxySlots = false;
+    expect((await ProxyResolverService.resolve(PROXY, 'ethereum', EXPLORER_IMPLEMENTATION))?.resolved_via).toBe('EXPLORER');
+
+    config.resolveProxySlots = true;
+    delete process.env.ETHEREUM_RPC_URL;
+    expect((await ProxyResolverService.resolve(PROXY, 'ethereum', EXPLORER_IMPLEMENTATION))?.resolved_via).toBe('EXPLORER');
+  });
+
+  it('ignores an explorer implementation that is the proxy itself', async () => {
+    delete process.env.ETHEREUM_RPC_URL;
+
+    const checksummed = '0xAbCdEf0123456789aBcDeF0123456789AbCdEf01';
+
+    expect(await ProxyResolverService.resolve(checksummed, 'ethereum', checksummed.toLowerCase())).toBeNull();
+  });
+});
+
+describe('RpcService.decodeAddress', () => {
+  it('takes the low 20 bytes of a word and treats zero as no address', () => {
+    expect(RpcService.decodeAddress(word(IMPLEMENTATION.toUpperCase().replace('0X', '')))).toBe(IMPLEMENTATION);
+    expect(RpcService.decodeAddress(word('0'))).toBeNull();
+    expect(RpcService.decodeAddress('0x')).toBeNull();
+    expect(RpcService.decodeAddress(null)).toBeNull();
+  });
+});
+
+describe('ScoringAlgorithmService.combine', () => {
+  it('tags proxy and implementation findings and scores them together', async () => {
+    const proxy = await RiskEngineService.analyze(UPGRADEABLE_PROXY);
+    const implementation = await RiskEngineService.analyze(RISKY_UNLIMITED_MINTING);
+
+    const combined = ScoringAlgorithmService.combine(proxy, implementation);
+
+    expect(combined.findings).toHaveLength(proxy.findings.length + implementation.findings.length);
+    expect(combined.findings.filter(f => f.contract_role === 'PROXY').map(f => f.type))
+      .toEqual(expect.arrayContaining([RiskType.TRANSPARENT_PROXY]));
+    expect(combined.findings.filter(f => f.contract_role === 'IMPLEMENTATION').map(f => f.type))
+      .toEqual(expect.arrayContaining([RiskType.UNLIMITED_MINTING]));
+    expect(combined.risk_score).toBeGreaterThanOrEqual(Math.max(proxy.risk_score, implementation.risk_score));
+    expect(combined.confidence).toBe(Math.min(proxy.confidence, implementation.confidence));
+    expect(combined.metadata.total_functions).toBe(proxy.metadata.total_functions + implementation.metadata.total_functions);
+  });
+});
@@ -0,0 +1,30 @@
+import { ASTParserService } from '../services/risk-detection/ast-parser.service';
+import { ReentrancyDetector } from '../services/risk-detection/detectors/reentrancy-detector';
+import { RiskType } from '../types/risk.types';
+import { GUARDED_VAULT, REENTRANT_VAULT, SAFE_ERC20 } from './fixtures/sample-contracts';
+
+describe('ReentrancyDetector', () => {
+  const detector = new ReentrancyDetector();
+
+  it('flags an external call made before the state it reads is updated', () => {
+    const findings = detector.detect(ASTParserService.parse(REENTRANT_VAULT));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      type: RiskType.REENTRANCY,
+      function_name: 'withdraw',
+      contract_name: 'ReentrantVault',
+      line_number: 17,
+      related_line_number: 20,
+    });
+    expect(findings[0].machine_reason).toContain("'balances'");
+  });
+
+  it('ignores checks-effects-interactions, reentrancy guards and view calls', () => {
+    expect(detector.detect(ASTParserService.parse(GUARDED_VAULT))).toEqual([]);
+  });
+
+  it('reports nothing for a token without external calls', () => {
+    expect(detector.detect(ASTParserService.parse(SAFE_ERC20))).toEqual([]);
+  });
+});
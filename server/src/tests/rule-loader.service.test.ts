@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RuleLoaderService, RuleValidationError } from '../services/risk-detection/rules/rule-loader.service';
+import { DetectorRegistry } from '../services/risk-detection/detector-registry';
+import { ASTParserService } from '../services/risk-detection/ast-parser.service';
+import { ADJUSTABLE_FEES } from './fixtures/sample-contracts';
+
+const validationDetails = (content: string, filePath: string): string[] => {
+  try {
+    RuleLoaderService.parse(content, filePath);
+  } catch (error) {
+    expect(error).toBeInstanceOf(RuleValidationError);
+    expect((error as RuleValidationError).filePath).toBe(filePath);
+    return (error as RuleValidationError).details;
+  }
+  throw new Error('Expected the rule file to be rejected');
+};
+
+describe('RuleLoaderService', () => {
+  const example = path.join(__dirname, '../../rules/example.yml');
+
+  it('compiles the bundled example rules into detectors', () => {
+    const detectors = RuleLoaderService.load(example);
+
+    expect(detectors.map(d => [d.metadata.id, d.metadata.enabledByDefault, d.metadata.patternCount])).toEqual([
+      ['owner-fee-setter-without-cap', true, 4],
+      ['mint-without-supply-variable', false, 2],
+    ]);
+    expect(detectors[1].metadata.description).toBe('Custom rule from example.yml');
+  });
+
+  it('fills in the matched function and contract', () => {
+    const [feeRule] = RuleLoaderService.load(example);
+    const findings = feeRule.detect(ASTParserService.parse(ADJUSTABLE_FEES));
+
+    expect(findings.length).toBeGreaterThan(0);
+    findings.forEach(finding => {
+      expect(finding.severity).toBe('HIGH');
+      expect(finding.machine_reason).toBe(`${finding.function_name} in ${finding.contract_name} sets fees without a maximum fee check.`);
+    });
+  });
+
+  it('reports every schema violation of a file at once', () => {
+    const details = validationDetails([
+      'rules:',
+      '  - id: Bad_Id',
+      '    risk_type: NOT_A_RISK',
+      '    machine_reason: x',
+      '    match:',
+      '      function_name: "(unclosed"',
+      '  - id: empty-match',
+      '    risk_type: TX_ORIGIN',
+      '    machine_reason: x',
+      '    match: {}',
+    ].join('\n'), 'bad.yml');
+
+    expect(details).toHaveLength(4);
+    expect(details[0]).toBe('"rules[0].id" must be lowercase letters, digits and dashes');
+    expect(details[1]).toMatch(/^"rules\[0\]\.risk_type" must be one of \[UNLIMITED_MINTING, /);
+    expect(details[2]).toBe('"rules[0].match.function_name" "(unclosed" is not a valid regular expression');
+    expect(details[3]).toBe('"rules[1].match" must contain at least one criterion');
+  });
+
+  it('rejects unparsable files and duplicate ids', () => {
+    expect(validationDetails('{ "rules": [', 'broken.json')).toEqual([
+      expect.stringMatching(/^Unable to parse: /),
+    ]);
+
+    const rule = (reason: string) => `- id: same\n  risk_type: TX_ORIGIN\n  machine_reason: ${reason}\n  match: { function_name: f }`;
+    expect(validationDetails(`${rule('a')}\n${rule('b')}`, 'dup.yaml')).toEqual(['Duplicate rule id "same"']);
+  });
+
+  describe('register', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+    });
+
+    afterEach(() => {
+      DetectorRegistry.unregister('tx-origin-check');
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('registers every rule file of a directory', () => {
+      fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify([
+        { id: 'tx-origin-check', risk_type: 'TX_ORIGIN', machine_reason: 'x', match: { body_matches: ['tx\\.origin'] } },
+      ]));
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+      expect(RuleLoaderService.register(dir)).toBe(1);
+      expect(DetectorRegistry.get('tx-origin-check')?.metadata.description).toBe('Custom rule from a.json');
+    });
+
+    it('refuses ids already taken by a detector and missing paths', () => {
+      fs.writeFileSync(path.join(dir, 'a.yml'), 'rules:\n  - id: reentrancy\n    risk_type: REENTRANCY\n    machine_reason: x\n    match: { function_name: withdraw }\n');
+
+      expect(() => RuleLoaderService.register(dir)).toThrow('Rule id "reentrancy" is already used by another detector');
+      expect(() => RuleLoaderService.load(path.join(dir, 'missing.yml'))).toThrow(RuleValidationError);
+    });
+  });
+});
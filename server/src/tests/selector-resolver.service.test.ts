@@ -0,0 +1,98 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  SelectorResolverService,
+  SignatureDatabaseError,
+} from '../services/risk-detection/bytecode/selector-resolver.service';
+import { RiskType } from '../types/risk.types';
+
+describe('SelectorResolverService', () => {
+  it('computes selectors from canonical signatures, ignoring whitespace', () => {
+    expect(SelectorResolverService.selectorOf('mint(address,uint256)')).toBe('0x40c10f19');
+    expect(SelectorResolverService.selectorOf('transfer(address, uint256)')).toBe('0xa9059cbb');
+  });
+
+  it('resolves bundled selectors case-insensitively and keeps unknown ones', () => {
+    expect(SelectorResolverService.resolve('0x8DA5CB5B')).toEqual(['owner()']);
+    expect(SelectorResolverService.resolveAll(['0x3659cfe6', '0xdeadbeef'])).toEqual([
+      { selector: '0x3659cfe6', signatures: ['upgradeTo(address)'] },
+      { selector: '0xdeadbeef', signatures: [] },
+    ]);
+  });
+
+  it('classifies privileged function names', () => {
+    expect(SelectorResolverService.classify('upgradeTo')).toBe(RiskType.UUPS_PROXY);
+    expect(SelectorResolverService.classify('setFee')).toBe(RiskType.ADJUSTABLE_FEES);
+    expect(SelectorResolverService.classify('blacklist')).toBe(RiskType.BLACKLIST_MODIFICATION);
+    expect(SelectorResolverService.classify('setFeeRecipient')).toBeUndefined();
+    expect(SelectorResolverService.classify('transfer')).toBeUndefined();
+  });
+
+  it('finds privileged selectors among the dispatched ones', () => {
+    const privileged = SelectorResolverService.findPrivileged(['0xa9059cbb', '0x40c10f19', '0x69fe0e2d', '0xdeadbeef']);
+
+    expect(privileged).toEqual([
+      {
+        selector: '0x40c10f19',
+        signatures: ['mint(address,uint256)'],
+        type: RiskType.OWNER_RESTRICTED_MINTING,
+        functionName: 'mint',
+      },
+      {
+        selector: '0x69fe0e2d',
+        signatures: ['setFee(uint256)'],
+        type: RiskType.ADJUSTABLE_FEES,
+        functionName: 'setFee',
+      },
+    ]);
+  });
+
+  it('adds signatures under their computed selector only once', () => {
+    const selector = SelectorResolverService.selectorOf('setBurnFee(uint16,uint16)');
+
+    expect(SelectorResolverService.addSignatures(['setBurnFee(uint16, uint16)', 'setBurnFee(uint16,uint16)'])).toBe(1);
+    expect(SelectorResolverService.resolve(selector)).toEqual(['setBurnFee(uint16,uint16)']);
+    expect(SelectorResolverService.findPrivileged([selector])[0].type).toBe(RiskType.ADJUSTABLE_FEES);
+  });
+
+  describe('load', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signatures-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const write = (name: string, content: string) => {
+      const filePath = path.join(dir, name);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    it('loads a list of signatures', () => {
+      const filePath = write('list.json', JSON.stringify(['lockTrading()', 'mint(address,uint256)']));
+
+      expect(SelectorResolverService.load(filePath)).toBe(1);
+      expect(SelectorResolverService.resolve(SelectorResolverService.selectorOf('lockTrading()'))).toEqual(['lockTrading()']);
+    });
+
+    it('loads a selector map but recomputes the selectors', () => {
+      const filePath = write('map.json', JSON.stringify({ '0x00000000': ['sweepDust(address)'], '0x11111111': 'recoverStuckETH()' }));
+
+      expect(SelectorResolverService.load(filePath)).toBe(2);
+      expect(SelectorResolverService.resolve('0x00000000')).toEqual([]);
+      expect(SelectorResolverService.resolve(SelectorResolverService.selectorOf('sweepDust(address)'))).toEqual(['sweepDust(address)']);
+    });
+
+    it('rejects unreadable files and malformed entries', () => {
+      expect(() => SelectorResolverService.load(path.join(dir, 'missing.json'))).toThrow(SignatureDatabaseError);
+      expect(() => SelectorResolverService.load(write('broken.json', '{'))).toThrow(SignatureDatabaseError);
+      expect(() => SelectorResolverService.load(write('number.json', '42'))).toThrow(/expected a list of signatures/);
+      expect(() => SelectorResolverService.load(write('bad.json', JSON.stringify(['mint'])))).toThrow(/expected a list of signatures/);
+    });
+  });
+});
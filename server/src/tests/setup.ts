@@ -0,0 +1,9 @@
+/**
+ * Test environment
+ * Required settings for config plus in-memory stores, so tests need no database or Redis
+ */
+
+process.env.DATABASE_URL = process.env.DATABASE_URL || 'postgresql://localhost:5432/test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+process.env.ANALYSIS_STORE = 'memory';
+process.env.JOB_QUEUE = 'memory';
@@ -0,0 +1,58 @@
+import { SourcePreprocessor } from '../services/risk-detection/source-preprocessor';
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { RiskType } from '../types/risk.types';
+
+describe('SourcePreprocessor', () => {
+  it('masks comments and string contents without changing offsets or lines', () => {
+    const code = [
+      'contract A { // never call selfdestruct',
+      '  /* blacklist',
+      '     owner */ string s = "a \\" // b";',
+      "  bytes1 c = 'x'; uint y = 1;",
+      '}',
+    ].join('\n');
+
+    const sanitized = SourcePreprocessor.sanitize(code);
+
+    expect(sanitized).toHaveLength(code.length);
+    expect(sanitized.split('\n').map(line => line.length)).toEqual(code.split('\n').map(line => line.length));
+    expect(sanitized).not.toMatch(/selfdestruct|blacklist|owner|\/\//);
+    expect(sanitized.split('\n')[2]).toBe(`${' '.repeat(14)}string s = "${' '.repeat(9)}";`);
+    expect(sanitized.split('\n')[3]).toBe("  bytes1 c = ' '; uint y = 1;");
+  });
+
+  it('stops an unterminated string at the end of its line', () => {
+    const sanitized = SourcePreprocessor.sanitize('x = "open\ny = 2;');
+
+    expect(sanitized).toBe('x = "    \ny = 2;');
+  });
+
+  it('maps offsets to 1-based lines', () => {
+    const source = SourcePreprocessor.process('a\nbc\n\nd');
+    const line = (char: string, from = 0) => SourcePreprocessor.offsetToLine(source, source.original.indexOf(char, from));
+
+    expect(source.lineStarts).toEqual([0, 2, 5, 6]);
+    expect([line('a'), line('b'), line('c'), line('d')]).toEqual([1, 2, 2, 4]);
+    // A newline belongs to the line it ends
+    expect(SourcePreprocessor.offsetToLine(source, 1)).toBe(1);
+    expect(SourcePreprocessor.offsetToLine(source, 5)).toBe(3);
+  });
+
+  it('keeps detectors from matching comments and revert messages', async () => {
+    const result = await RiskEngineService.analyze(`
+      pragma solidity ^0.8.0;
+      contract Token {
+          mapping(address => uint256) public balanceOf;
+          // TODO: selfdestruct(payable(msg.sender)) once migrated
+          function transfer(address to, uint256 amount) external {
+              require(balanceOf[msg.sender] >= amount, "blacklist: mint paused");
+              balanceOf[msg.sender] -= amount;
+              balanceOf[to] += amount;
+          }
+      }
+    `);
+
+    expect(result.findings.map(f => f.type)).not.toContain(RiskType.SELFDESTRUCT);
+    expect(result.findings).toEqual([]);
+  });
+});
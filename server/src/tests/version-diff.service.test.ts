@@ -0,0 +1,158 @@
+import { VersionDiffService } from '../services/version-diff.service';
+import { ApiError } from '../utils/ApiError';
+import { RiskType } from '../types/risk.types';
+
+const V1 = `
+pragma solidity ^0.8.0;
+
+contract Token {
+    address public owner;
+    uint256 public fee;
+    bool public paused;
+    mapping(address => uint256) public balanceOf;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(!paused, "paused");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        require(amount <= 1000 ether, "cap");
+        balanceOf[to] += amount;
+    }
+
+    function burn(uint256 amount) external {
+        balanceOf[msg.sender] -= amount;
+    }
+
+    function pause() external onlyOwner {
+        paused = true;
+    }
+}
+`;
+
+// mint loses onlyOwner and its cap, burn gains a parameter, pause is gone and setFee is new;
+// transfer only changes its comments
+const V2 = `
+pragma solidity ^0.8.0;
+
+contract Token {
+    address public owner;
+    uint256 public fee;
+    bool public paused;
+    mapping(address => uint256) public balanceOf;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        // Reverts while paused
+        require(!paused, "paused");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+
+    function mint(address to, uint256 amount) external {
+        balanceOf[to] += amount;
+    }
+
+    function burn(uint256 amount, address from) external {
+        balanceOf[from] -= amount;
+    }
+
+    function setFee(uint256 newFee) external onlyOwner {
+        fee = newFee;
+    }
+}
+`;
+
+describe('VersionDiffService', () => {
+  it('aligns functions by signature, then by unique name', async () => {
+    const diff = await VersionDiffService.diff(V1, V2, 'ethereum');
+
+    expect(diff.functions).toEqual(expect.arrayContaining([
+      {
+        name: 'mint',
+        signature: 'mint(address,uint256)',
+        old_signature: undefined,
+        contract_name: 'Token',
+        change: 'MODIFIED',
+        changes: ['body', 'modifiers'],
+        added_modifiers: undefined,
+        removed_modifiers: ['onlyOwner'],
+      },
+      expect.objectContaining({
+        name: 'burn',
+        signature: 'burn(uint256,address)',
+        old_signature: 'burn(uint256)',
+        change: 'MODIFIED',
+        changes: ['signature', 'body'],
+      }),
+      { name: 'setFee', signature: 'setFee(uint256)', contract_name: 'Token', change: 'ADDED' },
+      { name: 'pause', signature: 'pause()', contract_name: 'Token', change: 'REMOVED' },
+    ]));
+    expect(diff.functions.map(f => f.name)).not.toContain('transfer');
+    expect(diff.function_counts).toEqual({ added: 1, removed: 1, modified: 2, unchanged: 1 });
+  });
+
+  it('reports access-control modifiers removed from functions that kept their signature', async () => {
+    const diff = await VersionDiffService.diff(V1, V2, 'ethereum');
+
+    expect(diff.access_control_removed).toEqual([
+      expect.objectContaining({
+        function_name: 'mint',
+        signature: 'mint(address,uint256)',
+        removed_modifiers: ['onlyOwner'],
+      }),
+    ]);
+    expect(diff.summary).toContain('mint(address,uint256) lost onlyOwner.');
+  });
+
+  it('scores only the findings that appear in the new version', async () => {
+    const diff = await VersionDiffService.diff(V1, V2, 'ethereum');
+    const introduced = diff.introduced_findings.map(f => f.type);
+
+    expect(introduced).toEqual(expect.arrayContaining([RiskType.ADJUSTABLE_FEES]));
+    expect(diff.resolved_findings.map(f => f.type)).toEqual(expect.arrayContaining([RiskType.PAUSABLE_CONTRACT]));
+    expect(diff.introduced_risk_score).toBeGreaterThan(0);
+    expect(diff.score_delta).toBe(Math.round((diff.new_risk_score - diff.old_risk_score) * 10) / 10);
+    expect(diff.summary).toMatch(/^This upgrade introduces [\d.]+\/10 of new risk: /);
+  });
+
+  it('reports no introduced risk for identical versions', async () => {
+    const diff = await VersionDiffService.diff(V1, V1, 'ethereum');
+
+    expect(diff.functions).toEqual([]);
+    expect(diff.introduced_findings).toEqual([]);
+    expect(diff.introduced_risk_score).toBe(0);
+    expect(diff.summary).toBe(
+      `No new risk was introduced by this upgrade. 0 function(s) added, 0 removed, 0 modified; overall score ${diff.old_risk_score} → ${diff.old_risk_score}.`
+    );
+  });
+
+  it('rejects input that is neither Solidity nor an address', async () => {
+    await expect(VersionDiffService.diff(V1, 'not a contract', 'ethereum')).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'INVALID_CONTRACT',
+    });
+    await expect(VersionDiffService.diff('contract A { function f( }', V2, 'ethereum')).rejects.toBeInstanceOf(ApiError);
+  });
+});
@@ -0,0 +1,98 @@
+import { VirtualFileSystem } from '../services/risk-detection/virtual-file-system';
+import { ASTParserService } from '../services/risk-detection/ast-parser.service';
+import { RiskEngineService } from '../services/risk-detection/risk-engine.service';
+import { RiskType } from '../types/risk.types';
+
+const OWNABLE = `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+abstract contract Ownable {
+    address public owner;
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "not owner");
+        _;
+    }
+}
+`;
+
+const PAUSABLE = `pragma solidity ^0.8.0;
+
+import "../access/Ownable.sol";
+
+abstract contract Pausable is Ownable {
+    bool public paused;
+
+    function pause() external onlyOwner {
+        paused = true;
+    }
+}
+`;
+
+const TOKEN = `pragma solidity ^0.8.0;
+
+import "@oz/security/Pausable.sol";
+import "./Missing.sol";
+
+contract Token is Pausable {
+    mapping(address => uint256) public balanceOf;
+
+    function mint(address to, uint256 amount) external onlyOwner {
+        balanceOf[to] += amount;
+    }
+}
+`;
+
+const files = {
+  'contracts/Token.sol': TOKEN,
+  'lib/oz/access/Ownable.sol': OWNABLE,
+  'lib/oz/security/Pausable.sol': PAUSABLE,
+};
+
+describe('VirtualFileSystem', () => {
+  it('resolves relative, remapped and suffix-matched imports', () => {
+    const vfs = new VirtualFileSystem(files, 'contracts/Token.sol', ['@oz/=lib/oz/']);
+
+    expect(vfs.resolveImport('contracts/Token.sol', '@oz/security/Pausable.sol')).toBe('lib/oz/security/Pausable.sol');
+    expect(vfs.resolveImport('lib/oz/security/Pausable.sol', '../access/Ownable.sol')).toBe('lib/oz/access/Ownable.sol');
+    // Explorers sometimes strip directories from import paths
+    expect(vfs.resolveImport('contracts/Token.sol', 'oz/access/Ownable.sol')).toBe('lib/oz/access/Ownable.sol');
+    expect(vfs.resolveImport('contracts/Token.sol', './Missing.sol')).toBeNull();
+  });
+
+  it('normalizes paths and keeps the given main file', () => {
+    const vfs = new VirtualFileSystem({ '.\\src\\A.sol': 'contract A {}', 'src/B.sol': 'contract B is A {}' }, './src/A.sol');
+
+    expect(vfs.paths()).toEqual(['src/A.sol', 'src/B.sol']);
+    expect(vfs.mainFile).toBe('src/A.sol');
+    expect(vfs.read('./src/B.sol')).toBe('contract B is A {}');
+  });
+
+  it("starts from the most-derived contract's file when the main file is unknown", () => {
+    expect(new VirtualFileSystem(files, 'contracts/Renamed.sol').mainFile).toBe('contracts/Token.sol');
+    expect(new VirtualFileSystem({ 'a.sol': 'library L {}', 'b.sol': 'interface I {}' }).mainFile).toBe('a.sol');
+  });
+
+  it('parses the main file and its imports, recording unresolved ones', () => {
+    const context = ASTParserService.parse(new VirtualFileSystem(files, 'contracts/Token.sol', ['@oz/=lib/oz/']));
+
+    expect(context.files.map(f => f.path)).toEqual([
+      'contracts/Token.sol',
+      'lib/oz/security/Pausable.sol',
+      'lib/oz/access/Ownable.sol',
+    ]);
+    expect(context.files[0].unresolvedImports).toEqual(['./Missing.sol']);
+    expect(context.contracts.find(c => c.name === 'Token')?.linearizedBaseContracts).toEqual(['Token', 'Pausable', 'Ownable']);
+  });
+
+  it('reports findings with the file and line they occur in', async () => {
+    const result = await RiskEngineService.analyze(new VirtualFileSystem(files, 'contracts/Token.sol', ['@oz/=lib/oz/']));
+    const location = (type: RiskType) => {
+      const finding = result.findings.find(f => f.type === type);
+      return finding && [finding.file_path, finding.line_number];
+    };
+
+    expect(location(RiskType.UNLIMITED_MINTING)).toEqual(['contracts/Token.sol', 9]);
+    expect(location(RiskType.PAUSABLE_CONTRACT)).toEqual(['lib/oz/security/Pausable.sol', 8]);
+  });
+});
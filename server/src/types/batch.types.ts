@@ -0,0 +1,47 @@
+/**
+ * Batch Types
+ * Many contracts analyzed in one request
+ */
+
+import { CompleteAnalysisResult, RiskClassification } from './risk.types';
+
+export interface BatchItem {
+  // Contract address, Solidity source, runtime bytecode or JSON ABI
+  input: string;
+  chain: string;
+}
+
+export interface BatchItemResult {
+  // Position in the request
+  index: number;
+  chain: string;
+  contract_address?: string;
+  status: 'SUCCESS' | 'FAILED';
+  cached: boolean;
+  // Earlier item with the same cache key whose analysis this one shares
+  duplicate_of?: number;
+  result?: CompleteAnalysisResult;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  // Served from the analysis cache, and shared with an earlier item
+  cached: number;
+  duplicates: number;
+  by_classification: Partial<Record<RiskClassification, number>>;
+  average_risk_score: number | null;
+  // Index of the riskiest successful item
+  highest_risk_index: number | null;
+  processing_time_ms: number;
+}
+
+export interface BatchResult {
+  items: BatchItemResult[];
+  summary: BatchSummary;
+}
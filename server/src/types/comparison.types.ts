@@ -0,0 +1,108 @@
+/**
+ * Comparison Types
+ * Differences between two analyses, and between two versions of a contract
+ */
+
+import { ContractRole, RiskClassification, RiskFinding, RiskType, Severity } from './risk.types';
+
+export type FindingChange = 'ADDED' | 'REMOVED' | 'UNCHANGED';
+
+// Findings match across contracts by risk type, function and contract role;
+// line numbers are ignored since they shift between forks
+export interface ComparedFinding {
+  type: RiskType;
+  severity: Severity;
+  function_name?: string;
+  contract_role?: ContractRole;
+  change: FindingChange;
+}
+
+export interface RiskTypeComparison {
+  risk_type: RiskType;
+  count_a: number;
+  count_b: number;
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface FunctionComparison {
+  function_name: string;
+  added: RiskType[];
+  removed: RiskType[];
+  unchanged: RiskType[];
+}
+
+export interface ComparisonDifferences {
+  // B relative to A; positive means B is riskier
+  score_delta: number;
+  classification_a: RiskClassification;
+  classification_b: RiskClassification;
+  findings: ComparedFinding[];
+  by_risk_type: RiskTypeComparison[];
+  by_function: FunctionComparison[];
+  summary: string;
+}
+
+export interface ComparedAnalysis {
+  id: string;
+  contract_address?: string;
+  chain: string;
+  risk_score: number;
+  classification: RiskClassification;
+}
+
+export interface ComparisonResult {
+  id: string;
+  analysis_a: ComparedAnalysis;
+  analysis_b: ComparedAnalysis;
+  differences: ComparisonDifferences;
+  created_at: string;
+}
+
+export type FunctionChange = 'ADDED' | 'REMOVED' | 'MODIFIED';
+
+export type FunctionChangeKind = 'signature' | 'body' | 'modifiers' | 'visibility' | 'state_mutability';
+
+// A function that differs between two versions; aligned by signature, then by name
+export interface FunctionDiff {
+  name: string;
+  // Signature in the new version (old version for removed functions)
+  signature: string;
+  // Set when the parameter types changed
+  old_signature?: string;
+  contract_name?: string;
+  change: FunctionChange;
+  // MODIFIED only
+  changes?: FunctionChangeKind[];
+  added_modifiers?: string[];
+  removed_modifiers?: string[];
+}
+
+// An access-control modifier present in the old version but gone in the new one
+export interface RemovedAccessControl {
+  function_name: string;
+  signature: string;
+  removed_modifiers: string[];
+  file_path: string;
+  line_number: number;
+}
+
+export interface VersionDiffResult {
+  old_risk_score: number;
+  new_risk_score: number;
+  score_delta: number;
+  // Score of the findings that only appear in the new version
+  introduced_risk_score: number;
+  functions: FunctionDiff[];
+  function_counts: {
+    added: number;
+    removed: number;
+    modified: number;
+    unchanged: number;
+  };
+  access_control_removed: RemovedAccessControl[];
+  introduced_findings: RiskFinding[];
+  resolved_findings: ComparedFinding[];
+  summary: string;
+}
@@ -75,16 +75,4 @@ export interface ChainConfig {
   explorerApiKey: string;
 }
 
-export interface ComparisonResult {
-  analysisA: AnalysisResult;
-  analysisB: AnalysisResult;
-  differences: {
-    scoreΔ: number;
-    categoryDifferences: Array<{
-      category: string;
-      scoreΔ: number;
-      description: string;
-    }>;
-    summary: string;
-  };
-}
+export * from './comparison.types';
@@ -0,0 +1,88 @@
+/**
+ * Job Types
+ * Asynchronous analysis jobs and pipeline progress
+ */
+
+import { CompleteAnalysisResult, RiskClassification, RiskFinding, RiskType } from './risk.types';
+
+// Mirrors the Prisma AnalysisStatus enum
+export type JobStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+
+export type AnalysisStage =
+  | 'QUEUED'
+  | 'FETCHING_SOURCE'
+  | 'PARSING'
+  | 'DETECTING'
+  | 'READING_CHAIN_STATE'
+  | 'EXPLAINING'
+  | 'SAVING'
+  | 'DONE';
+
+// Progress (percent) reported when a stage starts
+export const STAGE_PROGRESS: Record<AnalysisStage, number> = {
+  QUEUED: 0,
+  FETCHING_SOURCE: 10,
+  PARSING: 20,
+  DETECTING: 30,
+  READING_CHAIN_STATE: 60,
+  EXPLAINING: 70,
+  SAVING: 90,
+  DONE: 100,
+};
+
+export interface AnalysisJob {
+  // Also the id of the stored analysis once completed
+  id: string;
+  status: JobStatus;
+  stage: AnalysisStage;
+  progress: number;
+  input: string;
+  chain: string;
+  mode: 'BEGINNER' | 'DEVELOPER';
+  user_id?: string;
+  result?: CompleteAnalysisResult;
+  error?: {
+    code: string;
+    message: string;
+  };
+  created_at: string;
+  updated_at: string;
+}
+
+// Events emitted while an analysis runs, streamed to clients over SSE
+export type AnalysisEvent =
+  | { type: 'stage'; stage: AnalysisStage; progress: number }
+  // One detector finished; findings are unscored and unexplained
+  | {
+      type: 'detector';
+      detector_id: string;
+      detector_name: string;
+      contract_role?: 'PROXY' | 'IMPLEMENTATION';
+      findings: RiskFinding[];
+    }
+  // Deterministic result, before AI explanations
+  | {
+      type: 'scored';
+      risk_score: number;
+      unmitigated_risk_score: number;
+      classification: RiskClassification;
+      confidence: number;
+      findings: RiskFinding[];
+    }
+  // Raw AI output as it is generated, when the provider streams
+  | { type: 'explanation_text'; text: string }
+  // Explanation of the risk at `index` in the scored findings
+  | {
+      type: 'explanation';
+      index: number;
+      risk_type: RiskType;
+      beginner_explanation: string;
+      developer_explanation: string;
+      why_it_matters: string;
+      mitigation: string;
+    }
+  | { type: 'completed'; result: CompleteAnalysisResult }
+  | { type: 'failed'; error: { code: string; message: string } };
+
+// Event as stored for a job; seq starts at 1 and doubles as the SSE event id
+export type JobEvent = AnalysisEvent & { seq: number };
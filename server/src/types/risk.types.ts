@@ -33,6 +33,13 @@ export enum RiskType {
   BLACKLIST_MODIFICATION = 'BLACKLIST_MODIFICATION',
   MAX_TX_LIMIT = 'MAX_TX_LIMIT',
   WHITELIST_MODIFICATION = 'WHITELIST_MODIFICATION',
+  HONEYPOT = 'HONEYPOT',
+  
+  // External Call Risks
+  REENTRANCY = 'REENTRANCY',
+  
+  // Access Control Risks
+  UNPROTECTED_PRIVILEGED_FUNCTION = 'UNPROTECTED_PRIVILEGED_FUNCTION',
 }
 
 export enum Severity {
@@ -42,6 +49,12 @@ export enum Severity {
   CRITICAL = 'CRITICAL',
 }
 
+export enum MitigationType {
+  TIMELOCK = 'TIMELOCK',
+  MULTISIG = 'MULTISIG',
+  RENOUNCED_OWNERSHIP = 'RENOUNCED_OWNERSHIP',
+}
+
 export enum RiskClassification {
   VERY_LOW = 'VERY_LOW',
   LOW = 'LOW',
@@ -50,20 +63,66 @@ export enum RiskClassification {
   VERY_HIGH = 'VERY_HIGH',
 }
 
+export interface Mitigation {
+  type: MitigationType;
+  // Human-readable evidence, e.g. "inherits TimelockController"
+  evidence: string;
+  line_number?: number;
+}
+
 export interface RiskFinding {
   type: RiskType;
   severity: Severity;
   weight: number;
+  // Weight after mitigation discounts; set by ScoringAlgorithmService
+  adjusted_weight?: number;
+  mitigations: Mitigation[];
   code_snippet: string;
   line_number: number;
+  // Secondary location, e.g. the state write following a reentrant call
+  related_line_number?: number;
+  // Set instead of a meaningful line_number when only bytecode was analyzed
+  bytecode_offset?: number;
   machine_reason: string;
   function_name?: string;
   modifier_name?: string;
+  contract_name?: string;
+  file_path?: string;
+  // What the finding was derived from; omitted for source findings
+  source?: FindingSource;
+  // Set when a proxy and its implementation were analyzed together
+  contract_role?: ContractRole;
+}
+
+export type AnalysisMode = 'SOURCE' | 'BYTECODE' | 'ABI';
+
+export type FindingSource = 'SOURCE' | 'BYTECODE' | 'ABI';
+
+export type ContractRole = 'PROXY' | 'IMPLEMENTATION';
+
+export type ProxyResolution = 'EXPLORER' | 'EIP1967_SLOT' | 'BEACON';
+
+export interface ProxyInfo {
+  implementation_address: string;
+  admin_address?: string;
+  beacon_address?: string;
+  resolved_via: ProxyResolution;
+}
+
+// Per-contract scores of a combined proxy/implementation analysis
+export interface ProxyAnalysisSummary extends ProxyInfo {
+  proxy_risk_score: number;
+  implementation_risk_score: number;
+  implementation_verified: boolean;
+  implementation_analysis_mode?: AnalysisMode;
 }
 
 export interface RiskDetectionResult {
   findings: RiskFinding[];
   risk_score: number;
+  // Score without mitigation discounts, and the difference to risk_score
+  unmitigated_risk_score: number;
+  mitigation_discount: number;
   classification: RiskClassification;
   confidence: number;
   metadata: {
@@ -71,6 +130,10 @@ export interface RiskDetectionResult {
     successfully_parsed: number;
     patterns_checked: number;
     patterns_matched: number;
+    analysis_mode?: AnalysisMode;
+    function_selectors?: string[];
+    // Known signatures per selector, from the offline signature database
+    function_signatures?: Record<string, string[]>;
   };
 }
 
@@ -94,21 +157,53 @@ export interface AIExplanationOutput {
   risk_explanations: RiskExplanation[];
 }
 
+export type OwnerType = 'EOA' | 'CONTRACT' | 'MULTISIG' | 'TIMELOCK' | 'RENOUNCED';
+
+// Live contract state read over JSON-RPC for address-based analyses
+export interface OnChainState {
+  block_number: number;
+  owner?: string;
+  owner_type?: OwnerType;
+  multisig_threshold?: number;
+  timelock_delay_seconds?: number;
+  paused?: boolean;
+  // Decimal string; may exceed Number.MAX_SAFE_INTEGER
+  total_supply?: string;
+  implementation_address?: string;
+  admin_address?: string;
+}
+
+// A finding together with its AI (or fallback) explanation
+export interface AnalyzedRisk extends RiskFinding {
+  beginner_explanation: string;
+  developer_explanation: string;
+  why_it_matters: string;
+  mitigation: string;
+}
+
 export interface CompleteAnalysisResult {
   id: string;
   risk_score: number;
+  unmitigated_risk_score: number;
+  mitigation_discount: number;
   classification: RiskClassification;
   confidence: number;
-  risks: RiskFinding[];
+  risks: AnalyzedRisk[];
   beginner_summary: string;
   developer_summary: string;
-  risk_explanations: RiskExplanation[];
+  proxy?: ProxyAnalysisSummary;
   metadata: {
     contract_address?: string;
     chain: string;
     compiler_version?: string;
     is_verified: boolean;
     lines_of_code: number;
+    total_functions: number;
+    source_files?: string[];
+    analysis_mode?: AnalysisMode;
+    function_selectors?: string[];
+    function_signatures?: Record<string, string[]>;
+    onchain_state?: OnChainState;
     processing_time_ms: number;
   };
   cached: boolean;
@@ -146,6 +241,21 @@ export const RISK_WEIGHTS: Record<RiskType, { weight: number; severity: Severity
   [RiskType.BLACKLIST_MODIFICATION]: { weight: 1.5, severity: Severity.MEDIUM },
   [RiskType.MAX_TX_LIMIT]: { weight: 0.5, severity: Severity.LOW },
   [RiskType.WHITELIST_MODIFICATION]: { weight: 1.0, severity: Severity.MEDIUM },
+  [RiskType.HONEYPOT]: { weight: 4.0, severity: Severity.CRITICAL },
+  
+  // External Call Risks
+  [RiskType.REENTRANCY]: { weight: 3.0, severity: Severity.CRITICAL },
+  
+  // Access Control Risks
+  [RiskType.UNPROTECTED_PRIVILEGED_FUNCTION]: { weight: 3.5, severity: Severity.CRITICAL },
+};
+
+// Fraction of a finding's weight removed by each mitigation (applied multiplicatively)
+export const MITIGATION_DISCOUNTS: Record<MitigationType, number> = {
+  [MitigationType.TIMELOCK]: 0.35,
+  [MitigationType.MULTISIG]: 0.25,
+  // Other roles may still hold privileges, so renouncing is not a full discount
+  [MitigationType.RENOUNCED_OWNERSHIP]: 0.9,
 };
 
 export function classifyRiskScore(score: number): RiskClassification {
@@ -0,0 +1,15 @@
+/**
+ * Regular Expression Helpers
+ * Building patterns from Solidity identifiers
+ */
+
+/**
+ * Escape text for literal use in a regular expression
+ */
+export const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Pattern source matching an identifier as a whole word. `\b` cannot be used since
+ * `$` is legal in Solidity identifiers
+ */
+export const identifierPattern = (name: string): string => `(?<![\\w$])${escapeRegExp(name)}(?![\\w$])`;
@@ -4,46 +4,118 @@
  */
 
 import Joi from 'joi';
+import config from '../config';
+import { ChainRegistry } from '../services/chain-registry';
+import { API_KEY_SCOPES } from '../repositories/api-key.repository';
+import { RiskClassification } from '../types/risk.types';
+
+const ADDRESS_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+
+// Chain id accepted by the chain registry
+const chainSchema = Joi.string()
+  .custom((value, helpers) =>
+    ChainRegistry.isSupported(value)
+      ? value
+      : helpers.error('chain.unsupported', { chains: ChainRegistry.getSupported().map(chain => chain.id).join(', ') })
+  )
+  .messages({
+    'chain.unsupported': 'Chain must be one of: {{#chains}}',
+    'any.required': 'Chain is required',
+  });
+
+const modeSchema = Joi.string()
+  .valid('BEGINNER', 'DEVELOPER')
+  .default('BEGINNER')
+  .messages({
+    'any.only': 'Mode must be BEGINNER or DEVELOPER',
+  });
+
+const contractInputSchema = Joi.string()
+  .max(1048576) // Max 1MB
+  .messages({
+    'string.base': 'Input must be a string',
+    'string.empty': 'Input cannot be empty',
+    'string.max': 'Input exceeds maximum size of 1MB',
+  });
 
 export const analyzeRequestSchema = Joi.object({
-  input: Joi.string()
+  input: contractInputSchema
     .required()
-    .max(1048576) // Max 1MB
     .messages({
-      'string.base': 'Input must be a string',
-      'string.empty': 'Input cannot be empty',
-      'string.max': 'Input exceeds maximum size of 1MB',
       'any.required': 'Input is required',
     }),
   
-  chain: Joi.string()
-    .valid('ethereum', 'polygon', 'bsc')
+  chain: chainSchema.required(),
+  
+  mode: modeSchema,
+  
+  // Queue the analysis and respond 202 with a job id to poll
+  async: Joi.boolean().default(false),
+});
+
+// Up to BATCH_MAX_ITEMS contracts; an item's chain defaults to the top-level chain
+export const batchAnalyzeRequestSchema = Joi.object({
+  items: Joi.array()
+    .items(Joi.object({
+      input: contractInputSchema
+        .required()
+        .messages({
+          'any.required': 'Input is required',
+        }),
+      
+      chain: chainSchema.when('/chain', { not: Joi.exist(), then: Joi.required() }),
+    }))
+    .min(1)
+    .max(config.batchMaxItems)
     .required()
     .messages({
-      'any.only': 'Chain must be one of: ethereum, polygon, bsc',
-      'any.required': 'Chain is required',
+      'array.min': 'At least one item is required',
+      'array.max': `A batch cannot exceed ${config.batchMaxItems} items`,
+      'any.required': 'Items are required',
     }),
   
-  mode: Joi.string()
-    .valid('BEGINNER', 'DEVELOPER')
-    .default('BEGINNER')
-    .messages({
-      'any.only': 'Mode must be BEGINNER or DEVELOPER',
-    }),
+  chain: chainSchema,
+  
+  mode: modeSchema,
 });
 
+// Each side is a stored analysis id or a contract input to analyze first
 export const compareRequestSchema = Joi.object({
-  analysis_id_a: Joi.string()
+  analysis_id_a: Joi.string(),
+  analysis_id_b: Joi.string(),
+  input_a: contractInputSchema,
+  input_b: contractInputSchema,
+  
+  chain: chainSchema
+    .when('input_a', { is: Joi.exist(), then: Joi.required() })
+    .when('input_b', { is: Joi.exist(), then: Joi.required() }),
+  
+  mode: modeSchema,
+})
+  .xor('analysis_id_a', 'input_a')
+  .xor('analysis_id_b', 'input_b')
+  .messages({
+    'object.missing': 'Provide analysis_id_a or input_a, and analysis_id_b or input_b',
+    'object.xor': 'Provide either an analysis id or an input for each side, not both',
+  });
+
+// Old and new version of a contract: Solidity source or verified address
+export const diffRequestSchema = Joi.object({
+  old_input: contractInputSchema
     .required()
     .messages({
-      'any.required': 'Analysis ID A is required',
+      'any.required': 'old_input is required',
     }),
   
-  analysis_id_b: Joi.string()
+  new_input: contractInputSchema
     .required()
     .messages({
-      'any.required': 'Analysis ID B is required',
+      'any.required': 'new_input is required',
     }),
+  
+  chain: chainSchema
+    .when('old_input', { is: Joi.string().pattern(ADDRESS_PATTERN), then: Joi.required() })
+    .when('new_input', { is: Joi.string().pattern(ADDRESS_PATTERN), then: Joi.required() }),
 });
 
 export const paginationSchema = Joi.object({
@@ -67,9 +139,36 @@ export const paginationSchema = Joi.object({
     .default('desc'),
 });
 
+export const analysisHistorySchema = paginationSchema.keys({
+  chain: Joi.string(),
+  
+  classification: Joi.string()
+    .valid(...Object.values(RiskClassification))
+    .messages({
+      'any.only': `Classification must be one of: ${Object.values(RiskClassification).join(', ')}`,
+    }),
+  
+  contractAddress: Joi.string()
+    .pattern(ADDRESS_PATTERN)
+    .lowercase()
+    .messages({
+      'string.pattern.base': 'Contract address must be a 0x-prefixed 20-byte hex address',
+    }),
+  
+  from: Joi.date().iso(),
+  
+  to: Joi.date()
+    .iso()
+    .when('from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('from')) })
+    .messages({
+      'date.min': 'to must not be before from',
+    }),
+});
+
 export const loginSchema = Joi.object({
   email: Joi.string()
     .email()
+    .lowercase()
     .required()
     .messages({
       'string.email': 'Invalid email format',
@@ -88,6 +187,7 @@ export const loginSchema = Joi.object({
 export const registerSchema = Joi.object({
   email: Joi.string()
     .email()
+    .lowercase()
     .required()
     .messages({
       'string.email': 'Invalid email format',
@@ -114,3 +214,43 @@ export const registerSchema = Joi.object({
       'any.required': 'Name is required',
     }),
 });
+
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string()
+    .required()
+    .messages({
+      'any.required': 'Refresh token is required',
+    }),
+});
+
+export const createApiKeySchema = Joi.object({
+  name: Joi.string()
+    .trim()
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'string.empty': 'Name cannot be empty',
+      'string.max': 'Name cannot exceed 100 characters',
+      'any.required': 'Name is required',
+    }),
+  
+  scopes: Joi.array()
+    .items(Joi.string().valid(...API_KEY_SCOPES))
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'any.only': `Scopes must be among: ${API_KEY_SCOPES.join(', ')}`,
+      'array.min': 'At least one scope is required',
+      'array.unique': 'Scopes must not repeat',
+      'any.required': 'Scopes are required',
+    }),
+  
+  expiresAt: Joi.date()
+    .iso()
+    .greater('now')
+    .messages({
+      'date.greater': 'expiresAt must be in the future',
+    }),
+});